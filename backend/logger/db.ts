@@ -1,9 +1,17 @@
 import sqlite3 from "sqlite3";
 import path from "path";
+import { runMigrations } from "./migrations";
 
 // Define file paths for separate databases
 const tradesDbPath = path.join(process.cwd(), "trades.db");
 
+let markReady: () => void;
+// Resolves once the connection is open, every table has been created and
+// pending migrations have run
+export const tradesDbReady = new Promise<void>((resolve) => {
+  markReady = resolve;
+});
+
 // Initialize and export the trades database
 export const tradesDb = new sqlite3.Database(
   tradesDbPath,
@@ -11,10 +19,13 @@ export const tradesDb = new sqlite3.Database(
   (err) => {
     if (err) {
       console.error("[INIT] Could not connect to trades.db", err);
+      markReady();
     } else {
       console.log("[INIT] Connected to trades.db");
-      tradesDb.run(
-        `
+      Promise.all([
+        createTable(
+          "trades",
+          `
         CREATE TABLE IF NOT EXISTS trades (
           broker TEXT NOT NULL,
           accountId REAL NOT NULL,
@@ -28,32 +39,111 @@ export const tradesDb = new sqlite3.Database(
           orderId REAL NOT NULL,
           PRIMARY KEY(accountId, orderId, creationTimestamp)
         );
-        `,
-        (err) => {
-          if (err) {
-            console.error("[INIT] Failed to create trades table:", err.message);
-          } else {
-            console.log("[INIT] trades table ready");
-          }
-        }
-      );
+        `
+        ),
+        createTable(
+          "signals",
+          `
+        CREATE TABLE IF NOT EXISTS signals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          receivedAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          strategy TEXT,
+          broker TEXT,
+          payload TEXT NOT NULL,
+          validation TEXT NOT NULL DEFAULT 'pending',
+          validationError TEXT,
+          riskDecision TEXT,
+          riskReason TEXT,
+          orderId TEXT,
+          outcome TEXT NOT NULL DEFAULT 'pending',
+          outcomeDetail TEXT
+        );
+        `
+        ),
+        createTable(
+          "orders",
+          `
+        CREATE TABLE IF NOT EXISTS orders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          broker TEXT NOT NULL,
+          accountId REAL,
+          orderId REAL,
+          contractId TEXT NOT NULL,
+          side TEXT NOT NULL,
+          type TEXT NOT NULL,
+          quantity REAL NOT NULL,
+          filledQuantity REAL NOT NULL DEFAULT 0,
+          limitPrice REAL,
+          stopPrice REAL,
+          linkedOrderId REAL,
+          status TEXT NOT NULL,
+          statusReason TEXT,
+          signalId INTEGER,
+          creationTimestamp TEXT NOT NULL,
+          updateTimestamp TEXT NOT NULL,
+          UNIQUE(broker, orderId)
+        );
+        `
+        ),
+        createTable(
+          "sync_cursors",
+          `
+        CREATE TABLE IF NOT EXISTS sync_cursors (
+          broker TEXT NOT NULL,
+          accountId REAL NOT NULL,
+          syncedThrough TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          PRIMARY KEY(broker, accountId)
+        );
+        `
+        ),
+        createTable(
+          "idempotency_keys",
+          `
+        CREATE TABLE IF NOT EXISTS idempotency_keys (
+          idempotencyKey TEXT PRIMARY KEY,
+          signalId INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          responseStatus INTEGER,
+          responseBody TEXT
+        );
+        `
+        ),
+        createTable(
+          "webhook_rejections",
+          `
+        CREATE TABLE IF NOT EXISTS webhook_rejections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          receivedAt TEXT NOT NULL,
+          ip TEXT,
+          strategy TEXT,
+          reason TEXT NOT NULL
+        );
+        `
+        ),
+      ])
+        // Bring the tables up to the current schema version
+        .then(() => runMigrations(tradesDb))
+        .then(() => markReady());
     }
   }
 );
 
 /**
- * Clears all data from the trades table
+ * Creates a table if it does not exist yet and logs the outcome
+ * @param name Table name, used in log messages
+ * @param sql CREATE TABLE IF NOT EXISTS statement
  */
-export function clearTradesTable(): Promise<void> {
-  return new Promise((resolve, reject) => {
-    tradesDb.run("DELETE FROM trades;", (err) => {
+function createTable(name: string, sql: string): Promise<void> {
+  return new Promise((resolve) => {
+    tradesDb.run(sql, (err) => {
       if (err) {
-        console.error("[DB] Failed to clear trades table:", err.message);
-        reject(err);
+        console.error(`[INIT] Failed to create ${name} table:`, err.message);
       } else {
-        console.log("[DB] Trades table cleared successfully");
-        resolve();
+        console.log(`[INIT] ${name} table ready`);
       }
+      resolve();
     });
   });
 }
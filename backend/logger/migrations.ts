@@ -0,0 +1,255 @@
+// Schema migrations for trades.db
+//
+// The schema version is kept in SQLite's user_version. On start-up every
+// migration above it is applied in order, each in its own transaction, so an
+// existing trades.db is upgraded in place. Add new migrations to the end of
+// the list; never change one that has shipped.
+import sqlite3 from "sqlite3";
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "integer trade ids, broker trade id, strategy and trade indexes",
+    // SQLite cannot change column types, so the table is rebuilt. Kraken's
+    // order ids are not numeric and stay text in the INTEGER column
+    sql: `
+      CREATE TABLE trades_v1 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        broker TEXT NOT NULL,
+        accountId INTEGER NOT NULL,
+        contractId TEXT NOT NULL,
+        creationTimestamp TEXT NOT NULL,
+        price REAL NOT NULL,
+        profitAndLoss REAL,
+        fees REAL NOT NULL,
+        side TEXT NOT NULL,
+        size REAL NOT NULL,
+        orderId INTEGER NOT NULL,
+        brokerTradeId TEXT,
+        strategy TEXT
+      );
+      INSERT INTO trades_v1 (
+        broker, accountId, contractId, creationTimestamp, price,
+        profitAndLoss, fees, side, size, orderId
+      )
+      SELECT broker, accountId, contractId, creationTimestamp, price,
+        profitAndLoss, fees, side, size, orderId
+      FROM trades
+      ORDER BY creationTimestamp ASC;
+      DROP TABLE trades;
+      ALTER TABLE trades_v1 RENAME TO trades;
+
+      -- Strategy of the signal behind each fill's order, or its entry's
+      UPDATE trades SET strategy = (
+        SELECT s.strategy FROM orders o
+        LEFT JOIN orders parent
+          ON parent.broker = o.broker AND parent.orderId = o.linkedOrderId
+        JOIN signals s ON s.id = COALESCE(o.signalId, parent.signalId)
+        WHERE o.broker = trades.broker AND o.orderId = trades.orderId
+      );
+
+      CREATE UNIQUE INDEX idx_trades_broker_trade_id
+        ON trades(broker, brokerTradeId) WHERE brokerTradeId IS NOT NULL;
+      CREATE INDEX idx_trades_order ON trades(broker, orderId, creationTimestamp);
+      CREATE INDEX idx_trades_creation ON trades(creationTimestamp);
+      CREATE INDEX idx_trades_broker_account
+        ON trades(broker, accountId, creationTimestamp);
+      CREATE INDEX idx_trades_contract ON trades(contractId, creationTimestamp);
+      CREATE INDEX idx_trades_strategy ON trades(strategy, creationTimestamp);
+    `,
+  },
+  {
+    version: 2,
+    name: "optimizations table",
+    sql: `
+      CREATE TABLE optimizations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        createdAt TEXT NOT NULL,
+        name TEXT,
+        strategy TEXT NOT NULL,
+        method TEXT NOT NULL,
+        contractId TEXT NOT NULL,
+        barsFrom TEXT,
+        barsTo TEXT,
+        bars INTEGER NOT NULL,
+        runs INTEGER NOT NULL,
+        walkForward INTEGER NOT NULL,
+        result TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 3,
+    name: "text order ids, integer order accounts and unique fills without a broker id",
+    // Both tables are rebuilt to change column types. Ids read from REAL
+    // columns come back as 5000.0, so whole numbers are cast through INTEGER
+    // to store them as "5000". Fills without a broker trade id are unique by
+    // account, order and time; earlier duplicates are dropped first
+    sql: `
+      CREATE TABLE trades_v3 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        broker TEXT NOT NULL,
+        accountId INTEGER NOT NULL,
+        contractId TEXT NOT NULL,
+        creationTimestamp TEXT NOT NULL,
+        price REAL NOT NULL,
+        profitAndLoss REAL,
+        fees REAL NOT NULL,
+        side TEXT NOT NULL,
+        size REAL NOT NULL,
+        orderId TEXT NOT NULL,
+        brokerTradeId TEXT,
+        strategy TEXT
+      );
+      INSERT INTO trades_v3
+      SELECT id, broker, accountId, contractId, creationTimestamp, price,
+        profitAndLoss, fees, side, size,
+        CASE WHEN typeof(orderId) = 'real' AND orderId = CAST(orderId AS INTEGER)
+          THEN CAST(CAST(orderId AS INTEGER) AS TEXT)
+          ELSE CAST(orderId AS TEXT) END,
+        brokerTradeId, strategy
+      FROM trades
+      WHERE brokerTradeId IS NOT NULL OR id IN (
+        SELECT MIN(id) FROM trades WHERE brokerTradeId IS NULL
+        GROUP BY broker, accountId, orderId, creationTimestamp
+      );
+      DROP TABLE trades;
+      ALTER TABLE trades_v3 RENAME TO trades;
+
+      CREATE UNIQUE INDEX idx_trades_broker_trade_id
+        ON trades(broker, brokerTradeId) WHERE brokerTradeId IS NOT NULL;
+      CREATE UNIQUE INDEX idx_trades_fill
+        ON trades(broker, accountId, orderId, creationTimestamp)
+        WHERE brokerTradeId IS NULL;
+      CREATE INDEX idx_trades_order ON trades(broker, orderId, creationTimestamp);
+      CREATE INDEX idx_trades_creation ON trades(creationTimestamp);
+      CREATE INDEX idx_trades_broker_account
+        ON trades(broker, accountId, creationTimestamp);
+      CREATE INDEX idx_trades_contract ON trades(contractId, creationTimestamp);
+      CREATE INDEX idx_trades_strategy ON trades(strategy, creationTimestamp);
+
+      CREATE TABLE orders_v3 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        broker TEXT NOT NULL,
+        accountId INTEGER,
+        orderId TEXT,
+        contractId TEXT NOT NULL,
+        side TEXT NOT NULL,
+        type TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        filledQuantity REAL NOT NULL DEFAULT 0,
+        limitPrice REAL,
+        stopPrice REAL,
+        linkedOrderId TEXT,
+        status TEXT NOT NULL,
+        statusReason TEXT,
+        signalId INTEGER,
+        creationTimestamp TEXT NOT NULL,
+        updateTimestamp TEXT NOT NULL,
+        UNIQUE(broker, orderId)
+      );
+      INSERT INTO orders_v3
+      SELECT id, broker, CAST(accountId AS INTEGER),
+        CASE WHEN typeof(orderId) = 'real' AND orderId = CAST(orderId AS INTEGER)
+          THEN CAST(CAST(orderId AS INTEGER) AS TEXT)
+          ELSE CAST(orderId AS TEXT) END,
+        contractId, side, type, quantity, filledQuantity, limitPrice,
+        stopPrice,
+        CASE WHEN typeof(linkedOrderId) = 'real'
+            AND linkedOrderId = CAST(linkedOrderId AS INTEGER)
+          THEN CAST(CAST(linkedOrderId AS INTEGER) AS TEXT)
+          ELSE CAST(linkedOrderId AS TEXT) END,
+        status, statusReason, signalId, creationTimestamp, updateTimestamp
+      FROM orders;
+      DROP TABLE orders;
+      ALTER TABLE orders_v3 RENAME TO orders;
+    `,
+  },
+  {
+    version: 4,
+    name: "derived P&L flag on trades",
+    // Set when profitAndLoss was worked out from the fills rather than
+    // reported by the broker, so it can be worked out again after a backfill.
+    // IBKR and Kraken spot never report it; Kraken futures P&L comes from
+    // the account log
+    sql: `
+      ALTER TABLE trades ADD COLUMN derivedPnl INTEGER NOT NULL DEFAULT 0;
+      UPDATE trades SET derivedPnl = 1
+      WHERE profitAndLoss IS NOT NULL AND (
+        broker = 'ibkr' OR (
+          broker = 'kraken' AND
+          upper(substr(contractId, 1, 3)) NOT IN ('PF_', 'PI_', 'FI_', 'FF_')
+        )
+      );
+    `,
+  },
+];
+
+function exec(db: sqlite3.Database, sql: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.exec(sql, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+function getSchemaVersion(db: sqlite3.Database): Promise<number> {
+  return new Promise((resolve, reject) => {
+    db.get(
+      "PRAGMA user_version",
+      (err, row: { user_version: number } | undefined) => {
+        if (err) reject(err);
+        else resolve(row?.user_version ?? 0);
+      }
+    );
+  });
+}
+
+/**
+ * Applies the migrations a database has not had yet
+ * Failures are logged rather than thrown; the failed migration is rolled back
+ * and later ones are not attempted
+ * @returns The schema version the database is at afterwards
+ */
+export async function runMigrations(db: sqlite3.Database): Promise<number> {
+  let version: number;
+  try {
+    version = await getSchemaVersion(db);
+  } catch (error) {
+    console.error(
+      "[DB] Could not read the schema version:",
+      error instanceof Error ? error.message : String(error)
+    );
+    return 0;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue;
+    try {
+      await exec(
+        db,
+        `BEGIN TRANSACTION;
+        ${migration.sql}
+        PRAGMA user_version = ${migration.version};
+        COMMIT;`
+      );
+      version = migration.version;
+      console.log(
+        `[DB] Applied migration ${migration.version}: ${migration.name}`
+      );
+    } catch (error) {
+      await exec(db, "ROLLBACK").catch(() => undefined);
+      console.error(
+        `[DB] Migration ${migration.version} (${migration.name}) failed:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      break;
+    }
+  }
+  console.log(`[INIT] Database schema at version ${version}`);
+  return version;
+}
@@ -0,0 +1,529 @@
+// Stand-in for Kraken's spot and futures REST APIs
+//
+// Mimics the responses the Kraken adapter relies on, checks request
+// signatures the same way Kraken does, and keeps orders and fills in memory.
+// Point the backend at it with:
+//
+//   KRAKEN_API_URL=http://localhost:4010
+//   KRAKEN_FUTURES_API_URL=http://localhost:4010/derivatives
+//   KRAKEN_API_KEY=mock-key             KRAKEN_API_SECRET=<MOCK_SECRET>
+//   KRAKEN_FUTURES_API_KEY=mock-key     KRAKEN_FUTURES_API_SECRET=<MOCK_SECRET>
+//
+// Run with: npm run mock:kraken
+import crypto from "crypto";
+import express, { NextFunction, Request, Response } from "express";
+import { signFuturesRequest, signSpotRequest } from "../src/brokers/kraken";
+
+const PORT = process.env.KRAKEN_MOCK_PORT || 4010;
+const MOCK_KEY = process.env.KRAKEN_MOCK_KEY || "mock-key";
+// Any base64 string works as a secret
+const MOCK_SECRET =
+  process.env.KRAKEN_MOCK_SECRET ||
+  Buffer.from("kraken-mock-secret").toString("base64");
+const FEE_RATE = 0.0026;
+const FUTURES_FEE_RATE = 0.0005;
+
+type RawBodyRequest = Request & { rawBody?: string };
+
+interface MockSpotOrder {
+  txid: string;
+  pair: string;
+  type: "buy" | "sell";
+  ordertype: string;
+  price: string;
+  price2: string;
+  vol: number;
+  vol_exec: number;
+  status: "open" | "closed" | "canceled";
+  opentm: number;
+  closetm?: number;
+}
+
+interface MockFuturesOrder {
+  order_id: string;
+  symbol: string;
+  side: "buy" | "sell";
+  orderType: string;
+  limitPrice?: number;
+  stopPrice?: number;
+  size: number;
+  filledSize: number;
+  receivedTime: string;
+  status: "open" | "filled" | "cancelled";
+}
+
+const ASSET_PAIRS = {
+  XXBTZUSD: {
+    altname: "XBTUSD",
+    wsname: "XBT/USD",
+    base: "XXBT",
+    quote: "ZUSD",
+    tick_size: "0.1",
+    pair_decimals: 1,
+  },
+  XETHZEUR: {
+    altname: "ETHEUR",
+    wsname: "ETH/EUR",
+    base: "XETH",
+    quote: "ZEUR",
+    tick_size: "0.01",
+    pair_decimals: 2,
+  },
+  ZEURZUSD: {
+    altname: "EURUSD",
+    wsname: "EUR/USD",
+    base: "ZEUR",
+    quote: "ZUSD",
+    tick_size: "0.00001",
+    pair_decimals: 5,
+  },
+};
+
+// Last traded price per pair key or futures symbol; market orders fill here
+const prices: Record<string, number> = {
+  XXBTZUSD: 60000,
+  XETHZEUR: 3000,
+  ZEURZUSD: 1.08,
+  PF_XBTUSD: 60000,
+};
+
+const spotOrders = new Map<string, MockSpotOrder>();
+const spotTrades = new Map<string, object>();
+const futuresOrders = new Map<string, MockFuturesOrder>();
+const futuresFills: object[] = [];
+const futuresPositions = new Map<
+  string,
+  { quantity: number; averagePrice: number }
+>();
+const futuresLog: { date: string; [field: string]: unknown }[] = [];
+let lastNonce = 0;
+
+function spotTxid(prefix: string): string {
+  const part = (length: number) =>
+    crypto
+      .randomBytes(length)
+      .toString("base64")
+      .replace(/[^A-Z0-9]/gi, "")
+      .toUpperCase()
+      .padEnd(length, "X")
+      .slice(0, length);
+  return `${prefix}${part(5)}-${part(5)}-${part(6)}`;
+}
+
+function nowSeconds(): number {
+  return Date.now() / 1000;
+}
+
+function fillSpotOrder(order: MockSpotOrder) {
+  const price = prices[order.pair];
+  const cost = price * order.vol;
+  order.vol_exec = order.vol;
+  order.status = "closed";
+  order.closetm = nowSeconds();
+  spotTrades.set(spotTxid("T"), {
+    ordertxid: order.txid,
+    pair: order.pair,
+    time: order.closetm,
+    type: order.type,
+    ordertype: order.ordertype,
+    price: price.toFixed(5),
+    cost: cost.toFixed(5),
+    fee: (cost * FEE_RATE).toFixed(5),
+    vol: order.vol.toFixed(8),
+  });
+}
+
+function fillFuturesOrder(order: MockFuturesOrder) {
+  order.filledSize = order.size;
+  order.status = "filled";
+  const fillId = crypto.randomUUID();
+  const price = prices[order.symbol];
+  const fillTime = new Date().toISOString();
+  futuresFills.unshift({
+    fill_id: fillId,
+    symbol: order.symbol.toLowerCase(),
+    side: order.side,
+    order_id: order.order_id,
+    size: order.size,
+    price,
+    fillTime,
+    fillType: "taker",
+  });
+
+  // Realize P&L against the average entry, as Kraken's account log does
+  const position = futuresPositions.get(order.symbol) ?? {
+    quantity: 0,
+    averagePrice: 0,
+  };
+  const signed = order.side === "buy" ? order.size : -order.size;
+  let realizedPnl = 0;
+  if (
+    position.quantity !== 0 &&
+    Math.sign(signed) !== Math.sign(position.quantity)
+  ) {
+    const closed = Math.min(Math.abs(signed), Math.abs(position.quantity));
+    realizedPnl =
+      (price - position.averagePrice) * closed * Math.sign(position.quantity);
+  }
+  const quantity = position.quantity + signed;
+  if (quantity === 0) {
+    position.averagePrice = 0;
+  } else if (Math.sign(quantity) !== Math.sign(position.quantity)) {
+    position.averagePrice = price;
+  } else if (Math.abs(quantity) > Math.abs(position.quantity)) {
+    position.averagePrice =
+      (position.averagePrice * Math.abs(position.quantity) +
+        price * order.size) /
+      Math.abs(quantity);
+  }
+  position.quantity = quantity;
+  futuresPositions.set(order.symbol, position);
+  futuresLog.unshift({
+    date: fillTime,
+    info: "futures trade",
+    contract: order.symbol.toLowerCase(),
+    execution: fillId,
+    trade_price: price,
+    fee: price * order.size * FUTURES_FEE_RATE,
+    realized_pnl: realizedPnl,
+  });
+}
+
+function spotError(res: Response, error: string, status = 200) {
+  return res.status(status).json({ error: [error], result: {} });
+}
+
+// Checks API-Key/API-Sign and the nonce like Kraken's spot API
+function requireSpotSignature(
+  req: RawBodyRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const nonce = Number(req.body.nonce);
+  const expected = signSpotRequest(
+    req.baseUrl + req.path,
+    String(req.body.nonce),
+    req.rawBody ?? "",
+    MOCK_SECRET
+  );
+  if (req.header("API-Key") !== MOCK_KEY) {
+    return spotError(res, "EAPI:Invalid key");
+  }
+  if (req.header("API-Sign") !== expected) {
+    return spotError(res, "EAPI:Invalid signature");
+  }
+  if (!(nonce > lastNonce)) {
+    return spotError(res, "EAPI:Invalid nonce");
+  }
+  lastNonce = nonce;
+  next();
+}
+
+// Checks APIKey/Nonce/Authent like Kraken's futures API
+function requireFuturesSignature(
+  req: RawBodyRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const postData =
+    req.method === "GET"
+      ? new URLSearchParams(req.query as Record<string, string>).toString()
+      : (req.rawBody ?? "");
+  const expected = signFuturesRequest(
+    req.path,
+    String(req.header("Nonce")),
+    postData,
+    MOCK_SECRET
+  );
+  if (req.header("APIKey") !== MOCK_KEY || req.header("Authent") !== expected) {
+    return res.json({ result: "error", error: "authenticationError" });
+  }
+  next();
+}
+
+const app = express();
+app.use(
+  express.urlencoded({
+    extended: false,
+    verify: (req, res, buf) => {
+      (req as RawBodyRequest).rawBody = buf.toString();
+    },
+  })
+);
+app.use(express.json());
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// SPOT
+//
+const spot = express.Router();
+
+spot.get("/public/AssetPairs", (req: Request, res: Response) => {
+  res.json({ error: [], result: ASSET_PAIRS });
+});
+
+spot.get("/public/Ticker", (req: Request, res: Response) => {
+  const pair = String(req.query.pair);
+  if (prices[pair] === undefined) {
+    return spotError(res, "EQuery:Unknown asset pair");
+  }
+  res.json({
+    error: [],
+    result: { [pair]: { c: [prices[pair].toFixed(5), "1.0"] } },
+  });
+});
+
+spot.use("/private", requireSpotSignature);
+
+spot.post("/private/Balance", (req: Request, res: Response) => {
+  res.json({
+    error: [],
+    result: { ZUSD: "100000.0000", XXBT: "1.0000000000" },
+  });
+});
+
+spot.post("/private/AddOrder", (req: Request, res: Response) => {
+  const { pair, type, ordertype, volume, price, price2 } = req.body;
+  if (!(pair in ASSET_PAIRS)) {
+    return spotError(res, "EQuery:Unknown asset pair");
+  }
+  if (!(parseFloat(volume) > 0)) {
+    return spotError(res, "EGeneral:Invalid arguments:volume");
+  }
+  const order: MockSpotOrder = {
+    txid: spotTxid("O"),
+    pair,
+    type,
+    ordertype,
+    price: price ?? "0",
+    price2: price2 ?? "0",
+    vol: parseFloat(volume),
+    vol_exec: 0,
+    status: "open",
+    opentm: nowSeconds(),
+  };
+  spotOrders.set(order.txid, order);
+  if (ordertype === "market") {
+    fillSpotOrder(order);
+  }
+  res.json({
+    error: [],
+    result: {
+      descr: { order: `${type} ${volume} ${pair} @ ${ordertype}` },
+      txid: [order.txid],
+    },
+  });
+});
+
+spot.post("/private/AmendOrder", (req: Request, res: Response) => {
+  const order = spotOrders.get(req.body.txid);
+  if (!order || order.status !== "open") {
+    return spotError(res, "EOrder:Unknown order");
+  }
+  if (req.body.order_qty) order.vol = parseFloat(req.body.order_qty);
+  if (req.body.limit_price) order.price = req.body.limit_price;
+  if (req.body.trigger_price) order.price = req.body.trigger_price;
+  res.json({ error: [], result: { amend_id: crypto.randomUUID() } });
+});
+
+spot.post("/private/CancelOrder", (req: Request, res: Response) => {
+  const order = spotOrders.get(req.body.txid);
+  if (!order || order.status !== "open") {
+    return spotError(res, "EOrder:Unknown order");
+  }
+  order.status = "canceled";
+  order.closetm = nowSeconds();
+  res.json({ error: [], result: { count: 1 } });
+});
+
+const describeSpotOrder = (order: MockSpotOrder) => ({
+  status: order.status,
+  opentm: order.opentm,
+  closetm: order.closetm,
+  vol: order.vol.toFixed(8),
+  vol_exec: order.vol_exec.toFixed(8),
+  descr: {
+    pair: ASSET_PAIRS[order.pair as keyof typeof ASSET_PAIRS].altname,
+    type: order.type,
+    ordertype: order.ordertype,
+    price: order.price,
+    price2: order.price2,
+  },
+});
+
+spot.post("/private/OpenOrders", (req: Request, res: Response) => {
+  const open = Object.fromEntries(
+    [...spotOrders.values()]
+      .filter((order) => order.status === "open")
+      .map((order) => [order.txid, describeSpotOrder(order)])
+  );
+  res.json({ error: [], result: { open } });
+});
+
+spot.post("/private/ClosedOrders", (req: Request, res: Response) => {
+  const start = parseFloat(req.body.start ?? "0");
+  const closed = Object.fromEntries(
+    [...spotOrders.values()]
+      .filter((order) => order.status !== "open" && order.opentm >= start)
+      .map((order) => [order.txid, describeSpotOrder(order)])
+  );
+  res.json({
+    error: [],
+    result: { closed, count: Object.keys(closed).length },
+  });
+});
+
+spot.post("/private/TradesHistory", (req: Request, res: Response) => {
+  const start = parseFloat(req.body.start ?? "0");
+  const end = parseFloat(req.body.end ?? String(Infinity));
+  const offset = parseInt(req.body.ofs ?? "0");
+  const matching = [...spotTrades.entries()].filter(([, trade]) => {
+    const { time } = trade as { time: number };
+    return time >= start && time <= end;
+  });
+  res.json({
+    error: [],
+    result: {
+      trades: Object.fromEntries(matching.slice(offset, offset + 50)),
+      count: matching.length,
+    },
+  });
+});
+
+app.use("/0", spot);
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// FUTURES
+//
+const futures = express.Router();
+
+futures.get("/api/v3/instruments", (req: Request, res: Response) => {
+  res.json({
+    result: "success",
+    instruments: [
+      { symbol: "PF_XBTUSD", tickSize: 0.5, contractSize: 1, tradeable: true },
+    ],
+  });
+});
+
+futures.use(requireFuturesSignature);
+
+futures.post("/api/v3/sendorder", (req: Request, res: Response) => {
+  const { orderType, symbol, side, size, limitPrice, stopPrice } = req.body;
+  if (prices[symbol] === undefined) {
+    return res.json({
+      result: "success",
+      sendStatus: { status: "invalidSymbol" },
+    });
+  }
+  const order: MockFuturesOrder = {
+    order_id: crypto.randomUUID(),
+    symbol,
+    side,
+    orderType,
+    limitPrice: limitPrice ? parseFloat(limitPrice) : undefined,
+    stopPrice: stopPrice ? parseFloat(stopPrice) : undefined,
+    size: parseFloat(size),
+    filledSize: 0,
+    receivedTime: new Date().toISOString(),
+    status: "open",
+  };
+  futuresOrders.set(order.order_id, order);
+  if (orderType === "mkt") {
+    fillFuturesOrder(order);
+  }
+  res.json({
+    result: "success",
+    sendStatus: { order_id: order.order_id, status: "placed" },
+  });
+});
+
+futures.post("/api/v3/editorder", (req: Request, res: Response) => {
+  const order = futuresOrders.get(req.body.orderId);
+  if (!order || order.status !== "open") {
+    return res.json({ result: "success", editStatus: { status: "notFound" } });
+  }
+  if (req.body.size) order.size = parseFloat(req.body.size);
+  if (req.body.limitPrice) order.limitPrice = parseFloat(req.body.limitPrice);
+  if (req.body.stopPrice) order.stopPrice = parseFloat(req.body.stopPrice);
+  res.json({ result: "success", editStatus: { status: "edited" } });
+});
+
+futures.post("/api/v3/cancelorder", (req: Request, res: Response) => {
+  const order = futuresOrders.get(req.body.order_id);
+  if (!order || order.status !== "open") {
+    return res.json({
+      result: "success",
+      cancelStatus: { status: "notFound" },
+    });
+  }
+  order.status = "cancelled";
+  res.json({ result: "success", cancelStatus: { status: "cancelled" } });
+});
+
+futures.get("/api/v3/openorders", (req: Request, res: Response) => {
+  res.json({
+    result: "success",
+    openOrders: [...futuresOrders.values()]
+      .filter((order) => order.status === "open")
+      .map((order) => ({
+        ...order,
+        unfilledSize: order.size - order.filledSize,
+      })),
+  });
+});
+
+futures.get("/api/v3/fills", (req: Request, res: Response) => {
+  const before = req.query.lastFillTime
+    ? new Date(String(req.query.lastFillTime)).getTime()
+    : Infinity;
+  res.json({
+    result: "success",
+    fills: futuresFills
+      .filter(
+        (fill) =>
+          new Date((fill as { fillTime: string }).fillTime).getTime() <= before
+      )
+      .slice(0, 100),
+  });
+});
+
+app.use("/derivatives", futures);
+
+// The account log sits outside /derivatives, like Kraken's history endpoints
+app.get(
+  "/api/history/v3/account-log",
+  requireFuturesSignature,
+  (req: Request, res: Response) => {
+    const since = Number(req.query.since ?? 0);
+    const before = Number(req.query.before ?? Infinity);
+    const count = Number(req.query.count ?? 500);
+    res.json({
+      accountUid: "mock-account",
+      logs: futuresLog
+        .filter((entry) => {
+          const time = new Date(entry.date).getTime();
+          return (
+            time >= since &&
+            time < before &&
+            (!req.query.info || entry.info === req.query.info)
+          );
+        })
+        .slice(0, count),
+    });
+  }
+);
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// MOCK CONTROLS
+//
+// Set the price that market orders fill at: { "pair": "XXBTZUSD", "price": 61000 }
+app.post("/mock/price", (req: Request, res: Response) => {
+  const { pair, price } = req.body as { pair: string; price: number };
+  prices[pair] = price;
+  res.json({ success: true, prices });
+});
+
+app.listen(PORT, () => {
+  console.log(`[MOCK] Kraken stand-in running on port ${PORT}`);
+  console.log(`[MOCK] API key: ${MOCK_KEY}, secret: ${MOCK_SECRET}`);
+});
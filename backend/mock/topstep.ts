@@ -0,0 +1,616 @@
+// Stand-in for the TopstepX API
+//
+// Serves the endpoints the Topstep adapter calls (Auth/loginKey,
+// Account/search, Contract/search, Contract/searchById, Order/place,
+// Order/modify, Order/cancel, Order/search, Trade/search and
+// History/retrieveBars) with accounts, orders and fills kept in memory.
+// Market orders fill at the current mock price; limit and stop orders rest
+// until a price set through /mock/price reaches them, and minute bars are
+// built from the prices set. Point the backend at it with:
+//
+//   TOPSTEP_API_URL=http://localhost:4020/api
+//   TOPSTEP_USERNAME=<anything>   TOPSTEP_API_KEY=mock-key
+//
+// Run with: npm run mock:topstep, or mount createTopstepMock() in-process
+import crypto from "crypto";
+import express, { NextFunction, Request, Response } from "express";
+
+const PORT = process.env.TOPSTEP_MOCK_PORT || 4020;
+const MOCK_API_KEY = process.env.TOPSTEP_MOCK_API_KEY || "mock-key";
+// Per side, like the fees Trade/search reports
+const FEE_PER_CONTRACT = 0.37;
+
+interface MockAccount {
+  id: number;
+  name: string;
+  balance: number;
+  canTrade: boolean;
+  isVisible: boolean;
+}
+
+interface MockContract {
+  id: string;
+  name: string;
+  description: string;
+  tickSize: number;
+  tickValue: number;
+  activeContract: boolean;
+}
+
+interface MockOrder {
+  id: number;
+  accountId: number;
+  contractId: string;
+  creationTimestamp: string;
+  updateTimestamp: string | null;
+  // 1 = Open, 2 = Filled, 3 = Cancelled, 5 = Rejected
+  status: number;
+  // 1 = Limit, 2 = Market, 3 = Stop Limit, 4 = Stop, 5 = Trailing Stop
+  type: number;
+  // 0 = Buy, 1 = Sell
+  side: number;
+  size: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  trailPrice: number | null;
+  fillVolume: number | null;
+  filledPrice: number | null;
+  linkedOrderId: number | null;
+}
+
+interface MockTrade {
+  id: number;
+  accountId: number;
+  contractId: string;
+  creationTimestamp: string;
+  price: number;
+  profitAndLoss: number | null;
+  fees: number;
+  // Side of the fill, opposite to the order's (1 for a buy order)
+  side: number;
+  size: number;
+  voided: boolean;
+  orderId: number;
+}
+
+interface MockTick {
+  contractId: string;
+  time: number;
+  price: number;
+}
+
+export interface TopstepMockState {
+  accounts: MockAccount[];
+  contracts: MockContract[];
+  prices: Record<string, number>;
+  // Every price set through /mock/price, for History/retrieveBars
+  ticks: MockTick[];
+  orders: MockOrder[];
+  trades: MockTrade[];
+  // Issued session tokens; clearing them makes the next call a 401
+  tokens: Set<string>;
+}
+
+// Roots listed by the mock, with their Topstep symbol, ticks and a start price
+const ROOTS = [
+  { root: "NQ", symbol: "ENQ", tickSize: 0.25, tickValue: 5, price: 20000 },
+  { root: "MNQ", symbol: "MNQ", tickSize: 0.25, tickValue: 0.5, price: 20000 },
+  { root: "ES", symbol: "EP", tickSize: 0.25, tickValue: 12.5, price: 5500 },
+  { root: "MES", symbol: "MES", tickSize: 0.25, tickValue: 1.25, price: 5500 },
+];
+const QUARTER_CODES = ["H", "M", "U", "Z"];
+
+// The next four quarterly contracts of each root, as Contract/search lists them
+function listContracts(now: Date): MockContract[] {
+  const contracts: MockContract[] = [];
+  for (const spec of ROOTS) {
+    let year = now.getUTCFullYear();
+    let quarter = Math.floor(now.getUTCMonth() / 3);
+    for (let i = 0; i < 4; i++) {
+      const code = `${QUARTER_CODES[quarter]}${year % 10}`;
+      contracts.push({
+        id: `CON.F.US.${spec.symbol}.${QUARTER_CODES[quarter]}${year % 100}`,
+        name: `${spec.root}${code}`,
+        description: `Mock ${spec.root} ${code}`,
+        tickSize: spec.tickSize,
+        tickValue: spec.tickValue,
+        activeContract: i === 0,
+      });
+      quarter = (quarter + 1) % 4;
+      if (quarter === 0) year++;
+    }
+  }
+  return contracts;
+}
+
+/**
+ * Creates the mock's state: three accounts (two tradable) and the listed
+ * contracts at their start prices
+ */
+export function createTopstepMockState(): TopstepMockState {
+  const contracts = listContracts(new Date());
+  const prices: Record<string, number> = {};
+  for (const contract of contracts) {
+    const root = ROOTS.find((spec) => contract.name.startsWith(spec.root))!;
+    prices[contract.id] = root.price;
+  }
+  return {
+    accounts: [
+      {
+        id: 1001,
+        name: "50KTC-MOCK-1001",
+        balance: 50000,
+        canTrade: true,
+        isVisible: true,
+      },
+      {
+        id: 1002,
+        name: "PA-MOCK-1002",
+        balance: 50000,
+        canTrade: true,
+        isVisible: true,
+      },
+      {
+        id: 1003,
+        name: "50KTC-MOCK-1003",
+        balance: 0,
+        canTrade: false,
+        isVisible: true,
+      },
+    ],
+    contracts,
+    prices,
+    ticks: [],
+    orders: [],
+    trades: [],
+    tokens: new Set(),
+  };
+}
+
+/**
+ * Builds the mock API around a state, mounted under /api like the real one
+ * @param state Shared with the caller so tests can inspect and change it
+ */
+export function createTopstepMock(
+  state: TopstepMockState = createTopstepMockState()
+): express.Express {
+  const app = express();
+  const api = express.Router();
+  let nextOrderId = 5000;
+  let nextTradeId = 9000;
+
+  app.use(express.json());
+
+  const ok = (res: Response, body: object) =>
+    res.json({ ...body, success: true, errorCode: 0, errorMessage: null });
+  const fail = (res: Response, errorCode: number, errorMessage: string) =>
+    res.json({ success: false, errorCode, errorMessage });
+
+  const pointValue = (contractId: string) => {
+    const contract = state.contracts.find((c) => c.id === contractId);
+    return contract ? contract.tickValue / contract.tickSize : 1;
+  };
+
+  // Realized P&L of a fill against the account's earlier fills in the contract
+  const realizedPnl = (
+    accountId: number,
+    contractId: string,
+    side: number,
+    size: number,
+    price: number
+  ): number | null => {
+    let position = 0;
+    let averagePrice = 0;
+    for (const trade of state.trades) {
+      if (trade.accountId !== accountId || trade.contractId !== contractId) {
+        continue;
+      }
+      // Fill side 1 is a buy, 0 a sell
+      const signed = trade.side === 1 ? trade.size : -trade.size;
+      if (position === 0 || Math.sign(position) === Math.sign(signed)) {
+        averagePrice =
+          (averagePrice * Math.abs(position) + trade.price * trade.size) /
+          (Math.abs(position) + trade.size);
+        position += signed;
+      } else {
+        const closed = Math.min(Math.abs(position), trade.size);
+        position += signed;
+        if (Math.abs(signed) > closed) averagePrice = trade.price;
+        else if (position === 0) averagePrice = 0;
+      }
+    }
+    const signed = side === 0 ? size : -size;
+    if (position === 0 || Math.sign(position) === Math.sign(signed)) {
+      // Opening fills carry no P&L
+      return null;
+    }
+    const closed = Math.min(Math.abs(position), size);
+    const direction = position > 0 ? 1 : -1;
+    return (
+      Math.round(
+        (price - averagePrice) *
+          direction *
+          closed *
+          pointValue(contractId) *
+          100
+      ) / 100
+    );
+  };
+
+  const fillOrder = (order: MockOrder, price: number) => {
+    const timestamp = new Date().toISOString();
+    state.trades.push({
+      id: nextTradeId++,
+      accountId: order.accountId,
+      contractId: order.contractId,
+      creationTimestamp: timestamp,
+      price,
+      profitAndLoss: realizedPnl(
+        order.accountId,
+        order.contractId,
+        order.side,
+        order.size,
+        price
+      ),
+      fees: Math.round(FEE_PER_CONTRACT * order.size * 100) / 100,
+      side: order.side === 0 ? 1 : 0,
+      size: order.size,
+      voided: false,
+      orderId: order.id,
+    });
+    order.status = 2;
+    order.fillVolume = order.size;
+    order.filledPrice = price;
+    order.updateTimestamp = timestamp;
+
+    // Bracket exits are one-cancels-other
+    if (order.linkedOrderId !== null) {
+      for (const sibling of state.orders) {
+        if (
+          sibling.id !== order.id &&
+          sibling.linkedOrderId === order.linkedOrderId &&
+          sibling.status === 1
+        ) {
+          sibling.status = 3;
+          sibling.updateTimestamp = timestamp;
+        }
+      }
+    }
+  };
+
+  // Fills resting orders that the price has reached
+  const matchOrders = (contractId: string) => {
+    const price = state.prices[contractId];
+    for (const order of state.orders) {
+      if (order.contractId !== contractId || order.status !== 1) continue;
+      // Exits wait for their entry to fill
+      const parent = state.orders.find((o) => o.id === order.linkedOrderId);
+      if (parent && parent.status !== 2) continue;
+      const buy = order.side === 0;
+      if (order.type === 5 && order.trailPrice !== null) {
+        const trailed = buy
+          ? price + order.trailPrice
+          : price - order.trailPrice;
+        order.stopPrice =
+          order.stopPrice === null
+            ? trailed
+            : buy
+              ? Math.min(order.stopPrice, trailed)
+              : Math.max(order.stopPrice, trailed);
+      }
+      if (order.type === 1 && order.limitPrice !== null) {
+        if (buy ? price <= order.limitPrice : price >= order.limitPrice) {
+          fillOrder(order, order.limitPrice);
+        }
+      } else if (order.stopPrice !== null) {
+        if (buy ? price >= order.stopPrice : price <= order.stopPrice) {
+          // Stop limits become limits once triggered
+          if (order.type === 3) {
+            order.type = 1;
+            matchOrders(contractId);
+            return;
+          }
+          fillOrder(order, price);
+        }
+      }
+    }
+  };
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // AUTH
+  //
+  api.post("/Auth/loginKey", (req: Request, res: Response) => {
+    const { username, userName, apiKey } = req.body as {
+      username?: string;
+      userName?: string;
+      apiKey?: string;
+    };
+    if (!(username ?? userName) || apiKey !== MOCK_API_KEY) {
+      return res.json({
+        token: null,
+        success: false,
+        errorCode: 3,
+        errorMessage: "Invalid credentials",
+      });
+    }
+    const token = crypto.randomBytes(24).toString("hex");
+    state.tokens.add(token);
+    ok(res, { token });
+  });
+
+  api.use((req: Request, res: Response, next: NextFunction) => {
+    const token = (req.headers.authorization || "").replace(/^Bearer /, "");
+    if (!state.tokens.has(token)) {
+      return res.status(401).send();
+    }
+    next();
+  });
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // ACCOUNTS AND CONTRACTS
+  //
+  api.post("/Account/search", (req: Request, res: Response) => {
+    const { onlyActiveAccounts } = req.body as { onlyActiveAccounts?: boolean };
+    ok(res, {
+      accounts: state.accounts.filter(
+        (account) => !onlyActiveAccounts || account.canTrade
+      ),
+    });
+  });
+
+  api.post("/Contract/search", (req: Request, res: Response) => {
+    const { searchText } = req.body as { searchText?: string };
+    const text = (searchText || "").toUpperCase();
+    ok(res, {
+      contracts: state.contracts.filter((contract) =>
+        contract.name.includes(text)
+      ),
+    });
+  });
+
+  api.post("/Contract/searchById", (req: Request, res: Response) => {
+    const { contractId } = req.body as { contractId?: string };
+    ok(res, {
+      contract:
+        state.contracts.find((contract) => contract.id === contractId) ?? null,
+    });
+  });
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // ORDERS
+  //
+  api.post("/Order/place", (req: Request, res: Response) => {
+    const body = req.body as {
+      accountId: number;
+      contractId: string;
+      type: number;
+      side: number;
+      size: number;
+      limitPrice?: number | null;
+      stopPrice?: number | null;
+      trailPrice?: number | null;
+      linkedOrderId?: number | null;
+    };
+    const account = state.accounts.find((a) => a.id === body.accountId);
+    if (!account || !account.canTrade) {
+      return fail(res, 1, "Account not found");
+    }
+    if (!state.contracts.some((c) => c.id === body.contractId)) {
+      return fail(res, 2, "Contract not found");
+    }
+    if (!(body.size > 0) || ![0, 1].includes(body.side)) {
+      return fail(res, 2, "Invalid order size or side");
+    }
+    if ([1, 3].includes(body.type) && typeof body.limitPrice !== "number") {
+      return fail(res, 2, "Limit price is required");
+    }
+    if ([3, 4].includes(body.type) && typeof body.stopPrice !== "number") {
+      return fail(res, 2, "Stop price is required");
+    }
+    if (body.type === 5 && typeof body.trailPrice !== "number") {
+      return fail(res, 2, "Trail price is required");
+    }
+    const order: MockOrder = {
+      id: nextOrderId++,
+      accountId: body.accountId,
+      contractId: body.contractId,
+      creationTimestamp: new Date().toISOString(),
+      updateTimestamp: null,
+      status: 1,
+      type: body.type,
+      side: body.side,
+      size: body.size,
+      limitPrice: body.limitPrice ?? null,
+      stopPrice: body.stopPrice ?? null,
+      trailPrice: body.trailPrice ?? null,
+      fillVolume: null,
+      filledPrice: null,
+      linkedOrderId: body.linkedOrderId ?? null,
+    };
+    state.orders.push(order);
+    if (order.type === 2) {
+      fillOrder(order, state.prices[order.contractId]);
+    } else {
+      matchOrders(order.contractId);
+    }
+    ok(res, { orderId: order.id });
+  });
+
+  api.post("/Order/modify", (req: Request, res: Response) => {
+    const body = req.body as {
+      accountId: number;
+      orderId: number;
+      size?: number | null;
+      limitPrice?: number | null;
+      stopPrice?: number | null;
+      trailPrice?: number | null;
+    };
+    const order = state.orders.find(
+      (o) => o.id === body.orderId && o.accountId === body.accountId
+    );
+    if (!order || order.status !== 1) {
+      return fail(res, 2, "Order not found or no longer working");
+    }
+    order.size = body.size ?? order.size;
+    order.limitPrice = body.limitPrice ?? order.limitPrice;
+    order.stopPrice = body.stopPrice ?? order.stopPrice;
+    order.trailPrice = body.trailPrice ?? order.trailPrice;
+    order.updateTimestamp = new Date().toISOString();
+    matchOrders(order.contractId);
+    ok(res, {});
+  });
+
+  api.post("/Order/cancel", (req: Request, res: Response) => {
+    const { accountId, orderId } = req.body as {
+      accountId: number;
+      orderId: number;
+    };
+    const order = state.orders.find(
+      (o) => o.id === orderId && o.accountId === accountId
+    );
+    if (!order || order.status !== 1) {
+      return fail(res, 2, "Order not found or no longer working");
+    }
+    order.status = 3;
+    order.updateTimestamp = new Date().toISOString();
+    ok(res, {});
+  });
+
+  api.post("/Order/search", (req: Request, res: Response) => {
+    const { accountId, startTimestamp, endTimestamp } = req.body as {
+      accountId: number;
+      startTimestamp: string;
+      endTimestamp?: string;
+    };
+    const start = new Date(startTimestamp).getTime();
+    const end = endTimestamp ? new Date(endTimestamp).getTime() : Infinity;
+    ok(res, {
+      orders: state.orders
+        .filter((order) => {
+          const created = new Date(order.creationTimestamp).getTime();
+          return (
+            order.accountId === accountId && created >= start && created <= end
+          );
+        })
+        .map(({ trailPrice, filledPrice, ...order }) => order),
+    });
+  });
+
+  api.post("/Trade/search", (req: Request, res: Response) => {
+    const { accountId, startTimestamp, endTimestamp } = req.body as {
+      accountId: number;
+      startTimestamp: string;
+      endTimestamp?: string;
+    };
+    const start = new Date(startTimestamp).getTime();
+    const end = endTimestamp ? new Date(endTimestamp).getTime() : Infinity;
+    ok(res, {
+      trades: state.trades.filter((trade) => {
+        const created = new Date(trade.creationTimestamp).getTime();
+        return (
+          trade.accountId === accountId && created >= start && created <= end
+        );
+      }),
+    });
+  });
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // HISTORY
+  //
+  // Bars of unitNumber minutes (unit 2) from the recorded prices, newest first
+  api.post("/History/retrieveBars", (req: Request, res: Response) => {
+    const body = req.body as {
+      contractId: string;
+      startTime: string;
+      endTime: string;
+      unit: number;
+      unitNumber: number;
+      limit?: number;
+      includePartialBar?: boolean;
+    };
+    if (body.unit !== 2 || !(body.unitNumber > 0)) {
+      return fail(res, 2, "Only minute bars are supported by the mock");
+    }
+    const length = body.unitNumber * 60 * 1000;
+    const start = new Date(body.startTime).getTime();
+    const end = new Date(body.endTime).getTime();
+    const current = Math.floor(Date.now() / length) * length;
+    const bars = new Map<
+      number,
+      { t: string; o: number; h: number; l: number; c: number; v: number }
+    >();
+    for (const tick of state.ticks) {
+      if (tick.contractId !== body.contractId) continue;
+      const barStart = Math.floor(tick.time / length) * length;
+      if (barStart < start || barStart > end) continue;
+      if (barStart === current && !body.includePartialBar) continue;
+      const bar = bars.get(barStart);
+      if (bar) {
+        bar.h = Math.max(bar.h, tick.price);
+        bar.l = Math.min(bar.l, tick.price);
+        bar.c = tick.price;
+        bar.v++;
+      } else {
+        bars.set(barStart, {
+          t: new Date(barStart).toISOString(),
+          o: tick.price,
+          h: tick.price,
+          l: tick.price,
+          c: tick.price,
+          v: 1,
+        });
+      }
+    }
+    ok(res, {
+      bars: Array.from(bars.values())
+        .reverse()
+        .slice(0, body.limit ?? 20000),
+    });
+  });
+
+  app.use("/api", api);
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // MOCK CONTROLS
+  //
+  // Move a contract's price, filling orders it reaches: { "contractId": "CON.F.US.ENQ.Z25", "price": 20100 }
+  app.post("/mock/price", (req: Request, res: Response) => {
+    const { contractId, price } = req.body as {
+      contractId: string;
+      price: number;
+    };
+    if (!(contractId in state.prices) || typeof price !== "number") {
+      return res.status(400).json({
+        error: "A listed contractId and a numeric price are required",
+      });
+    }
+    state.prices[contractId] = price;
+    state.ticks.push({ contractId, time: Date.now(), price });
+    matchOrders(contractId);
+    res.json({ success: true, prices: state.prices });
+  });
+
+  // Invalidate every session token, so the next call is rejected with a 401
+  app.post("/mock/expireTokens", (req: Request, res: Response) => {
+    state.tokens.clear();
+    res.json({ success: true });
+  });
+
+  app.get("/mock/state", (req: Request, res: Response) => {
+    res.json({
+      accounts: state.accounts,
+      prices: state.prices,
+      orders: state.orders,
+      trades: state.trades,
+    });
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  createTopstepMock().listen(PORT, () => {
+    console.log(`[MOCK] Topstep stand-in running on port ${PORT}`);
+    console.log(`[MOCK] API key: ${MOCK_API_KEY}`);
+  });
+}
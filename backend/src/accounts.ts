@@ -0,0 +1,148 @@
+// Broker accounts and account groups
+//
+// Keeps the tradable accounts each broker reports so syncs cover all of them
+// and alerts can target one account or a group. Groups are configured in
+// .env.local as ACCOUNT_GROUPS={"evals": ["50KTC", 12345], "funded": ["PA-"]},
+// where each entry is an account id or the start of an account name. Orders
+// sent to a group are copied to every account in it.
+import { BrokerAccount, BrokerAdapter } from "./brokers";
+
+export interface TradingAccount extends BrokerAccount {
+  broker: string;
+}
+
+export interface AccountTarget {
+  // Account id or the start of an account name
+  account?: string | number;
+  accountGroup?: string;
+}
+
+const accountsByBroker = new Map<string, TradingAccount[]>();
+
+/**
+ * Reads ACCOUNT_GROUPS, ignoring it if it is not valid JSON
+ */
+export function getAccountGroups(): Record<string, (string | number)[]> {
+  try {
+    const groups = JSON.parse(process.env.ACCOUNT_GROUPS || "{}");
+    return groups && typeof groups === "object" ? groups : {};
+  } catch {
+    console.warn("[ACCOUNTS] ACCOUNT_GROUPS is not valid JSON, ignoring it");
+    return {};
+  }
+}
+
+/**
+ * Fetches a broker's accounts and keeps the tradable ones
+ * Failures are logged rather than thrown; the previous list is kept
+ */
+export async function refreshAccounts(
+  adapter: BrokerAdapter
+): Promise<TradingAccount[]> {
+  try {
+    const accounts = (await adapter.listAccounts())
+      .filter((account) => account.canTrade)
+      .map((account) => ({ ...account, broker: adapter.name }));
+    accountsByBroker.set(adapter.name, accounts);
+    console.log(
+      `[ACCOUNTS] ${adapter.name}: ${accounts.length} tradable accounts (${accounts.map((account) => account.name).join(", ")})`
+    );
+    return accounts;
+  } catch (error) {
+    console.error(
+      `[ACCOUNTS] Failed to list ${adapter.name} accounts:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    return accountsByBroker.get(adapter.name) ?? [];
+  }
+}
+
+/**
+ * Returns the known tradable accounts, for one broker or all of them
+ */
+export function getAccounts(broker?: string): TradingAccount[] {
+  if (broker) {
+    return [...(accountsByBroker.get(broker.toLowerCase()) ?? [])];
+  }
+  return Array.from(accountsByBroker.values()).flat();
+}
+
+/**
+ * Accounts to sync for a broker: every known tradable account, or its
+ * default account if none have been listed
+ */
+export function getSyncAccountIds(adapter: BrokerAdapter): number[] {
+  const accounts = accountsByBroker.get(adapter.name);
+  if (accounts && accounts.length > 0) {
+    return accounts.map((account) => account.id);
+  }
+  const defaultAccountId = adapter.defaultAccountId();
+  return defaultAccountId !== undefined ? [defaultAccountId] : [];
+}
+
+// Matches an account by id or by the start of its name
+function matchAccounts(
+  accounts: TradingAccount[],
+  selector: string | number
+): TradingAccount[] {
+  const text = String(selector).toUpperCase();
+  return accounts.filter(
+    (account) =>
+      String(account.id) === text || account.name.toUpperCase().startsWith(text)
+  );
+}
+
+/**
+ * Works out which accounts an alert targets
+ * @returns The account ids, or an error message if the target is unknown
+ */
+export function resolveAccountTargets(
+  adapter: BrokerAdapter,
+  target: AccountTarget
+): { accountIds: number[] } | { error: string } {
+  const accounts = getAccounts(adapter.name);
+
+  if (target.accountGroup !== undefined) {
+    const group = getAccountGroups()[target.accountGroup];
+    if (!group) {
+      return { error: `Unknown account group: ${target.accountGroup}` };
+    }
+    const accountIds = new Set<number>();
+    for (const selector of group) {
+      // Ids of accounts not listed yet can still be targeted directly
+      const matches = matchAccounts(accounts, selector);
+      if (matches.length === 0 && typeof selector === "number") {
+        accountIds.add(selector);
+      }
+      matches.forEach((account) => accountIds.add(account.id));
+    }
+    if (accountIds.size === 0) {
+      return {
+        error: `No ${adapter.name} accounts in group ${target.accountGroup}`,
+      };
+    }
+    return { accountIds: Array.from(accountIds) };
+  }
+
+  if (target.account !== undefined) {
+    if (typeof target.account === "number") {
+      return { accountIds: [target.account] };
+    }
+    const matches = matchAccounts(accounts, target.account);
+    if (matches.length === 0) {
+      return { error: `Unknown ${adapter.name} account: ${target.account}` };
+    }
+    if (matches.length > 1) {
+      return {
+        error: `Account ${target.account} matches ${matches.length} ${adapter.name} accounts; use an account group to target several`,
+      };
+    }
+    return { accountIds: [matches[0].id] };
+  }
+
+  const defaultAccountId = adapter.defaultAccountId();
+  if (defaultAccountId === undefined) {
+    return { error: `No default ${adapter.name} account` };
+  }
+  return { accountIds: [defaultAccountId] };
+}
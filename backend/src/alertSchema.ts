@@ -0,0 +1,338 @@
+// TradingView alert schema
+//
+// Declares the fields each broker accepts in a webhook alert. Alerts are
+// checked against their broker's schema before anything else happens to them:
+// numbers sent as strings (TradingView placeholders such as
+// {{strategy.order.contracts}} arrive as text) are coerced, `side` and
+// `orderType` must be one of their listed values in any letter case, unknown
+// fields are rejected, and every problem is reported at once.
+import { getBroker, listBrokers, OrderSide } from "./brokers";
+import { ORDER_TYPE_ALIASES, ORDER_TYPES } from "./brokers/orders";
+
+export type AlertFieldType = "string" | "number" | "integer" | "account";
+
+export interface AlertField {
+  type: AlertFieldType;
+  description: string;
+  required?: boolean;
+  // Accepted values, matched regardless of letter case
+  values?: string[];
+  // Numbers must be greater than zero
+  positive?: boolean;
+  // Other names the field may be sent under, e.g. Kraken's `pair`
+  aliases?: string[];
+}
+
+export interface AlertSchema {
+  broker: string;
+  fields: Record<string, AlertField>;
+  // Groups of fields where at least one must be present
+  requireOneOf: string[][];
+  example: Record<string, unknown>;
+}
+
+export interface AlertFieldError {
+  field: string;
+  message: string;
+}
+
+// An alert that passed its schema, with aliases and values normalized
+export interface TradingViewAlert {
+  // Absent on alerts from the strategy runner
+  key?: string;
+  broker: string;
+  strategy?: string;
+  idempotencyKey?: string;
+  // Bar time, e.g. {{time}}, telling repeated alerts for one bar apart
+  time?: string;
+  accountId?: number;
+  // Account id or the start of an account name
+  account?: string | number;
+  // Group from ACCOUNT_GROUPS; the order is copied to each of its accounts
+  accountGroup?: string;
+  // Root symbol such as NQ, traded in its current front month
+  symbol?: string;
+  contractId?: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  orderType?: string;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingStopLoss?: number;
+}
+
+function priceField(description: string): AlertField {
+  return { type: "number", positive: true, description };
+}
+
+/**
+ * Returns the schema alerts for a broker are checked against
+ * @returns The schema, or undefined for an unknown broker
+ */
+export function getAlertSchema(broker: string): AlertSchema | undefined {
+  const adapter = getBroker(broker);
+  if (!adapter) return undefined;
+  // Kraken alerts may use Kraken's own names and fractional volumes
+  const isKraken = adapter.name === "kraken";
+
+  const fields: Record<string, AlertField> = {
+    key: {
+      type: "string",
+      required: true,
+      description: "Webhook key for the strategy, from webhook-auth.json",
+    },
+    strategy: {
+      type: "string",
+      description: 'Strategy the alert belongs to, default "default"',
+    },
+    idempotencyKey: {
+      type: "string",
+      description:
+        "Identifies repeated deliveries of one alert, defaults to a hash of the alert when it has a time",
+    },
+    time: {
+      type: "string",
+      description:
+        "Bar time, e.g. {{time}} or {{timenow}}; repeats of an alert with the same time are deliveries of one alert",
+    },
+    broker: {
+      type: "string",
+      required: true,
+      values: listBrokers(),
+      description: "Broker to route the order to",
+    },
+    accountId: {
+      type: "integer",
+      positive: true,
+      description: "Account to trade, defaults to the broker's default account",
+    },
+    account: {
+      type: "account",
+      description: "Account to trade, by id or the start of its name",
+    },
+    accountGroup: {
+      type: "string",
+      description:
+        "Group from ACCOUNT_GROUPS; the order is copied to each of its accounts",
+    },
+    symbol: {
+      type: "string",
+      description: "Root symbol such as NQ, traded in its current front month",
+    },
+    contractId: {
+      type: "string",
+      aliases: isKraken ? ["pair"] : undefined,
+      description: isKraken
+        ? "Spot pair (BTC/USD, XBTUSD) or futures symbol (PF_XBTUSD)"
+        : "Broker contract id, e.g. CON.F.US.ENQ.Z25",
+    },
+    side: {
+      type: "string",
+      required: true,
+      values: ["buy", "sell"],
+      aliases: isKraken ? ["type"] : undefined,
+      description: "Order side, e.g. {{strategy.order.action}}",
+    },
+    quantity: {
+      type: isKraken ? "number" : "integer",
+      required: true,
+      positive: true,
+      aliases: isKraken ? ["volume"] : undefined,
+      description: isKraken
+        ? "Order volume in the base currency or contracts"
+        : "Number of contracts, e.g. {{strategy.order.contracts}}",
+    },
+    price: {
+      ...priceField("Price the alert fired at, e.g. {{close}}"),
+      required: true,
+    },
+    orderType: {
+      type: "string",
+      values: [...ORDER_TYPES, ...Object.keys(ORDER_TYPE_ALIASES)],
+      aliases: isKraken ? ["ordertype"] : undefined,
+      description: 'Order type, default "market"',
+    },
+    limitPrice: priceField("Required for limit and stopLimit orders"),
+    stopPrice: priceField("Required for stop and stopLimit orders"),
+    trailPrice: priceField(
+      "Trail distance in points, required for trailingStop orders"
+    ),
+    stopLoss: priceField("Bracket stop loss price"),
+    takeProfit: priceField("Bracket take profit price"),
+    trailingStopLoss: priceField(
+      "Makes the bracket stop loss trail by this distance in points"
+    ),
+  };
+
+  return {
+    broker: adapter.name,
+    fields,
+    requireOneOf: [["contractId", "symbol"]],
+    example: {
+      key: "<key from webhook-auth.json>",
+      strategy: "trend-following",
+      broker: adapter.name,
+      ...(isKraken ? { contractId: "BTC/USD" } : { symbol: "NQ" }),
+      side: "{{strategy.order.action}}",
+      quantity: "{{strategy.order.contracts}}",
+      price: "{{close}}",
+    },
+  };
+}
+
+// Checks one value against its field, returning the coerced value or an error
+function coerceField(
+  name: string,
+  field: AlertField,
+  value: unknown
+): { value: unknown } | { error: string } {
+  switch (field.type) {
+    case "string": {
+      if (typeof value !== "string" && typeof value !== "number") {
+        return { error: `${name} must be a string` };
+      }
+      const text = String(value).trim();
+      if (field.values) {
+        const match = field.values.find(
+          (candidate) => candidate.toLowerCase() === text.toLowerCase()
+        );
+        if (!match) {
+          return {
+            error: `${name} must be one of ${field.values.join(", ")}, got "${text}"`,
+          };
+        }
+        return { value: match };
+      }
+      return { value: text };
+    }
+    case "number":
+    case "integer": {
+      const number =
+        typeof value === "number"
+          ? value
+          : typeof value === "string" && value.trim() !== ""
+            ? Number(value)
+            : NaN;
+      if (!Number.isFinite(number)) {
+        return {
+          error: `${name} must be a number, got ${JSON.stringify(value)}`,
+        };
+      }
+      if (field.type === "integer" && !Number.isInteger(number)) {
+        return { error: `${name} must be a whole number, got ${number}` };
+      }
+      if (field.positive && number <= 0) {
+        return { error: `${name} must be greater than 0, got ${number}` };
+      }
+      return { value: number };
+    }
+    case "account":
+      if (typeof value === "number" && Number.isInteger(value)) {
+        return { value };
+      }
+      if (typeof value === "string" && value.trim() !== "") {
+        return { value: value.trim() };
+      }
+      return { error: `${name} must be an account id or name` };
+  }
+}
+
+/**
+ * Checks an alert payload against its broker's schema
+ * @param options.requireKey False for alerts raised inside the backend, which
+ * need no webhook key
+ * @returns The normalized alert, or every field-level problem found
+ */
+export function parseAlert(
+  payload: unknown,
+  options: { requireKey?: boolean } = {}
+): { alert: TradingViewAlert } | { errors: AlertFieldError[] } {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return {
+      errors: [{ field: "", message: "Alert must be a JSON object" }],
+    };
+  }
+  const body = payload as Record<string, unknown>;
+
+  // The broker decides which schema applies, so check it first
+  if (typeof body.broker !== "string" || body.broker.trim() === "") {
+    return {
+      errors: [{ field: "broker", message: "broker is required" }],
+    };
+  }
+  const schema = getAlertSchema(body.broker.trim());
+  if (!schema) {
+    return {
+      errors: [
+        {
+          field: "broker",
+          message: `broker must be one of ${listBrokers().join(", ")}, got "${body.broker}"`,
+        },
+      ],
+    };
+  }
+
+  const errors: AlertFieldError[] = [];
+  const alert: Record<string, unknown> = {};
+  const known = new Set<string>();
+
+  for (const [name, field] of Object.entries(schema.fields)) {
+    known.add(name);
+    field.aliases?.forEach((alias) => known.add(alias));
+    const sentAs = [name, ...(field.aliases ?? [])].filter(
+      (candidate) =>
+        body[candidate] !== undefined &&
+        body[candidate] !== null &&
+        body[candidate] !== ""
+    );
+    if (sentAs.length > 1) {
+      errors.push({
+        field: name,
+        message: `Send only one of ${sentAs.join(", ")}`,
+      });
+      continue;
+    }
+    if (sentAs.length === 0) {
+      if (field.required && (name !== "key" || options.requireKey !== false)) {
+        errors.push({ field: name, message: `${name} is required` });
+      }
+      continue;
+    }
+    const result = coerceField(sentAs[0], field, body[sentAs[0]]);
+    if ("error" in result) {
+      errors.push({ field: sentAs[0], message: result.error });
+    } else {
+      alert[name] = result.value;
+    }
+  }
+
+  for (const group of schema.requireOneOf) {
+    if (group.every((name) => alert[name] === undefined)) {
+      const names = group.flatMap((name) => [
+        name,
+        ...(schema.fields[name].aliases ?? []),
+      ]);
+      // Fields that failed their own check are already reported
+      if (!errors.some((error) => names.includes(error.field))) {
+        errors.push({
+          field: group[0],
+          message: `One of ${names.join(", ")} is required`,
+        });
+      }
+    }
+  }
+
+  for (const name of Object.keys(body)) {
+    if (!known.has(name)) {
+      errors.push({ field: name, message: `Unknown field ${name}` });
+    }
+  }
+
+  return errors.length > 0
+    ? { errors }
+    : { alert: alert as unknown as TradingViewAlert };
+}
@@ -0,0 +1,69 @@
+// Backtest command line
+//
+//   npm run backtest -- bars.csv [--params '{"donLen": 30}'] [--symbol NQ]
+//     [--point-value 20] [--tick-size 0.25] [--contract CON.F.US.ENQ.Z25]
+//     [--commission 2.8] [--slippage 1] [--fills fills.json]
+//
+// Runs the trend-following strategy over the bars and prints the Pine summary
+// table. --fills writes the fills, in the shape of trades table rows, as JSON.
+import { promises as fs } from "fs";
+import { loadBarsCsv } from "./csv";
+import { runBacktest } from "./engine";
+import { backtestOptionsFromFlags, parseArgs } from "./options";
+import {
+  createTrendFollowingStrategy,
+  TrendFollowingParams,
+} from "../strategies/trendFollowing";
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  if (positional.length !== 1) {
+    console.error(
+      "Usage: npm run backtest -- bars.csv [--params JSON] [--symbol NQ] [--point-value N] [--tick-size N] [--contract ID] [--commission N] [--slippage TICKS] [--fills FILE]"
+    );
+    process.exit(1);
+  }
+
+  const params: Partial<TrendFollowingParams> = flags.params
+    ? JSON.parse(flags.params)
+    : {};
+
+  const bars = await loadBarsCsv(positional[0]);
+  const result = runBacktest(
+    createTrendFollowingStrategy(params),
+    bars,
+    backtestOptionsFromFlags(flags)
+  );
+
+  const { report } = result;
+  console.log(
+    `[BACKTEST] ${result.strategy} on ${result.bars} bars, ${result.from} to ${result.to}`
+  );
+  console.table({
+    "Net P&L": report.netProfit,
+    "Max Drawdown": report.maxDrawdown,
+    "Win %": report.winPercent,
+    "Profit Factor": report.profitFactor ?? "n/a",
+    "Closed Trades": report.closedTrades,
+    Commission: report.commission,
+  });
+  if (result.openPosition) {
+    console.log(
+      `[BACKTEST] Position of ${result.openPosition.size} still open at the last bar`
+    );
+  }
+  if (flags.fills) {
+    await fs.writeFile(flags.fills, JSON.stringify(result.fills, null, 2));
+    console.log(
+      `[BACKTEST] Wrote ${result.fills.length} fills to ${flags.fills}`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(
+    "[BACKTEST] Failed:",
+    error instanceof Error ? error.message : String(error)
+  );
+  process.exit(1);
+});
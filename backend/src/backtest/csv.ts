@@ -0,0 +1,87 @@
+// OHLCV bars from CSV
+//
+// Reads exports such as TradingView's "time,open,high,low,close,Volume": a
+// header row naming the columns in any order and letter case, then one bar
+// per line. Times may be epoch seconds, epoch milliseconds or ISO dates; the
+// volume column is optional.
+import { promises as fs } from "fs";
+import { Bar } from "../strategies/types";
+
+const TIME_COLUMNS = ["time", "timestamp", "date", "datetime"];
+const VOLUME_COLUMNS = ["volume", "vol"];
+
+function parseTime(value: string): number {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    // Epoch seconds until the year 5138
+    return number < 1e11 ? number * 1000 : number;
+  }
+  return Date.parse(value);
+}
+
+/**
+ * Parses bars from CSV text, oldest first
+ * @throws On a missing column or a line that is not a valid bar
+ */
+export function parseBarsCsv(text: string): Bar[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+  if (lines.length === 0) {
+    throw new Error("CSV is empty");
+  }
+
+  const header = lines[0]
+    .split(",")
+    .map((name) => name.trim().replace(/^"|"$/g, "").toLowerCase());
+  const column = (names: string[]) =>
+    header.findIndex((name) => names.includes(name));
+  const columns = {
+    time: column(TIME_COLUMNS),
+    open: column(["open"]),
+    high: column(["high"]),
+    low: column(["low"]),
+    close: column(["close"]),
+    volume: column(VOLUME_COLUMNS),
+  };
+  for (const name of ["time", "open", "high", "low", "close"] as const) {
+    if (columns[name] < 0) {
+      throw new Error(`CSV has no ${name} column`);
+    }
+  }
+
+  const bars = lines.slice(1).map((line, index) => {
+    const cells = line
+      .split(",")
+      .map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    const number = (position: number) =>
+      position < 0 || cells[position] === "" ? 0 : Number(cells[position]);
+    const bar: Bar = {
+      time: parseTime(cells[columns.time] ?? ""),
+      open: number(columns.open),
+      high: number(columns.high),
+      low: number(columns.low),
+      close: number(columns.close),
+      volume: number(columns.volume),
+    };
+    if (
+      isNaN(bar.time) ||
+      [bar.open, bar.high, bar.low, bar.close, bar.volume].some(
+        (value) => !Number.isFinite(value)
+      )
+    ) {
+      // Line numbers count the header as line 1
+      throw new Error(`CSV line ${index + 2} is not a valid bar: ${line}`);
+    }
+    return bar;
+  });
+  return bars.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Reads and parses a CSV file of bars
+ */
+export async function loadBarsCsv(path: string): Promise<Bar[]> {
+  return parseBarsCsv(await fs.readFile(path, "utf8"));
+}
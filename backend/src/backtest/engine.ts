@@ -0,0 +1,380 @@
+// Backtest engine
+//
+// Replays bars through a BarStrategy with a broker emulator modelled on
+// TradingView's. Orders a strategy places on a bar's close work from the next
+// bar: market orders fill at its open, and stops fill at their price, or at
+// the open when the bar gaps through them. Within a bar, price is assumed to
+// go from the open to the nearer of the high and low, then the other, then the
+// close. Stops are active on the bar an entry fills, as with
+// calc_on_order_fills. Market and stop fills slip by slippageTicks against the
+// position, and every fill pays commissionPerContract per contract. The first
+// warmupBars bars only feed the strategy's indicators, so a window of a longer
+// series can start with its indicators already primed.
+import { BrokerTrade, OrderSide } from "../brokers";
+import {
+  Bar,
+  BarStrategy,
+  ContractSpec,
+  StrategyPosition,
+  TrailSettings,
+} from "../strategies/types";
+
+export interface BacktestOptions {
+  // Stored on the fills, e.g. CON.F.US.ENQ.Z25
+  contractId: string;
+  contract: ContractSpec;
+  // Defaults are the strategy() settings of trend-following.pine
+  commissionPerContract?: number;
+  slippageTicks?: number;
+  initialCapital?: number;
+  // Leading bars that are not traded or reported, default 0
+  warmupBars?: number;
+}
+
+// A fill in the shape of a row in the trades table
+export type BacktestFill = BrokerTrade & { strategy: string };
+
+export interface BacktestTrade {
+  direction: "long" | "short";
+  quantity: number;
+  entryTime: string;
+  entryPrice: number;
+  entryBarIndex: number;
+  exitTime: string;
+  exitPrice: number;
+  exitBarIndex: number;
+  exitReason: "stop" | "trail" | "close";
+  grossPnl: number;
+  fees: number;
+  netPnl: number;
+}
+
+// The figures of the Pine summary table, and the rest of its trade stats
+export interface BacktestReport {
+  netProfit: number;
+  // Peak to trough of equity marked at each bar's close
+  maxDrawdown: number;
+  winPercent: number;
+  // Gross profit over gross loss, null without losing trades
+  profitFactor: number | null;
+  grossProfit: number;
+  grossLoss: number;
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  commission: number;
+  averageTrade: number;
+  largestWin: number;
+  largestLoss: number;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  // Bars traded, after the warm-up
+  bars: number;
+  from: string | null;
+  to: string | null;
+  fills: BacktestFill[];
+  trades: BacktestTrade[];
+  report: BacktestReport;
+  // Position still open after the last bar; not counted in the report
+  openPosition: StrategyPosition | null;
+}
+
+// Open position with its working exit orders
+interface OpenPosition {
+  // 1 for long, -1 for short
+  direction: number;
+  quantity: number;
+  entryPrice: number;
+  entryBarIndex: number;
+  entryTime: string;
+  entryFees: number;
+  stopPrice: number;
+  trail?: TrailSettings;
+  // Best price reached since entry, for the trail
+  bestPrice: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Runs a strategy over bars, oldest first
+ */
+export function runBacktest(
+  strategy: BarStrategy,
+  bars: Bar[],
+  options: BacktestOptions
+): BacktestResult {
+  const { contract, contractId } = options;
+  const commission = options.commissionPerContract ?? 2.8;
+  const slippage = (options.slippageTicks ?? 1) * contract.tickSize;
+  const initialCapital = options.initialCapital ?? 1000000;
+  const warmupBars = Math.min(options.warmupBars ?? 0, bars.length);
+  const roundToTick = (price: number) =>
+    Math.round(price / contract.tickSize) * contract.tickSize;
+
+  const fills: BacktestFill[] = [];
+  const trades: BacktestTrade[] = [];
+  let position: OpenPosition | null = null;
+  let pendingEntry:
+    | {
+        side: OrderSide;
+        quantity: number;
+        stopDistance: number;
+        trail?: TrailSettings;
+      }
+    | undefined;
+  let pendingClose = false;
+  let netProfit = 0;
+  let peakEquity = initialCapital;
+  let maxDrawdown = 0;
+  let orderId = 0;
+
+  const addFill = (
+    bar: Bar,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    profitAndLoss: number | null
+  ) => {
+    orderId++;
+    fills.push({
+      broker: "backtest",
+      accountId: 0,
+      contractId,
+      creationTimestamp: new Date(bar.time).toISOString(),
+      price,
+      profitAndLoss,
+      fees: round(commission * quantity),
+      side,
+      size: quantity,
+      orderId,
+      brokerTradeId: `backtest-${orderId}`,
+      strategy: strategy.name,
+    });
+  };
+
+  const exitPosition = (
+    bar: Bar,
+    barIndex: number,
+    level: number,
+    reason: BacktestTrade["exitReason"]
+  ) => {
+    const open = position!;
+    const price = level - open.direction * slippage;
+    const grossPnl = round(
+      (price - open.entryPrice) *
+        open.direction *
+        open.quantity *
+        contract.pointValue
+    );
+    const fees = round(open.entryFees + commission * open.quantity);
+    addFill(
+      bar,
+      open.direction > 0 ? "sell" : "buy",
+      open.quantity,
+      price,
+      grossPnl
+    );
+    trades.push({
+      direction: open.direction > 0 ? "long" : "short",
+      quantity: open.quantity,
+      entryTime: open.entryTime,
+      entryPrice: open.entryPrice,
+      entryBarIndex: open.entryBarIndex,
+      exitTime: new Date(bar.time).toISOString(),
+      exitPrice: price,
+      exitBarIndex: barIndex,
+      exitReason: reason,
+      grossPnl,
+      fees,
+      netPnl: round(grossPnl - fees),
+    });
+    netProfit = round(netProfit + grossPnl - fees);
+    position = null;
+  };
+
+  // Works the stop and trail through one bar; prices are flipped for shorts
+  // so the same checks serve both directions
+  const runStops = (bar: Bar, barIndex: number) => {
+    const open = position!;
+    const d = open.direction;
+    const favorable = d > 0 ? bar.high : -bar.low;
+    const adverse = d > 0 ? bar.low : -bar.high;
+    const openPrice = d * bar.open;
+    let best = d * open.bestPrice;
+    const stop = d * open.stopPrice;
+    const level = () => {
+      const entry = d * open.entryPrice;
+      const trail =
+        open.trail && best - entry >= open.trail.activation
+          ? roundToTick(best - open.trail.offset)
+          : -Infinity;
+      return trail > stop
+        ? { price: trail, reason: "trail" as const }
+        : { price: stop, reason: "stop" as const };
+    };
+
+    const atOpen = level();
+    if (openPrice <= atOpen.price) {
+      exitPosition(bar, barIndex, d * openPrice, atOpen.reason);
+      return;
+    }
+    const favorableFirst = favorable - openPrice <= openPrice - adverse;
+    if (favorableFirst) {
+      best = Math.max(best, favorable);
+      const hit = level();
+      if (adverse <= hit.price) {
+        exitPosition(bar, barIndex, d * hit.price, hit.reason);
+        return;
+      }
+    } else {
+      const hit = level();
+      if (adverse <= hit.price) {
+        exitPosition(bar, barIndex, d * hit.price, hit.reason);
+        return;
+      }
+      best = Math.max(best, favorable);
+      // A trail raised by the later extreme can still be hit on the way to the close
+      const trailHit = level();
+      if (d * bar.close <= trailHit.price) {
+        exitPosition(bar, barIndex, d * trailHit.price, trailHit.reason);
+        return;
+      }
+    }
+    open.bestPrice = d * best;
+  };
+
+  bars.forEach((bar, barIndex) => {
+    if (barIndex < warmupBars) {
+      strategy.onBar(bar, {
+        barIndex,
+        position: { size: 0, averagePrice: 0, entryBarIndex: -1 },
+        netProfit: 0,
+        contract,
+      });
+      return;
+    }
+
+    if (pendingClose && position) {
+      exitPosition(bar, barIndex, bar.open, "close");
+    }
+    pendingClose = false;
+
+    if (pendingEntry && !position) {
+      const direction = pendingEntry.side === "buy" ? 1 : -1;
+      const price = bar.open + direction * slippage;
+      addFill(bar, pendingEntry.side, pendingEntry.quantity, price, null);
+      position = {
+        direction,
+        quantity: pendingEntry.quantity,
+        entryPrice: price,
+        entryBarIndex: barIndex,
+        entryTime: new Date(bar.time).toISOString(),
+        entryFees: commission * pendingEntry.quantity,
+        stopPrice: roundToTick(price - direction * pendingEntry.stopDistance),
+        trail: pendingEntry.trail,
+        bestPrice: price,
+      };
+    }
+    pendingEntry = undefined;
+
+    if (position) {
+      runStops(bar, barIndex);
+    }
+
+    // Equity with the open position marked at the close
+    const openPnl = position
+      ? (bar.close - position.entryPrice) *
+        position.direction *
+        position.quantity *
+        contract.pointValue
+      : 0;
+    const equity = initialCapital + netProfit + openPnl;
+    peakEquity = Math.max(peakEquity, equity);
+    maxDrawdown = Math.max(maxDrawdown, peakEquity - equity);
+
+    const orders = strategy.onBar(bar, {
+      barIndex,
+      position: position
+        ? {
+            size: position.direction * position.quantity,
+            averagePrice: position.entryPrice,
+            entryBarIndex: position.entryBarIndex,
+          }
+        : { size: 0, averagePrice: 0, entryBarIndex: -1 },
+      netProfit,
+      contract,
+    });
+    if (position) {
+      if (orders.exit) {
+        position.stopPrice = orders.exit.stopPrice;
+        position.trail = orders.exit.trail;
+      }
+      pendingClose = orders.close === true;
+    } else if (orders.entry && orders.entry.quantity > 0) {
+      pendingEntry = orders.entry;
+    }
+  });
+
+  const finalPosition = position as OpenPosition | null;
+  const traded = bars.slice(warmupBars);
+  return {
+    strategy: strategy.name,
+    bars: traded.length,
+    from: traded.length > 0 ? new Date(traded[0].time).toISOString() : null,
+    to:
+      traded.length > 0
+        ? new Date(traded[traded.length - 1].time).toISOString()
+        : null,
+    fills,
+    trades,
+    report: buildReport(trades, maxDrawdown),
+    openPosition: finalPosition
+      ? {
+          size: finalPosition.direction * finalPosition.quantity,
+          averagePrice: finalPosition.entryPrice,
+          entryBarIndex: finalPosition.entryBarIndex,
+        }
+      : null,
+  };
+}
+
+/**
+ * Summarizes closed trades into the report figures
+ * @param maxDrawdown Peak to trough of equity, measured by the caller
+ */
+export function buildReport(
+  trades: BacktestTrade[],
+  maxDrawdown: number
+): BacktestReport {
+  const wins = trades.filter((trade) => trade.netPnl > 0);
+  const losses = trades.filter((trade) => trade.netPnl < 0);
+  const sum = (
+    list: BacktestTrade[],
+    value: (trade: BacktestTrade) => number
+  ) => list.reduce((total, trade) => total + value(trade), 0);
+  const grossProfit = sum(wins, (trade) => trade.netPnl);
+  const grossLoss = -sum(losses, (trade) => trade.netPnl);
+  const netProfit = sum(trades, (trade) => trade.netPnl);
+  return {
+    netProfit: round(netProfit),
+    maxDrawdown: round(maxDrawdown),
+    winPercent: round((wins.length / Math.max(1, trades.length)) * 100),
+    profitFactor: grossLoss > 0 ? round(grossProfit / grossLoss) : null,
+    grossProfit: round(grossProfit),
+    grossLoss: round(grossLoss),
+    closedTrades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    commission: round(sum(trades, (trade) => trade.fees)),
+    averageTrade: trades.length > 0 ? round(netProfit / trades.length) : 0,
+    largestWin: round(
+      trades.reduce((max, trade) => Math.max(max, trade.netPnl), 0)
+    ),
+    largestLoss: round(
+      trades.reduce((min, trade) => Math.min(min, trade.netPnl), 0)
+    ),
+  };
+}
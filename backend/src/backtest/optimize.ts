@@ -0,0 +1,134 @@
+// Optimizer command line
+//
+//   npm run optimize -- bars.csv --space '{"donLen": {"min": 10, "max": 40, "step": 5}, "adxThresh": [20, 25, 30]}'
+//     [--method grid|random] [--samples 100] [--seed 1]
+//     [--rank-by sharpe|profitFactor|netProfit] [--max-drawdown 2000]
+//     [--min-trades 10] [--walk-forward 6000,2000] [--warmup 300]
+//     [--params '{"useTimeFilter": false}'] [--strategy trend-following]
+//     [--name label] [--out results.json]
+//     [--symbol NQ] [--point-value 20] [--tick-size 0.25] [--contract ID]
+//     [--commission 2.8] [--slippage 1]
+//
+// Searches the strategy's inputs over the bars, prints the best runs and any
+// walk-forward windows, and stores the result in trades.db for the dashboard's
+// Optimizer tab. Run it from the backend directory, where the server keeps
+// trades.db. --out also writes the result as JSON.
+import { promises as fs } from "fs";
+import { tradesDb, tradesDbReady } from "../../logger/db";
+import { saveOptimization } from "../optimizations";
+import { getStrategy } from "../strategies";
+import { loadBarsCsv } from "./csv";
+import { BacktestReport } from "./engine";
+import { optimize, OptimizeOptions, RankBy } from "./optimizer";
+import { backtestOptionsFromFlags, numberFlag, parseArgs } from "./options";
+
+const RANK_BY: RankBy[] = ["sharpe", "profitFactor", "netProfit"];
+
+// Report figures for a console table row
+function reportRow(report: BacktestReport | null, sharpe: number | null) {
+  return report
+    ? {
+        "Net P&L": report.netProfit,
+        "Max DD": report.maxDrawdown,
+        Sharpe: sharpe ?? "n/a",
+        PF: report.profitFactor ?? "n/a",
+        "Win %": report.winPercent,
+        Trades: report.closedTrades,
+      }
+    : { "Net P&L": "no qualifying run" };
+}
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  if (positional.length !== 1 || !flags.space) {
+    console.error(
+      "Usage: npm run optimize -- bars.csv --space JSON [--method grid|random] [--samples N] [--seed N] [--rank-by sharpe|profitFactor|netProfit] [--max-drawdown N] [--min-trades N] [--walk-forward IN,OUT] [--warmup N] [--params JSON] [--strategy NAME] [--name LABEL] [--out FILE] [--symbol NQ] [--point-value N] [--tick-size N] [--contract ID] [--commission N] [--slippage TICKS]"
+    );
+    process.exit(1);
+  }
+
+  const definition = getStrategy(flags.strategy ?? "trend-following");
+  if (!definition) {
+    throw new Error(`Unknown strategy "${flags.strategy}"`);
+  }
+  const method = flags.method ?? "grid";
+  if (method !== "grid" && method !== "random") {
+    throw new Error(`--method must be grid or random, got "${method}"`);
+  }
+  const rankBy = (flags["rank-by"] ?? "sharpe") as RankBy;
+  if (!RANK_BY.includes(rankBy)) {
+    throw new Error(`--rank-by must be one of ${RANK_BY.join(", ")}`);
+  }
+  let walkForward: OptimizeOptions["walkForward"];
+  if (flags["walk-forward"]) {
+    const [inSampleBars, outOfSampleBars] = flags["walk-forward"]
+      .split(",")
+      .map(Number);
+    walkForward = { inSampleBars, outOfSampleBars };
+  }
+
+  const bars = await loadBarsCsv(positional[0]);
+  let lastLogged = 0;
+  const result = optimize(definition, bars, {
+    space: JSON.parse(flags.space),
+    params: flags.params ? JSON.parse(flags.params) : undefined,
+    method,
+    samples: numberFlag(flags, "samples"),
+    seed: numberFlag(flags, "seed"),
+    rankBy,
+    maxDrawdown: numberFlag(flags, "max-drawdown"),
+    minTrades: numberFlag(flags, "min-trades"),
+    walkForward,
+    warmupBars: numberFlag(flags, "warmup"),
+    backtest: backtestOptionsFromFlags(flags),
+    onProgress: (done, total) => {
+      if (Date.now() - lastLogged > 5000 || done === total) {
+        lastLogged = Date.now();
+        console.log(`[OPTIMIZE] ${done} of ${total} backtests`);
+      }
+    },
+  });
+
+  const ranked = result.runs.filter((run) => run.rank !== null);
+  console.log(
+    `[OPTIMIZE] ${result.strategy} ${result.method} search of ${result.runs.length} parameter sets on ${result.bars} bars, ${result.from} to ${result.to}; ${ranked.length} within max drawdown ${result.maxDrawdown} and ${result.minTrades} trades${result.seed !== null ? `, seed ${result.seed}` : ""}`
+  );
+  console.table(
+    ranked.slice(0, 10).map((run) => ({
+      Rank: run.rank,
+      Params: JSON.stringify(run.params),
+      ...reportRow(run.report, run.sharpe),
+    }))
+  );
+  if (result.walkForward) {
+    console.log("[OPTIMIZE] Walk-forward, out-of-sample results:");
+    console.table(
+      result.walkForward.windows.map((window) => ({
+        "Out of sample": `${window.outOfSample.from} to ${window.outOfSample.to}`,
+        Params: window.params ? JSON.stringify(window.params) : "",
+        ...reportRow(window.outOfSampleReport, window.outOfSampleSharpe),
+      }))
+    );
+    const { outOfSample } = result.walkForward;
+    console.table({
+      "All windows": reportRow(outOfSample.report, outOfSample.sharpe),
+    });
+  }
+
+  await tradesDbReady;
+  const id = await saveOptimization(result, flags.name);
+  console.log(`[OPTIMIZE] Stored as optimization ${id}`);
+  if (flags.out) {
+    await fs.writeFile(flags.out, JSON.stringify(result, null, 2));
+    console.log(`[OPTIMIZE] Wrote the result to ${flags.out}`);
+  }
+  tradesDb.close();
+}
+
+main().catch((error) => {
+  console.error(
+    "[OPTIMIZE] Failed:",
+    error instanceof Error ? error.message : String(error)
+  );
+  process.exit(1);
+});
@@ -0,0 +1,434 @@
+// Strategy parameter optimizer
+//
+// Searches strategy inputs with the backtest engine, for the objective in the
+// Pine header: the best Sharpe ratio and profit factor among runs whose max
+// drawdown stays under a limit ($2,000 by default). Grid search tries every
+// combination of the candidate values; random search tries `samples` of them,
+// repeatably for a given seed. Runs over the drawdown limit or with too few
+// trades are kept in the results but not ranked.
+//
+// Walk-forward rolls an in-sample window over the bars, each followed by an
+// out-of-sample window of the next bars. The best in-sample parameters are run
+// out of sample, and the out-of-sample results are combined to show how the
+// search holds up on bars it did not see. Windows are replayed with the
+// warmupBars bars before them, so their indicators start primed.
+import { chicagoClock } from "../indicators";
+import { StrategyDefinition } from "../strategies";
+import { Bar } from "../strategies/types";
+import {
+  BacktestOptions,
+  BacktestReport,
+  BacktestTrade,
+  buildReport,
+  runBacktest,
+} from "./engine";
+
+// Candidate values of a parameter: a list, or min to max in steps of step
+export type ParameterRange =
+  (number | boolean)[] | { min: number; max: number; step: number };
+
+export type ParameterValues = Record<string, number | boolean>;
+
+export type RankBy = "sharpe" | "profitFactor" | "netProfit";
+
+export interface OptimizeOptions {
+  space: Record<string, ParameterRange>;
+  // Parameters fixed for every run
+  params?: Record<string, unknown>;
+  method: "grid" | "random";
+  // Parameter sets a random search tries, default 100
+  samples?: number;
+  seed?: number;
+  // Default sharpe, with profit factor then net profit breaking ties
+  rankBy?: RankBy;
+  // Runs with a larger max drawdown are not ranked, default 2000
+  maxDrawdown?: number;
+  // Runs with fewer closed trades are not ranked, default 10
+  minTrades?: number;
+  walkForward?: { inSampleBars: number; outOfSampleBars: number };
+  // Bars replayed before each walk-forward window, default 300
+  warmupBars?: number;
+  backtest: BacktestOptions;
+  // Called after each backtest
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface OptimizationRun {
+  // Position among the qualifying runs, null when the run does not qualify
+  rank: number | null;
+  params: ParameterValues;
+  sharpe: number | null;
+  report: BacktestReport;
+  // Why the run does not qualify
+  rejected?: string;
+}
+
+export interface BarRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface WalkForwardWindow {
+  inSample: BarRange;
+  outOfSample: BarRange;
+  // Best qualifying in-sample parameters, null when no run qualified
+  params: ParameterValues | null;
+  inSampleSharpe: number | null;
+  inSampleReport: BacktestReport | null;
+  outOfSampleSharpe: number | null;
+  outOfSampleReport: BacktestReport | null;
+}
+
+export interface OptimizationResult {
+  strategy: string;
+  method: OptimizeOptions["method"];
+  rankBy: RankBy;
+  maxDrawdown: number;
+  minTrades: number;
+  seed: number | null;
+  space: Record<string, ParameterRange>;
+  contractId: string;
+  bars: number;
+  from: string | null;
+  to: string | null;
+  // Every parameter set over all the bars, qualifying runs first by rank
+  runs: OptimizationRun[];
+  walkForward?: {
+    inSampleBars: number;
+    outOfSampleBars: number;
+    windows: WalkForwardWindow[];
+    // Out-of-sample trades of every window together; the drawdown is of
+    // closed-trade equity
+    outOfSample: { sharpe: number | null; report: BacktestReport };
+  };
+}
+
+// Largest grid searched; use a random search for bigger spaces
+const MAX_GRID_SIZE = 10000;
+const TRADING_DAYS_PER_YEAR = 252;
+
+// Candidate values of one parameter
+function expandRange(
+  name: string,
+  range: ParameterRange
+): (number | boolean)[] {
+  if (Array.isArray(range)) {
+    if (range.length === 0) {
+      throw new Error(`${name} has no candidate values`);
+    }
+    return range;
+  }
+  const { min, max, step } = range;
+  if (![min, max, step].every(Number.isFinite) || step <= 0 || max < min) {
+    throw new Error(`${name} needs min <= max and a positive step`);
+  }
+  const values: number[] = [];
+  for (let i = 0; min + i * step <= max + 1e-9; i++) {
+    // Strip floating point noise such as 0.30000000000000004
+    values.push(Number((min + i * step).toFixed(10)));
+  }
+  return values;
+}
+
+// Seeded generator (mulberry32), so a random search can be repeated
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The parameter sets to try
+function buildCandidates(
+  options: OptimizeOptions,
+  definition: StrategyDefinition
+): { candidates: ParameterValues[]; seed: number | null } {
+  const names = Object.keys(options.space);
+  if (names.length === 0) {
+    throw new Error("The search space has no parameters");
+  }
+  for (const name of names) {
+    if (!(name in definition.defaults)) {
+      throw new Error(`${definition.name} has no parameter ${name}`);
+    }
+  }
+  const values = names.map((name) => expandRange(name, options.space[name]));
+  const gridSize = values.reduce((size, list) => size * list.length, 1);
+
+  if (options.method === "grid") {
+    if (gridSize > MAX_GRID_SIZE) {
+      throw new Error(
+        `The grid has ${gridSize} combinations, more than ${MAX_GRID_SIZE}; use a random search`
+      );
+    }
+    let candidates: ParameterValues[] = [{}];
+    names.forEach((name, index) => {
+      candidates = candidates.flatMap((candidate) =>
+        values[index].map((value) => ({ ...candidate, [name]: value }))
+      );
+    });
+    return { candidates, seed: null };
+  }
+
+  const seed = options.seed ?? Date.now() % 2147483647;
+  const random = createRandom(seed);
+  const samples = Math.min(options.samples ?? 100, gridSize);
+  const seen = new Set<string>();
+  const candidates: ParameterValues[] = [];
+  // Draws can repeat, so give up after plenty of attempts
+  for (let attempt = 0; candidates.length < samples; attempt++) {
+    if (attempt >= samples * 50) break;
+    const candidate: ParameterValues = {};
+    names.forEach((name, index) => {
+      candidate[name] =
+        values[index][Math.floor(random() * values[index].length)];
+    });
+    const key = JSON.stringify(candidate);
+    if (!seen.has(key)) {
+      seen.add(key);
+      candidates.push(candidate);
+    }
+  }
+  return { candidates, seed };
+}
+
+/**
+ * Annualized Sharpe ratio of daily returns on the initial capital, a day's
+ * return being the net P&L of the trades that closed on it
+ * @param days CME trading days covered, days without trades included
+ * @returns Null with fewer than two days or returns that never vary
+ */
+export function sharpeRatio(
+  trades: BacktestTrade[],
+  days: string[],
+  initialCapital: number
+): number | null {
+  if (days.length < 2) return null;
+  const dailyPnl = new Map(days.map((day) => [day, 0]));
+  for (const trade of trades) {
+    const day = chicagoClock(Date.parse(trade.exitTime)).tradingDay;
+    dailyPnl.set(day, (dailyPnl.get(day) ?? 0) + trade.netPnl);
+  }
+  const returns = Array.from(dailyPnl.values()).map(
+    (pnl) => pnl / initialCapital
+  );
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    (returns.length - 1);
+  if (variance <= 0) return null;
+  return (
+    Math.round(
+      (mean / Math.sqrt(variance)) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 1000
+    ) / 1000
+  );
+}
+
+// Peak to trough of equity after each closed trade
+function closedTradeDrawdown(trades: BacktestTrade[]): number {
+  let equity = 0;
+  let peak = 0;
+  let drawdown = 0;
+  for (const trade of trades) {
+    equity += trade.netPnl;
+    peak = Math.max(peak, equity);
+    drawdown = Math.max(drawdown, peak - equity);
+  }
+  return drawdown;
+}
+
+function score(run: OptimizationRun, rankBy: RankBy): number[] {
+  const { report } = run;
+  // No losing trades: an unbounded profit factor, if anything was won
+  const profitFactor =
+    report.profitFactor ?? (report.grossProfit > 0 ? Infinity : 0);
+  const sharpe = run.sharpe ?? -Infinity;
+  switch (rankBy) {
+    case "profitFactor":
+      return [profitFactor, sharpe, report.netProfit];
+    case "netProfit":
+      return [report.netProfit, sharpe, profitFactor];
+    default:
+      return [sharpe, profitFactor, report.netProfit];
+  }
+}
+
+// Qualifying runs first, each group best first; ranks the qualifying runs
+function rankRuns(runs: OptimizationRun[], rankBy: RankBy) {
+  const compare = (a: OptimizationRun, b: OptimizationRun) => {
+    if (!a.rejected !== !b.rejected) return a.rejected ? 1 : -1;
+    const scoreA = score(a, rankBy);
+    const scoreB = score(b, rankBy);
+    for (let i = 0; i < scoreA.length; i++) {
+      if (scoreA[i] !== scoreB[i]) return scoreB[i] > scoreA[i] ? 1 : -1;
+    }
+    return 0;
+  };
+  runs.sort(compare);
+  let rank = 0;
+  for (const run of runs) {
+    run.rank = run.rejected ? null : ++rank;
+  }
+  return runs;
+}
+
+/**
+ * Runs the search, and the walk-forward analysis when asked for
+ * @param bars Oldest first
+ * @throws On an empty or unknown parameter, a grid over MAX_GRID_SIZE, or
+ * walk-forward windows that do not fit the bars
+ */
+export function optimize(
+  definition: StrategyDefinition,
+  bars: Bar[],
+  options: OptimizeOptions
+): OptimizationResult {
+  const rankBy = options.rankBy ?? "sharpe";
+  const maxDrawdown = options.maxDrawdown ?? 2000;
+  const minTrades = options.minTrades ?? 10;
+  const warmupBars = options.warmupBars ?? 300;
+  const initialCapital = options.backtest.initialCapital ?? 1000000;
+  const { candidates, seed } = buildCandidates(options, definition);
+
+  const walkForward = options.walkForward;
+  const windows: { start: number; split: number; end: number }[] = [];
+  if (walkForward) {
+    const { inSampleBars, outOfSampleBars } = walkForward;
+    if (!(inSampleBars > 0) || !(outOfSampleBars > 0)) {
+      throw new Error("Walk-forward windows need a positive number of bars");
+    }
+    for (
+      let start = 0;
+      start + inSampleBars < bars.length;
+      start += outOfSampleBars
+    ) {
+      windows.push({
+        start,
+        split: start + inSampleBars,
+        end: Math.min(bars.length, start + inSampleBars + outOfSampleBars),
+      });
+    }
+    if (windows.length === 0) {
+      throw new Error(
+        `${bars.length} bars leave no out-of-sample bars after ${inSampleBars} in-sample bars`
+      );
+    }
+  }
+
+  // Trading day of each bar, for the Sharpe ratio
+  const tradingDays = bars.map((bar) => chicagoClock(bar.time).tradingDay);
+  const daysBetween = (start: number, end: number) =>
+    Array.from(new Set(tradingDays.slice(start, end)));
+
+  const total = candidates.length * (1 + windows.length) + windows.length;
+  let done = 0;
+
+  // Backtests bars[start, end) with up to warmupBars bars before them
+  const backtest = (params: ParameterValues, start: number, end: number) => {
+    const from = start === 0 ? 0 : Math.max(0, start - warmupBars);
+    const result = runBacktest(
+      definition.create({ ...options.params, ...params }),
+      bars.slice(from, end),
+      { ...options.backtest, warmupBars: start - from }
+    );
+    options.onProgress?.(++done, total);
+    return result;
+  };
+
+  const search = (start: number, end: number) => {
+    const days = daysBetween(start, end);
+    return rankRuns(
+      candidates.map((params) => {
+        const { trades, report } = backtest(params, start, end);
+        const run: OptimizationRun = {
+          rank: null,
+          params,
+          sharpe: sharpeRatio(trades, days, initialCapital),
+          report,
+        };
+        if (report.maxDrawdown > maxDrawdown) {
+          run.rejected = `Max drawdown ${report.maxDrawdown} over ${maxDrawdown}`;
+        } else if (report.closedTrades < minTrades) {
+          run.rejected = `${report.closedTrades} trades, fewer than ${minTrades}`;
+        }
+        return run;
+      }),
+      rankBy
+    );
+  };
+
+  const range = (start: number, end: number): BarRange =>
+    end > start
+      ? {
+          from: new Date(bars[start].time).toISOString(),
+          to: new Date(bars[end - 1].time).toISOString(),
+        }
+      : { from: null, to: null };
+
+  const result: OptimizationResult = {
+    strategy: definition.name,
+    method: options.method,
+    rankBy,
+    maxDrawdown,
+    minTrades,
+    seed,
+    space: options.space,
+    contractId: options.backtest.contractId,
+    bars: bars.length,
+    ...range(0, bars.length),
+    runs: search(0, bars.length),
+  };
+
+  if (walkForward) {
+    const outOfSampleTrades: BacktestTrade[] = [];
+    const outOfSampleDays = new Set<string>();
+    const windowResults = windows.map(({ start, split, end }) => {
+      const best = search(start, split)[0];
+      const window: WalkForwardWindow = {
+        inSample: range(start, split),
+        outOfSample: range(split, end),
+        params: null,
+        inSampleSharpe: null,
+        inSampleReport: null,
+        outOfSampleSharpe: null,
+        outOfSampleReport: null,
+      };
+      if (!best || best.rank === null) {
+        options.onProgress?.(++done, total);
+        return window;
+      }
+      const days = daysBetween(split, end);
+      const { trades, report } = backtest(best.params, split, end);
+      outOfSampleTrades.push(...trades);
+      days.forEach((day) => outOfSampleDays.add(day));
+      return {
+        ...window,
+        params: best.params,
+        inSampleSharpe: best.sharpe,
+        inSampleReport: best.report,
+        outOfSampleSharpe: sharpeRatio(trades, days, initialCapital),
+        outOfSampleReport: report,
+      };
+    });
+    result.walkForward = {
+      ...walkForward,
+      windows: windowResults,
+      outOfSample: {
+        sharpe: sharpeRatio(
+          outOfSampleTrades,
+          Array.from(outOfSampleDays),
+          initialCapital
+        ),
+        report: buildReport(
+          outOfSampleTrades,
+          closedTradeDrawdown(outOfSampleTrades)
+        ),
+      },
+    };
+  }
+  return result;
+}
@@ -0,0 +1,70 @@
+// Command line options shared by the backtest and optimize commands
+import { BacktestOptions } from "./engine";
+import { ContractSpec } from "../strategies/types";
+
+// Specs of the contracts the strategy is written for
+const CONTRACT_SPECS: Record<string, ContractSpec> = {
+  NQ: { pointValue: 20, tickSize: 0.25 },
+  MNQ: { pointValue: 2, tickSize: 0.25 },
+  ES: { pointValue: 50, tickSize: 0.25 },
+  MES: { pointValue: 5, tickSize: 0.25 },
+};
+
+/**
+ * Splits arguments into positional ones and `--name value` flags
+ */
+export function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      flags[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  return { positional, flags };
+}
+
+/**
+ * Reads a numeric flag
+ * @throws When the flag is given but is not a number
+ */
+export function numberFlag(
+  flags: Record<string, string>,
+  name: string
+): number | undefined {
+  if (flags[name] === undefined) return undefined;
+  const value = Number(flags[name]);
+  if (isNaN(value)) {
+    throw new Error(`--${name} must be a number, got "${flags[name]}"`);
+  }
+  return value;
+}
+
+/**
+ * Backtest options from --symbol, --point-value, --tick-size, --contract,
+ * --commission and --slippage
+ * @throws When the symbol has no known contract spec
+ */
+export function backtestOptionsFromFlags(
+  flags: Record<string, string>
+): BacktestOptions {
+  const symbol = (flags.symbol ?? "NQ").toUpperCase();
+  const spec = CONTRACT_SPECS[symbol];
+  if (!spec) {
+    throw new Error(
+      `Unknown --symbol "${flags.symbol}", expected one of ${Object.keys(CONTRACT_SPECS).join(", ")}`
+    );
+  }
+  return {
+    contractId: flags.contract ?? symbol,
+    contract: {
+      pointValue: numberFlag(flags, "point-value") ?? spec.pointValue,
+      tickSize: numberFlag(flags, "tick-size") ?? spec.tickSize,
+    },
+    commissionPerContract: numberFlag(flags, "commission"),
+    slippageTicks: numberFlag(flags, "slippage"),
+  };
+}
@@ -0,0 +1,656 @@
+// Interactive Brokers adapter via the Client Portal gateway
+//
+// Talks to the Client Portal web API through a locally running gateway
+// (IBKR_GATEWAY_URL, default https://localhost:5000/v1/api). The gateway holds
+// the brokerage session, so log in through its web page before starting the
+// backend; the adapter only checks the session and keeps it alive.
+//
+// IBKR identifies accounts by codes such as DU1234567. They are stored under
+// their digits (1234567) so they fit the numeric accountId used everywhere
+// else, and mapped back to the code for API calls.
+//
+// Futures are traded by symbol: "ES" for the front month, or a month code and
+// year such as "ESZ5" / "ESZ25". Contracts are named by the month they expire
+// in, which for some energy contracts is the month before the delivery month.
+import https from "https";
+import axios from "axios";
+import {
+  BrokerAccount,
+  BrokerAdapter,
+  BrokerContract,
+  BrokerOrder,
+  BrokerTrade,
+  OrderChanges,
+  OrderId,
+  OrderRequest,
+  OrderResult,
+  OrderStatus,
+  OrderType,
+} from "./types";
+
+// Order types for iserver/account/{accountId}/orders
+const ORDER_TYPES: Record<OrderType, string> = {
+  market: "MKT",
+  limit: "LMT",
+  stop: "STP",
+  stopLimit: "STOP_LIMIT",
+  trailingStop: "TRAIL",
+};
+
+// Order types as reported by iserver/account/orders
+const REPORTED_ORDER_TYPES: Record<string, OrderType> = {
+  Market: "market",
+  Limit: "limit",
+  Stop: "stop",
+  "Stop Limit": "stopLimit",
+  Trail: "trailingStop",
+  "Trail Limit": "trailingStop",
+};
+
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  PendingSubmit: "pending",
+  ApiPending: "pending",
+  PreSubmitted: "pending",
+  Submitted: "working",
+  PendingCancel: "working",
+  Filled: "filled",
+  Cancelled: "cancelled",
+  ApiCancelled: "cancelled",
+  Inactive: "rejected",
+};
+
+const MONTH_CODES = "FGHJKMNQUVXZ";
+
+// Order warnings are confirmed at most this many times before giving up
+const MAX_ORDER_REPLIES = 5;
+
+interface IbkrFuture {
+  symbol: string;
+  conid: number;
+  underlyingConid: number;
+  // yyyymmdd
+  expirationDate: number;
+  ltd: number;
+}
+
+interface IbkrOrderReply {
+  // Set once the order is accepted
+  order_id?: string;
+  order_status?: string;
+  // Set when the gateway needs a warning confirmed
+  id?: string;
+  message?: string[];
+  error?: string;
+}
+
+interface IbkrOrder {
+  acct: string;
+  conid: number;
+  orderId: number;
+  parentId?: number;
+  ticker: string;
+  side: "BUY" | "SELL";
+  orderType: string;
+  totalSize: number;
+  filledQuantity: number;
+  remainingQuantity: number;
+  price?: string;
+  auxPrice?: string;
+  status: string;
+  lastExecutionTime_r: number;
+}
+
+interface IbkrExecution {
+  execution_id: string;
+  order_id?: number;
+  symbol: string;
+  conid: number;
+  side: "B" | "S";
+  size: number;
+  price: string;
+  commission: string;
+  trade_time_r: number;
+  account: string;
+  sec_type: string;
+}
+
+interface IbkrOrderStatus {
+  conid: number;
+  side: "BUY" | "SELL";
+  order_type: string;
+  size: string;
+  limit_price?: string;
+  stop_price?: string;
+  tif?: string;
+}
+
+// Account codes by their numeric id, filled by discoverAccounts
+const accountCodes = new Map<number, string>();
+// Account the gateway selected, used when IBKR_ACCOUNT_ID is not set
+let selectedAccountId: number | undefined;
+// Futures contracts by conid and by symbol, filled as symbols are looked up
+const contractsByConid = new Map<number, IbkrFuture>();
+const futuresBySymbol = new Map<string, IbkrFuture[]>();
+
+// Agents for gateways with and without certificate checks
+const httpsAgents = new Map<boolean, https.Agent>();
+
+// The gateway serves a self-signed certificate unless one is configured
+function getHttpsAgent(): https.Agent {
+  const verify = process.env.IBKR_VERIFY_TLS === "true";
+  let agent = httpsAgents.get(verify);
+  if (!agent) {
+    agent = new https.Agent({ rejectUnauthorized: verify });
+    httpsAgents.set(verify, agent);
+  }
+  return agent;
+}
+
+function getGatewayUrl(): string {
+  return process.env.IBKR_GATEWAY_URL || "https://localhost:5000/v1/api";
+}
+
+/**
+ * Converts an IBKR account code (DU1234567) to the numeric id stored in trades
+ */
+export function toNumericAccountId(accountCode: string): number {
+  return parseInt(accountCode.replace(/\D/g, ""), 10);
+}
+
+async function gatewayRequest<T>(
+  method: "GET" | "POST" | "DELETE",
+  endpoint: string,
+  body?: object
+): Promise<T> {
+  const response = await axios.request({
+    method,
+    url: `${getGatewayUrl()}${endpoint}`,
+    data: body,
+    httpsAgent: getHttpsAgent(),
+    headers: { "Content-Type": "application/json" },
+  });
+  return response.data as T;
+}
+
+/**
+ * Lists the accounts of the gateway session
+ * iserver/accounts must be called before any order endpoint in a session
+ */
+async function discoverAccounts(): Promise<string[]> {
+  const data = await gatewayRequest<{
+    accounts: string[];
+    selectedAccount?: string;
+  }>("GET", "/iserver/accounts");
+  for (const code of data.accounts || []) {
+    accountCodes.set(toNumericAccountId(code), code);
+  }
+  if (data.selectedAccount) {
+    selectedAccountId = toNumericAccountId(data.selectedAccount);
+  }
+  return data.accounts || [];
+}
+
+async function getAccountCode(accountId?: number): Promise<string> {
+  const id = accountId ?? ibkrAdapter.defaultAccountId();
+  if (id === undefined) {
+    throw new Error("No IBKR account selected (IBKR_ACCOUNT_ID)");
+  }
+  if (!accountCodes.has(id)) {
+    await discoverAccounts();
+  }
+  const code = accountCodes.get(id);
+  if (!code) {
+    throw new Error(`IBKR account ${id} is not available in this session`);
+  }
+  return code;
+}
+
+async function getFutures(symbol: string): Promise<IbkrFuture[]> {
+  const cached = futuresBySymbol.get(symbol);
+  if (cached) return cached;
+  const data = await gatewayRequest<Record<string, IbkrFuture[]>>(
+    "GET",
+    `/trsrv/futures?symbols=${encodeURIComponent(symbol)}`
+  );
+  const futures = (data[symbol] || []).sort(
+    (a, b) => a.expirationDate - b.expirationDate
+  );
+  for (const future of futures) {
+    contractsByConid.set(future.conid, future);
+  }
+  futuresBySymbol.set(symbol, futures);
+  return futures;
+}
+
+/**
+ * Names a contract by its symbol and expiry, e.g. ESZ5
+ */
+function contractName(future: IbkrFuture): string {
+  const month = Math.floor(future.expirationDate / 100) % 100;
+  const year = Math.floor(future.expirationDate / 10000) % 10;
+  return `${future.symbol}${MONTH_CODES[month - 1]}${year}`;
+}
+
+/**
+ * Finds the futures contract for a symbol: a bare root (ES) is the front
+ * month, a root with month code and year (ESZ5, ESZ25) is that expiry, and a
+ * number is taken as a conid
+ */
+async function resolveFuture(symbol: string): Promise<IbkrFuture | undefined> {
+  const normalized = symbol.toUpperCase().trim();
+  if (/^\d+$/.test(normalized)) {
+    const conid = parseInt(normalized, 10);
+    return (
+      contractsByConid.get(conid) ?? {
+        symbol: normalized,
+        conid,
+        underlyingConid: 0,
+        expirationDate: 0,
+        ltd: 0,
+      }
+    );
+  }
+
+  const match = normalized.match(/^([A-Z0-9]+?)([FGHJKMNQUVXZ])(\d{1,2})$/);
+  if (match) {
+    const [, root, monthCode, yearDigits] = match;
+    const futures = await getFutures(root);
+    const month = MONTH_CODES.indexOf(monthCode) + 1;
+    const found = futures.find((future) => {
+      const year = Math.floor(future.expirationDate / 10000);
+      return (
+        Math.floor(future.expirationDate / 100) % 100 === month &&
+        String(year).endsWith(yearDigits)
+      );
+    });
+    if (found) return found;
+  }
+
+  const today = parseInt(
+    new Date().toISOString().slice(0, 10).replace(/-/g, ""),
+    10
+  );
+  const futures = await getFutures(normalized);
+  return futures.find((future) => future.expirationDate >= today);
+}
+
+async function requireFuture(symbol: string): Promise<IbkrFuture> {
+  const future = await resolveFuture(symbol);
+  if (!future) {
+    throw new Error(`Unknown IBKR futures symbol: ${symbol}`);
+  }
+  return future;
+}
+
+// Names the contract of a conid seen in an execution or order, looking up its
+// symbol the first time
+async function contractIdForConid(
+  conid: number,
+  symbol: string
+): Promise<string> {
+  if (!contractsByConid.has(conid)) {
+    try {
+      await getFutures(symbol);
+    } catch (error) {
+      console.warn(
+        `[IBKR] Could not look up contracts for ${symbol}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+  const future = contractsByConid.get(conid);
+  return future ? contractName(future) : symbol;
+}
+
+/**
+ * Sends orders and confirms the warnings the gateway asks about
+ * ("The following order exceeds the price percentage limit", missing market
+ * data, ...) until it accepts or rejects them
+ * @returns The accepted orders and the warnings that were confirmed
+ */
+async function submitWithReplies(
+  endpoint: string,
+  body: object
+): Promise<{ replies: IbkrOrderReply[]; warnings: string[] }> {
+  const warnings: string[] = [];
+  let replies = await gatewayRequest<IbkrOrderReply[] | IbkrOrderReply>(
+    "POST",
+    endpoint,
+    body
+  );
+  for (let attempt = 0; ; attempt++) {
+    const list = Array.isArray(replies) ? replies : [replies];
+    const error = list.find((reply) => reply.error)?.error;
+    if (error) {
+      throw new Error(error);
+    }
+    const question = list.find((reply) => reply.id && reply.message);
+    if (!question) {
+      return { replies: list, warnings };
+    }
+    if (attempt >= MAX_ORDER_REPLIES) {
+      throw new Error(
+        `IBKR order still needs confirmation: ${question.message!.join(" ")}`
+      );
+    }
+    console.log(`[IBKR] Confirming: ${question.message!.join(" ")}`);
+    warnings.push(...question.message!);
+    replies = await gatewayRequest<IbkrOrderReply[]>(
+      "POST",
+      `/iserver/reply/${question.id}`,
+      { confirmed: true }
+    );
+  }
+}
+
+function toIbkrOrder(
+  order: OrderRequest,
+  accountCode: string,
+  conid: number
+): Record<string, unknown> {
+  const ibkrOrder: Record<string, unknown> = {
+    acctId: accountCode,
+    conid: conid,
+    orderType: ORDER_TYPES[order.type],
+    side: order.side === "buy" ? "BUY" : "SELL",
+    quantity: order.quantity,
+    tif: "GTC",
+  };
+  switch (order.type) {
+    case "limit":
+      ibkrOrder.price = order.limitPrice;
+      break;
+    case "stop":
+      ibkrOrder.price = order.stopPrice;
+      break;
+    case "stopLimit":
+      ibkrOrder.price = order.limitPrice;
+      ibkrOrder.auxPrice = order.stopPrice;
+      break;
+    case "trailingStop":
+      ibkrOrder.price = order.stopPrice;
+      ibkrOrder.trailingAmt = order.trailPrice;
+      ibkrOrder.trailingType = "amt";
+      break;
+  }
+  return ibkrOrder;
+}
+
+function toBrokerOrder(accountId: number, order: IbkrOrder): BrokerOrder {
+  let status = ORDER_STATUSES[order.status] ?? "pending";
+  if (status === "working" && order.filledQuantity > 0) {
+    status = "partiallyFilled";
+  }
+  const type = REPORTED_ORDER_TYPES[order.orderType] ?? "market";
+  const price = order.price !== undefined ? parseFloat(order.price) : null;
+  const auxPrice =
+    order.auxPrice !== undefined ? parseFloat(order.auxPrice) : null;
+  const timestamp = new Date(order.lastExecutionTime_r).toISOString();
+  return {
+    broker: "ibkr",
+    accountId: accountId,
+    orderId: order.orderId,
+    contractId: order.ticker,
+    side: order.side === "BUY" ? "buy" : "sell",
+    type: type,
+    quantity: order.totalSize,
+    filledQuantity: order.filledQuantity,
+    limitPrice: type === "limit" || type === "stopLimit" ? price : null,
+    stopPrice:
+      type === "stopLimit" ? auxPrice : type === "limit" ? null : price,
+    linkedOrderId: order.parentId ?? null,
+    status: status,
+    // The gateway reports no creation time; orders are from this session
+    creationTimestamp: timestamp,
+    updateTimestamp: timestamp,
+  };
+}
+
+export const ibkrAdapter: BrokerAdapter = {
+  name: "ibkr",
+  fillsWithoutPnl: true,
+
+  defaultAccountId() {
+    if (process.env.IBKR_ACCOUNT_ID) {
+      return toNumericAccountId(process.env.IBKR_ACCOUNT_ID);
+    }
+    return selectedAccountId;
+  },
+
+  async authenticate() {
+    const status = await gatewayRequest<{
+      authenticated: boolean;
+      connected: boolean;
+      message?: string;
+    }>("POST", "/iserver/auth/status");
+    if (!status.authenticated) {
+      throw new Error(
+        `IBKR gateway session is not authenticated; log in at ${getGatewayUrl().replace(/\/v1\/api$/, "")}`
+      );
+    }
+    // Keeps the session from timing out between order and trade syncs
+    await gatewayRequest("POST", "/tickle");
+    await discoverAccounts();
+  },
+
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    const accountCode = await getAccountCode(order.accountId);
+    const future = await requireFuture(order.contractId);
+
+    // Brackets are sent in one request: the exits reference the entry's
+    // client order id and IBKR cancels one when the other fills
+    const entryId = `entry-${Date.now()}`;
+    const orders: Record<string, unknown>[] = [
+      { ...toIbkrOrder(order, accountCode, future.conid), cOID: entryId },
+    ];
+    const exitBase = {
+      accountId: order.accountId,
+      contractId: order.contractId,
+      side: order.side === "buy" ? "sell" : "buy",
+      quantity: order.quantity,
+    } as const;
+    if (order.stopLoss !== undefined) {
+      const stopLeg: OrderRequest =
+        order.trailingStopLoss !== undefined
+          ? {
+              ...exitBase,
+              type: "trailingStop",
+              stopPrice: order.stopLoss,
+              trailPrice: order.trailingStopLoss,
+            }
+          : { ...exitBase, type: "stop", stopPrice: order.stopLoss };
+      orders.push({
+        ...toIbkrOrder(stopLeg, accountCode, future.conid),
+        parentId: entryId,
+      });
+    }
+    if (order.takeProfit !== undefined) {
+      orders.push({
+        ...toIbkrOrder(
+          { ...exitBase, type: "limit", limitPrice: order.takeProfit },
+          accountCode,
+          future.conid
+        ),
+        parentId: entryId,
+      });
+    }
+
+    const { replies, warnings } = await submitWithReplies(
+      `/iserver/account/${accountCode}/orders`,
+      { orders }
+    );
+    const accepted = replies.filter((reply) => reply.order_id !== undefined);
+    if (accepted.length === 0) {
+      return {
+        success: false,
+        errorMessage: "IBKR did not accept the order",
+        raw: replies,
+      };
+    }
+
+    // Accepted orders come back in the order they were sent
+    const [entry, ...exits] = accepted.map((reply) =>
+      parseInt(reply.order_id!, 10)
+    );
+    const bracketOrderIds: OrderResult["bracketOrderIds"] = {};
+    if (order.stopLoss !== undefined) bracketOrderIds.stopLoss = exits.shift();
+    if (order.takeProfit !== undefined) {
+      bracketOrderIds.takeProfit = exits.shift();
+    }
+    return {
+      success: true,
+      orderId: entry,
+      bracketOrderIds:
+        Object.keys(bracketOrderIds).length > 0 ? bracketOrderIds : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      raw: replies,
+    };
+  },
+
+  async modifyOrder(
+    accountId: number,
+    orderId: OrderId,
+    changes: OrderChanges
+  ) {
+    const accountCode = await getAccountCode(accountId);
+    // Modifications resend the whole order, so start from its current state
+    const current = await gatewayRequest<IbkrOrderStatus>(
+      "GET",
+      `/iserver/account/order/status/${orderId}`
+    );
+    const type = REPORTED_ORDER_TYPES[current.order_type] ?? "market";
+    const limitPrice =
+      changes.limitPrice ??
+      (current.limit_price ? parseFloat(current.limit_price) : undefined);
+    const stopPrice =
+      changes.stopPrice ??
+      (current.stop_price ? parseFloat(current.stop_price) : undefined);
+    const ibkrOrder = toIbkrOrder(
+      {
+        accountId,
+        contractId: String(current.conid),
+        side: current.side === "BUY" ? "buy" : "sell",
+        quantity: changes.quantity ?? parseFloat(current.size),
+        type,
+        limitPrice,
+        stopPrice,
+        trailPrice: changes.trailPrice,
+      },
+      accountCode,
+      current.conid
+    );
+    await submitWithReplies(
+      `/iserver/account/${accountCode}/order/${orderId}`,
+      { ...ibkrOrder, tif: current.tif ?? "GTC" }
+    );
+  },
+
+  async cancelOrder(accountId: number, orderId: OrderId) {
+    const accountCode = await getAccountCode(accountId);
+    const data = await gatewayRequest<{ msg?: string; error?: string }>(
+      "DELETE",
+      `/iserver/account/${accountCode}/order/${orderId}`
+    );
+    if (data.error) {
+      throw new Error(`Failed to cancel order ${orderId}: ${data.error}`);
+    }
+  },
+
+  async searchOrders(
+    accountId: number,
+    startTimestamp: string
+  ): Promise<BrokerOrder[]> {
+    const accountCode = await getAccountCode(accountId);
+    const start = new Date(startTimestamp).getTime();
+    // The gateway only knows the orders of the current session
+    const data = await gatewayRequest<{ orders?: IbkrOrder[] }>(
+      "GET",
+      "/iserver/account/orders?force=true"
+    );
+    const orders: BrokerOrder[] = [];
+    for (const order of data.orders || []) {
+      if (order.acct !== accountCode || order.lastExecutionTime_r < start) {
+        continue;
+      }
+      orders.push({
+        ...toBrokerOrder(accountId, order),
+        contractId: await contractIdForConid(order.conid, order.ticker),
+      });
+    }
+    return orders;
+  },
+
+  async searchTrades(
+    accountId: number,
+    startTimestamp: string,
+    endTimestamp: string
+  ): Promise<BrokerTrade[]> {
+    const accountCode = await getAccountCode(accountId);
+    const start = new Date(startTimestamp).getTime();
+    const end = new Date(endTimestamp).getTime();
+    // Executions are available for the current day and the six before it
+    const days = Math.min(
+      7,
+      Math.max(1, Math.ceil((Date.now() - start) / (24 * 60 * 60 * 1000)))
+    );
+    const executions = await gatewayRequest<IbkrExecution[]>(
+      "GET",
+      `/iserver/account/trades?days=${days}`
+    );
+    const trades: BrokerTrade[] = [];
+    for (const execution of executions || []) {
+      if (
+        execution.account !== accountCode ||
+        execution.trade_time_r < start ||
+        execution.trade_time_r > end
+      ) {
+        continue;
+      }
+      trades.push({
+        broker: "ibkr",
+        accountId: accountId,
+        contractId: await contractIdForConid(execution.conid, execution.symbol),
+        creationTimestamp: new Date(execution.trade_time_r).toISOString(),
+        price: parseFloat(execution.price),
+        // Executions carry no realized P&L; it is worked out for closing
+        // fills as they are logged
+        profitAndLoss: null,
+        fees: parseFloat(execution.commission) || 0,
+        // IBKR reports the side we traded on, unlike Topstep
+        side: execution.side === "B" ? "buy" : "sell",
+        size: execution.size,
+        // Executions from the same order share its id; fall back to the
+        // execution id for those without one
+        orderId: execution.order_id ?? execution.execution_id,
+        brokerTradeId: execution.execution_id,
+      });
+    }
+    return trades;
+  },
+
+  async listAccounts(): Promise<BrokerAccount[]> {
+    const codes = await discoverAccounts();
+    return codes.map((code) => ({
+      id: toNumericAccountId(code),
+      name: code,
+      canTrade: true,
+    }));
+  },
+
+  async resolveContract(symbol: string): Promise<BrokerContract[]> {
+    const future = await resolveFuture(symbol);
+    if (!future) return [];
+    const name = future.expirationDate ? contractName(future) : future.symbol;
+    return [
+      {
+        id: name,
+        name: name,
+        description: `IBKR futures ${name} (conid ${future.conid})`,
+        // The futures lookup carries no tick details
+        tickSize: 0,
+        tickValue: 0,
+        activeContract: true,
+      },
+    ];
+  },
+};
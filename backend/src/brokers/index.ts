@@ -0,0 +1,30 @@
+// Broker registry
+//
+// Routes look adapters up by the broker name carried in alerts and requests.
+// Adding a broker means implementing BrokerAdapter and registering it here.
+import { BrokerAdapter } from "./types";
+import { topstepAdapter } from "./topstep";
+import { paperAdapter } from "./paper";
+import { krakenAdapter } from "./kraken";
+import { ibkrAdapter } from "./ibkr";
+
+export * from "./types";
+
+const adapters = new Map<string, BrokerAdapter>();
+
+export function registerBroker(adapter: BrokerAdapter) {
+  adapters.set(adapter.name.toLowerCase(), adapter);
+}
+
+export function getBroker(name: string): BrokerAdapter | undefined {
+  return adapters.get(name.toLowerCase());
+}
+
+export function listBrokers(): string[] {
+  return Array.from(adapters.keys());
+}
+
+registerBroker(topstepAdapter);
+registerBroker(paperAdapter);
+registerBroker(krakenAdapter);
+registerBroker(ibkrAdapter);
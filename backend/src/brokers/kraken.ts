@@ -0,0 +1,912 @@
+// Kraken broker adapter
+//
+// Spot pairs (e.g. XBTUSD, "BTC/USD") trade through Kraken's REST API and
+// futures symbols (PF_XBTUSD, PI_ETHUSD, ...) through the Kraken Futures API.
+// Both use signed private calls with their own key pairs. Base URLs can be
+// pointed at a local stand-in (see mock/kraken.ts) with KRAKEN_API_URL and
+// KRAKEN_FUTURES_API_URL.
+//
+// Trades are stored under the pair's altname (XBTUSD) whatever name Kraken
+// reports (XXBTZUSD), and fees and P&L are converted from the pair's quote
+// currency to USD. Only margin trades come with P&L; futures fills get their
+// fees and P&L from the futures account log, and closing fills still without
+// P&L have it worked out from the fills before them as they are logged (in
+// the quote currency for pairs not quoted in USD).
+import crypto from "crypto";
+import axios from "axios";
+import {
+  BrokerAccount,
+  BrokerAdapter,
+  BrokerContract,
+  BrokerOrder,
+  BrokerTrade,
+  OrderChanges,
+  OrderId,
+  OrderRequest,
+  OrderResult,
+  OrderStatus,
+  OrderType,
+} from "./types";
+import { placeWithBracket } from "./orders";
+
+function getApiUrl(): string {
+  return process.env.KRAKEN_API_URL || "https://api.kraken.com";
+}
+
+function getFuturesApiUrl(): string {
+  return (
+    process.env.KRAKEN_FUTURES_API_URL ||
+    "https://futures.kraken.com/derivatives"
+  );
+}
+
+// History endpoints sit beside /derivatives rather than under it
+function getFuturesHistoryUrl(): string {
+  return getFuturesApiUrl().replace(/\/derivatives\/?$/, "");
+}
+
+// Spot order types for AddOrder
+const SPOT_ORDER_TYPES: Record<OrderType, string> = {
+  market: "market",
+  limit: "limit",
+  stop: "stop-loss",
+  stopLimit: "stop-loss-limit",
+  trailingStop: "trailing-stop",
+};
+
+// Futures order types for sendorder
+const FUTURES_ORDER_TYPES: Record<OrderType, string> = {
+  market: "mkt",
+  limit: "lmt",
+  stop: "stp",
+  stopLimit: "stp",
+  trailingStop: "trailing_stop",
+};
+
+// Spot order states from OpenOrders/ClosedOrders
+const SPOT_ORDER_STATUSES: Record<string, OrderStatus> = {
+  pending: "pending",
+  open: "working",
+  closed: "filled",
+  canceled: "cancelled",
+  expired: "cancelled",
+};
+
+// Quote currencies treated as dollars when converting fees
+const USD_ASSETS = ["USD", "ZUSD", "USDT", "USDC"];
+
+interface KrakenResponse<T> {
+  error: string[];
+  result: T;
+}
+
+interface KrakenAssetPair {
+  altname: string;
+  wsname?: string;
+  base: string;
+  quote: string;
+  tick_size?: string;
+  pair_decimals: number;
+}
+
+interface KrakenTrade {
+  ordertxid: string;
+  pair: string;
+  time: number;
+  type: "buy" | "sell";
+  price: string;
+  vol: string;
+  fee: string;
+  // Realized P&L, present on trades that closed a margin position
+  net?: string;
+}
+
+interface KrakenOrder {
+  status: string;
+  opentm: number;
+  closetm?: number;
+  vol: string;
+  vol_exec: string;
+  stopprice?: string;
+  limitprice?: string;
+  descr: {
+    pair: string;
+    type: "buy" | "sell";
+    ordertype: string;
+    price: string;
+    price2: string;
+  };
+}
+
+interface FuturesFill {
+  fill_id: string;
+  symbol: string;
+  side: "buy" | "sell";
+  order_id: string;
+  size: number;
+  price: number;
+  fillTime: string;
+}
+
+// Account log entry; futures trades carry the fill id as `execution`
+interface FuturesLogEntry {
+  date: string;
+  info: string;
+  execution?: string | null;
+  fee?: number | null;
+  realized_pnl?: number | null;
+}
+
+interface FuturesOpenOrder {
+  order_id: string;
+  symbol: string;
+  side: "buy" | "sell";
+  orderType: string;
+  limitPrice?: number;
+  stopPrice?: number;
+  filledSize: number;
+  unfilledSize: number;
+  receivedTime: string;
+  lastUpdateTime?: string;
+}
+
+let assetPairs: Record<string, KrakenAssetPair> | null = null;
+let lastNonce = 0;
+
+// Futures order ids are UUIDs; spot txids look like OUF4EM-FRGI2-MQMWZD
+function isFuturesOrderId(orderId: OrderId): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-/i.test(String(orderId));
+}
+
+/**
+ * Returns true for Kraken Futures symbols such as PF_XBTUSD
+ */
+export function isFuturesSymbol(symbol: string): boolean {
+  return /^(PF|PI|FI|FF)_/i.test(symbol);
+}
+
+// Nonces must strictly increase across calls made with the same key
+function nextNonce(): string {
+  lastNonce = Math.max(lastNonce + 1, Date.now() * 1000);
+  return String(lastNonce);
+}
+
+function getSpotCredentials() {
+  const apiKey = process.env.KRAKEN_API_KEY;
+  const apiSecret = process.env.KRAKEN_API_SECRET;
+  if (!apiKey || !apiSecret) {
+    throw new Error(
+      "KRAKEN_API_KEY and KRAKEN_API_SECRET are required in .env.local"
+    );
+  }
+  return { apiKey, apiSecret };
+}
+
+function getFuturesCredentials() {
+  const apiKey = process.env.KRAKEN_FUTURES_API_KEY;
+  const apiSecret = process.env.KRAKEN_FUTURES_API_SECRET;
+  if (!apiKey || !apiSecret) {
+    throw new Error(
+      "KRAKEN_FUTURES_API_KEY and KRAKEN_FUTURES_API_SECRET are required in .env.local"
+    );
+  }
+  return { apiKey, apiSecret };
+}
+
+/**
+ * Signs a spot private call: HMAC-SHA512 of the URI path followed by
+ * SHA256(nonce + POST data), keyed with the base64-decoded secret
+ */
+export function signSpotRequest(
+  path: string,
+  nonce: string,
+  postData: string,
+  secret: string
+): string {
+  const message = crypto
+    .createHash("sha256")
+    .update(nonce + postData)
+    .digest();
+  return crypto
+    .createHmac("sha512", Buffer.from(secret, "base64"))
+    .update(Buffer.concat([Buffer.from(path), message]))
+    .digest("base64");
+}
+
+/**
+ * Signs a futures private call: HMAC-SHA512 of SHA256(POST data + nonce +
+ * endpoint path), keyed with the base64-decoded secret
+ */
+export function signFuturesRequest(
+  endpointPath: string,
+  nonce: string,
+  postData: string,
+  secret: string
+): string {
+  const message = crypto
+    .createHash("sha256")
+    .update(postData + nonce + endpointPath)
+    .digest();
+  return crypto
+    .createHmac("sha512", Buffer.from(secret, "base64"))
+    .update(message)
+    .digest("base64");
+}
+
+// Drops undefined values and stringifies the rest for form encoding
+function formEncode(params: Record<string, string | number | undefined>) {
+  const form = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) form.append(key, String(value));
+  }
+  return form;
+}
+
+function unwrap<T>(data: KrakenResponse<T>): T {
+  if (data.error && data.error.length > 0) {
+    throw new Error(data.error.join(", "));
+  }
+  return data.result;
+}
+
+async function krakenPublic<T>(
+  method: string,
+  params: Record<string, string> = {}
+): Promise<T> {
+  const response = await axios.get(`${getApiUrl()}/0/public/${method}`, {
+    params,
+  });
+  return unwrap(response.data as KrakenResponse<T>);
+}
+
+async function krakenPrivate<T>(
+  method: string,
+  params: Record<string, string | number | undefined> = {}
+): Promise<T> {
+  const { apiKey, apiSecret } = getSpotCredentials();
+  const path = `/0/private/${method}`;
+  const nonce = nextNonce();
+  const postData = formEncode({ nonce, ...params }).toString();
+  const response = await axios.post(`${getApiUrl()}${path}`, postData, {
+    headers: {
+      "API-Key": apiKey,
+      "API-Sign": signSpotRequest(path, nonce, postData, apiSecret),
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+  });
+  return unwrap(response.data as KrakenResponse<T>);
+}
+
+function futuresHeaders(endpointPath: string, postData: string) {
+  const { apiKey, apiSecret } = getFuturesCredentials();
+  const nonce = nextNonce();
+  return {
+    APIKey: apiKey,
+    Nonce: nonce,
+    Authent: signFuturesRequest(endpointPath, nonce, postData, apiSecret),
+  };
+}
+
+async function futuresRequest<T>(
+  method: "GET" | "POST",
+  endpointPath: string,
+  params: Record<string, string | number | undefined> = {}
+): Promise<T> {
+  const postData = formEncode(params).toString();
+  const headers = futuresHeaders(endpointPath, postData);
+  const url = `${getFuturesApiUrl()}${endpointPath}`;
+  const response =
+    method === "GET"
+      ? await axios.get(`${url}${postData ? `?${postData}` : ""}`, { headers })
+      : await axios.post(url, postData, {
+          headers: {
+            ...headers,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+        });
+  const data = response.data as T & { result: string; error?: string };
+  if (data.result !== "success") {
+    throw new Error(data.error || `Kraken Futures ${endpointPath} failed`);
+  }
+  return data;
+}
+
+async function getAssetPairs(): Promise<Record<string, KrakenAssetPair>> {
+  if (!assetPairs) {
+    assetPairs =
+      await krakenPublic<Record<string, KrakenAssetPair>>("AssetPairs");
+  }
+  return assetPairs;
+}
+
+// Legacy four letter asset codes carry an X (crypto) or Z (fiat) prefix
+function assetAltname(asset: string): string {
+  return asset.length === 4 && /^[XZ]/.test(asset) ? asset.slice(1) : asset;
+}
+
+/**
+ * Finds a spot pair by any of the names it goes by: "BTC/USD", "XBTUSD",
+ * "XBT/USD" or "XXBTZUSD"
+ * @returns The pair's key for API calls and its definition
+ */
+async function resolvePair(
+  symbol: string
+): Promise<{ key: string; pair: KrakenAssetPair } | undefined> {
+  const pairs = await getAssetPairs();
+  const normalized = symbol
+    .toUpperCase()
+    .replace(/[/\-_]/g, "")
+    .replace(/^BTC/, "XBT")
+    .replace(/BTC$/, "XBT");
+  for (const [key, pair] of Object.entries(pairs)) {
+    if (
+      key === normalized ||
+      pair.altname === normalized ||
+      pair.wsname?.replace("/", "") === normalized
+    ) {
+      return { key, pair };
+    }
+  }
+  return undefined;
+}
+
+async function requirePair(symbol: string) {
+  const resolved = await resolvePair(symbol);
+  if (!resolved) {
+    throw new Error(`Unknown Kraken pair: ${symbol}`);
+  }
+  return resolved;
+}
+
+/**
+ * Returns the USD value of one unit of an asset, from its USD pair's last trade
+ * Results are cached in the given map for the duration of a sync
+ */
+async function getUsdRate(
+  asset: string,
+  cache: Map<string, number>
+): Promise<number> {
+  const altname = assetAltname(asset);
+  if (USD_ASSETS.includes(asset) || USD_ASSETS.includes(altname)) return 1;
+  const cached = cache.get(altname);
+  if (cached !== undefined) return cached;
+
+  let rate = 1;
+  try {
+    const resolved = await resolvePair(`${altname}USD`);
+    if (!resolved) throw new Error(`No ${altname}/USD pair`);
+    const ticker = await krakenPublic<Record<string, { c: string[] }>>(
+      "Ticker",
+      { pair: resolved.key }
+    );
+    rate = parseFloat(Object.values(ticker)[0].c[0]);
+  } catch (error) {
+    console.warn(
+      `[KRAKEN] No USD rate for ${altname}, keeping fees in ${altname}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  cache.set(altname, rate);
+  return rate;
+}
+
+function getAccountId(): number {
+  return parseInt(process.env.KRAKEN_ACCOUNT_ID || "1");
+}
+
+// Places a single spot order with AddOrder
+async function placeSpotOrder(order: OrderRequest): Promise<OrderResult> {
+  const { key } = await requirePair(order.contractId);
+  const params: Record<string, string | number | undefined> = {
+    pair: key,
+    type: order.side,
+    ordertype: SPOT_ORDER_TYPES[order.type],
+    volume: order.quantity,
+    // Always charge fees in the quote currency so they can be converted to USD
+    oflags: "fciq",
+  };
+  switch (order.type) {
+    case "limit":
+      params.price = order.limitPrice;
+      break;
+    case "stop":
+      params.price = order.stopPrice;
+      break;
+    case "stopLimit":
+      params.price = order.stopPrice;
+      params.price2 = order.limitPrice;
+      break;
+    case "trailingStop":
+      params.price = `+${order.trailPrice}`;
+      break;
+  }
+
+  // Kraken attaches one conditional close to a spot order
+  const warnings: string[] = [];
+  if (order.stopLoss !== undefined) {
+    if (order.trailingStopLoss !== undefined) {
+      params["close[ordertype]"] = "trailing-stop";
+      params["close[price]"] = `+${order.trailingStopLoss}`;
+    } else {
+      params["close[ordertype]"] = "stop-loss";
+      params["close[price]"] = order.stopLoss;
+    }
+    if (order.takeProfit !== undefined) {
+      warnings.push(
+        "Kraken spot orders take one conditional close; takeProfit was not placed"
+      );
+    }
+  } else if (order.takeProfit !== undefined) {
+    params["close[ordertype]"] = "take-profit";
+    params["close[price]"] = order.takeProfit;
+  }
+
+  const result = await krakenPrivate<{ txid: string[] }>("AddOrder", params);
+  return {
+    success: true,
+    orderId: result.txid[0],
+    warnings: warnings.length > 0 ? warnings : undefined,
+    raw: result,
+  };
+}
+
+// Places a single futures order with sendorder; brackets go through placeWithBracket
+async function placeFuturesOrder(order: OrderRequest): Promise<OrderResult> {
+  const data = await futuresRequest<{
+    sendStatus: { order_id?: string; status: string };
+  }>("POST", "/api/v3/sendorder", {
+    orderType: FUTURES_ORDER_TYPES[order.type],
+    symbol: order.contractId.toUpperCase(),
+    side: order.side,
+    size: order.quantity,
+    limitPrice: order.limitPrice,
+    stopPrice: order.stopPrice,
+    trailingStopMaxDeviation: order.trailPrice,
+    trailingStopDeviationUnit:
+      order.type === "trailingStop" ? "QUOTE_CURRENCY" : undefined,
+    // Bracket exits may only close the position they protect
+    reduceOnly: order.linkedOrderId !== undefined ? "true" : undefined,
+  });
+  const { sendStatus } = data;
+  const success = sendStatus.status === "placed";
+  return {
+    success,
+    orderId: sendStatus.order_id,
+    errorMessage: success ? undefined : sendStatus.status,
+    raw: data,
+  };
+}
+
+async function searchSpotTrades(
+  accountId: number,
+  startTimestamp: string,
+  endTimestamp: string
+): Promise<BrokerTrade[]> {
+  const trades: (KrakenTrade & { tradeId: string })[] = [];
+  // TradesHistory returns 50 trades per page, keyed by trade id
+  for (let offset = 0; ;) {
+    const page = await krakenPrivate<{
+      trades: Record<string, KrakenTrade>;
+      count: number;
+    }>("TradesHistory", {
+      start: Math.floor(new Date(startTimestamp).getTime() / 1000),
+      end: Math.floor(new Date(endTimestamp).getTime() / 1000),
+      ofs: offset,
+    });
+    const pageTrades = Object.entries(page.trades || {}).map(
+      ([tradeId, trade]) => ({ ...trade, tradeId })
+    );
+    trades.push(...pageTrades);
+    offset += pageTrades.length;
+    if (pageTrades.length === 0 || offset >= page.count) break;
+  }
+
+  const pairs = await getAssetPairs();
+  const usdRates = new Map<string, number>();
+  const fills: BrokerTrade[] = [];
+  for (const trade of trades) {
+    const pair = pairs[trade.pair];
+    const usdRate = pair ? await getUsdRate(pair.quote, usdRates) : 1;
+    fills.push({
+      broker: "kraken",
+      accountId: accountId,
+      contractId: pair?.altname ?? trade.pair,
+      creationTimestamp: new Date(trade.time * 1000).toISOString(),
+      price: parseFloat(trade.price),
+      profitAndLoss:
+        trade.net !== undefined ? parseFloat(trade.net) * usdRate : null,
+      fees: parseFloat(trade.fee) * usdRate,
+      // Kraken reports the side we traded on, unlike Topstep
+      side: trade.type,
+      size: parseFloat(trade.vol),
+      orderId: trade.ordertxid,
+      brokerTradeId: trade.tradeId,
+    });
+  }
+  return fills;
+}
+
+async function searchFuturesFills(
+  accountId: number,
+  startTimestamp: string,
+  endTimestamp: string
+): Promise<BrokerTrade[]> {
+  const start = new Date(startTimestamp).getTime();
+  const end = new Date(endTimestamp).getTime();
+  const fills: BrokerTrade[] = [];
+  const seen = new Set<string>();
+  // fills returns up to 100 fills before lastFillTime, newest first
+  let lastFillTime = endTimestamp;
+  for (;;) {
+    const data = await futuresRequest<{ fills: FuturesFill[] }>(
+      "GET",
+      "/api/v3/fills",
+      { lastFillTime }
+    );
+    const page = (data.fills || []).filter((fill) => !seen.has(fill.fill_id));
+    if (page.length === 0) break;
+    let oldest = end;
+    for (const fill of page) {
+      seen.add(fill.fill_id);
+      const fillTime = new Date(fill.fillTime).getTime();
+      oldest = Math.min(oldest, fillTime);
+      if (fillTime < start || fillTime > end) continue;
+      fills.push({
+        broker: "kraken",
+        accountId: accountId,
+        contractId: fill.symbol.toUpperCase(),
+        creationTimestamp: new Date(fillTime).toISOString(),
+        price: fill.price,
+        // The fills endpoint reports neither fees nor realized P&L; see
+        // addFuturesFeesAndPnl
+        profitAndLoss: null,
+        fees: 0,
+        side: fill.side,
+        size: fill.size,
+        orderId: fill.order_id,
+        brokerTradeId: fill.fill_id,
+      });
+    }
+    if (oldest < start) break;
+    lastFillTime = new Date(oldest).toISOString();
+  }
+  return fills;
+}
+
+/**
+ * Fills in futures fees and realized P&L from the account log, which the
+ * fills endpoint does not report; fills stay as they are if it cannot be read
+ */
+async function addFuturesFeesAndPnl(
+  fills: BrokerTrade[],
+  startTimestamp: string,
+  endTimestamp: string
+): Promise<BrokerTrade[]> {
+  if (fills.length === 0) return fills;
+  const start = new Date(startTimestamp).getTime();
+  const byExecution = new Map<string, { fee: number; pnl: number }>();
+  const endpointPath = "/api/history/v3/account-log";
+  try {
+    // The log returns up to 500 entries before `before`, newest first
+    let before = new Date(endTimestamp).getTime() + 1;
+    for (;;) {
+      const postData = formEncode({
+        since: start,
+        before,
+        info: "futures trade",
+        count: 500,
+      }).toString();
+      const response = await axios.get(
+        `${getFuturesHistoryUrl()}${endpointPath}?${postData}`,
+        { headers: futuresHeaders(endpointPath, postData) }
+      );
+      const logs = (response.data as { logs?: FuturesLogEntry[] }).logs || [];
+      for (const entry of logs) {
+        if (!entry.execution) continue;
+        const totals = byExecution.get(entry.execution) ?? { fee: 0, pnl: 0 };
+        totals.fee += entry.fee ?? 0;
+        totals.pnl += entry.realized_pnl ?? 0;
+        byExecution.set(entry.execution, totals);
+      }
+      if (logs.length < 500) break;
+      before = Math.min(...logs.map((entry) => new Date(entry.date).getTime()));
+      if (before <= start) break;
+    }
+  } catch (error) {
+    console.warn(
+      "[KRAKEN] Could not read the futures account log, fees are left at 0:",
+      error instanceof Error ? error.message : String(error)
+    );
+    return fills;
+  }
+  return fills.map((fill) => {
+    const totals = byExecution.get(fill.brokerTradeId ?? "");
+    if (!totals) return fill;
+    return {
+      ...fill,
+      fees: totals.fee,
+      // Opening fills realize nothing; a zero is worked out again when logged
+      profitAndLoss: totals.pnl !== 0 ? totals.pnl : null,
+    };
+  });
+}
+
+function toSpotOrder(
+  accountId: number,
+  txid: string,
+  order: KrakenOrder,
+  pairs: Record<string, KrakenAssetPair>
+): BrokerOrder {
+  const quantity = parseFloat(order.vol);
+  const filledQuantity = parseFloat(order.vol_exec);
+  let status = SPOT_ORDER_STATUSES[order.status] ?? "pending";
+  if (status === "working" && filledQuantity > 0) {
+    status = "partiallyFilled";
+  }
+  const type =
+    (Object.keys(SPOT_ORDER_TYPES) as OrderType[]).find(
+      (candidate) => SPOT_ORDER_TYPES[candidate] === order.descr.ordertype
+    ) ?? "market";
+  const price = parseFloat(order.descr.price);
+  const price2 = parseFloat(order.descr.price2);
+  const pair = Object.values(pairs).find(
+    (candidate) => candidate.altname === order.descr.pair
+  );
+  return {
+    broker: "kraken",
+    accountId: accountId,
+    orderId: txid,
+    contractId: pair?.altname ?? order.descr.pair,
+    side: order.descr.type,
+    type: type,
+    quantity: quantity,
+    filledQuantity: filledQuantity,
+    limitPrice: type === "limit" ? price : type === "stopLimit" ? price2 : null,
+    stopPrice: type === "stop" || type === "stopLimit" ? price : null,
+    linkedOrderId: null,
+    status: status,
+    creationTimestamp: new Date(order.opentm * 1000).toISOString(),
+    updateTimestamp: new Date(
+      (order.closetm ?? order.opentm) * 1000
+    ).toISOString(),
+  };
+}
+
+async function searchSpotOrders(
+  accountId: number,
+  startTimestamp: string
+): Promise<BrokerOrder[]> {
+  // Private calls run one at a time so their nonces arrive in order
+  const open = await krakenPrivate<{ open: Record<string, KrakenOrder> }>(
+    "OpenOrders"
+  );
+  const closed = await krakenPrivate<{
+    closed: Record<string, KrakenOrder>;
+  }>("ClosedOrders", {
+    start: Math.floor(new Date(startTimestamp).getTime() / 1000),
+  });
+  const pairs = await getAssetPairs();
+  return [
+    ...Object.entries(open.open || {}),
+    ...Object.entries(closed.closed || {}),
+  ].map(([txid, order]) => toSpotOrder(accountId, txid, order, pairs));
+}
+
+/**
+ * Futures orders from openorders, plus orders that have since filled
+ * Orders cancelled outside the backend are not reported by either endpoint
+ */
+async function searchFuturesOrders(
+  accountId: number,
+  startTimestamp: string
+): Promise<BrokerOrder[]> {
+  const data = await futuresRequest<{ openOrders: FuturesOpenOrder[] }>(
+    "GET",
+    "/api/v3/openorders"
+  );
+  const orders: BrokerOrder[] = (data.openOrders || []).map((order) => ({
+    broker: "kraken",
+    accountId: accountId,
+    orderId: order.order_id,
+    contractId: order.symbol.toUpperCase(),
+    side: order.side,
+    type:
+      order.orderType === "lmt"
+        ? "limit"
+        : order.orderType === "stp"
+          ? order.limitPrice !== undefined
+            ? "stopLimit"
+            : "stop"
+          : order.orderType === "trailing_stop"
+            ? "trailingStop"
+            : "market",
+    quantity: order.filledSize + order.unfilledSize,
+    filledQuantity: order.filledSize,
+    limitPrice: order.limitPrice ?? null,
+    stopPrice: order.stopPrice ?? null,
+    linkedOrderId: null,
+    status: order.filledSize > 0 ? "partiallyFilled" : "working",
+    creationTimestamp: new Date(order.receivedTime).toISOString(),
+    updateTimestamp: new Date(
+      order.lastUpdateTime ?? order.receivedTime
+    ).toISOString(),
+  }));
+
+  // Orders that are no longer open but have fills were filled
+  const openIds = new Set(orders.map((order) => order.orderId));
+  const filled = new Map<string, BrokerOrder>();
+  const fills = await searchFuturesFills(
+    accountId,
+    startTimestamp,
+    new Date().toISOString()
+  );
+  for (const fill of fills) {
+    if (openIds.has(fill.orderId)) continue;
+    const order = filled.get(String(fill.orderId)) ?? {
+      broker: "kraken",
+      accountId: accountId,
+      orderId: fill.orderId,
+      contractId: fill.contractId,
+      side: fill.side,
+      type: "market" as OrderType,
+      quantity: 0,
+      filledQuantity: 0,
+      limitPrice: null,
+      stopPrice: null,
+      linkedOrderId: null,
+      status: "filled" as OrderStatus,
+      creationTimestamp: fill.creationTimestamp,
+      updateTimestamp: fill.creationTimestamp,
+    };
+    order.quantity += fill.size;
+    order.filledQuantity += fill.size;
+    filled.set(String(fill.orderId), order);
+  }
+  return [...orders, ...filled.values()];
+}
+
+export const krakenAdapter: BrokerAdapter = {
+  name: "kraken",
+  fillsWithoutPnl: true,
+
+  defaultAccountId() {
+    // Only sync Kraken once it has been configured
+    return process.env.KRAKEN_API_KEY || process.env.KRAKEN_FUTURES_API_KEY
+      ? getAccountId()
+      : undefined;
+  },
+
+  async authenticate() {
+    // Kraken signs every call; checking the balance verifies the keys
+    await krakenPrivate("Balance");
+  },
+
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    if (isFuturesSymbol(order.contractId)) {
+      return placeWithBracket(order, placeFuturesOrder);
+    }
+    return placeSpotOrder(order);
+  },
+
+  async modifyOrder(
+    accountId: number,
+    orderId: OrderId,
+    changes: OrderChanges
+  ) {
+    if (isFuturesOrderId(orderId)) {
+      await futuresRequest("POST", "/api/v3/editorder", {
+        orderId: String(orderId),
+        size: changes.quantity,
+        limitPrice: changes.limitPrice,
+        stopPrice: changes.stopPrice,
+        trailingStopMaxDeviation: changes.trailPrice,
+      });
+      return;
+    }
+    await krakenPrivate("AmendOrder", {
+      txid: String(orderId),
+      order_qty: changes.quantity,
+      limit_price: changes.limitPrice,
+      trigger_price: changes.stopPrice ?? changes.trailPrice,
+    });
+  },
+
+  async cancelOrder(accountId: number, orderId: OrderId) {
+    if (isFuturesOrderId(orderId)) {
+      const data = await futuresRequest<{ cancelStatus: { status: string } }>(
+        "POST",
+        "/api/v3/cancelorder",
+        { order_id: String(orderId) }
+      );
+      if (data.cancelStatus.status !== "cancelled") {
+        throw new Error(
+          `Failed to cancel order ${orderId}: ${data.cancelStatus.status}`
+        );
+      }
+      return;
+    }
+    await krakenPrivate("CancelOrder", { txid: String(orderId) });
+  },
+
+  async searchOrders(
+    accountId: number,
+    startTimestamp: string
+  ): Promise<BrokerOrder[]> {
+    const orders: BrokerOrder[] = [];
+    if (process.env.KRAKEN_API_KEY) {
+      orders.push(...(await searchSpotOrders(accountId, startTimestamp)));
+    }
+    if (process.env.KRAKEN_FUTURES_API_KEY) {
+      orders.push(...(await searchFuturesOrders(accountId, startTimestamp)));
+    }
+    return orders;
+  },
+
+  async searchTrades(
+    accountId: number,
+    startTimestamp: string,
+    endTimestamp: string
+  ): Promise<BrokerTrade[]> {
+    const trades: BrokerTrade[] = [];
+    if (process.env.KRAKEN_API_KEY) {
+      trades.push(
+        ...(await searchSpotTrades(accountId, startTimestamp, endTimestamp))
+      );
+    }
+    if (process.env.KRAKEN_FUTURES_API_KEY) {
+      const fills = await searchFuturesFills(
+        accountId,
+        startTimestamp,
+        endTimestamp
+      );
+      trades.push(
+        ...(await addFuturesFeesAndPnl(fills, startTimestamp, endTimestamp))
+      );
+    }
+    return trades;
+  },
+
+  async listAccounts(): Promise<BrokerAccount[]> {
+    return [{ id: getAccountId(), name: "KRAKEN", canTrade: true }];
+  },
+
+  async resolveContract(symbol: string): Promise<BrokerContract[]> {
+    if (isFuturesSymbol(symbol)) {
+      const response = await axios.get(
+        `${getFuturesApiUrl()}/api/v3/instruments`
+      );
+      const instruments = (response.data.instruments || []) as {
+        symbol: string;
+        tickSize: number;
+        contractSize: number;
+        tradeable: boolean;
+      }[];
+      return instruments
+        .filter((i) => i.symbol.toUpperCase() === symbol.toUpperCase())
+        .map((i) => ({
+          id: i.symbol.toUpperCase(),
+          name: i.symbol.toUpperCase(),
+          description: `Kraken futures ${i.symbol.toUpperCase()}`,
+          tickSize: i.tickSize,
+          tickValue: i.tickSize * i.contractSize,
+          activeContract: i.tradeable,
+        }));
+    }
+    const resolved = await resolvePair(symbol);
+    if (!resolved) return [];
+    const { pair } = resolved;
+    const tickSize = pair.tick_size
+      ? parseFloat(pair.tick_size)
+      : Math.pow(10, -pair.pair_decimals);
+    return [
+      {
+        id: pair.altname,
+        name: pair.wsname ?? pair.altname,
+        description: `Kraken spot ${pair.wsname ?? pair.altname}`,
+        tickSize: tickSize,
+        tickValue: tickSize,
+        activeContract: true,
+      },
+    ];
+  },
+};
@@ -0,0 +1,170 @@
+// Order helpers shared by the broker adapters
+import { OrderRequest, OrderResult, OrderSide, OrderType } from "./types";
+
+export const ORDER_TYPES: OrderType[] = [
+  "market",
+  "limit",
+  "stop",
+  "stopLimit",
+  "trailingStop",
+];
+
+// Other names alerts may use for an order type, e.g. Kraken's `ordertype`
+export const ORDER_TYPE_ALIASES: Record<string, OrderType> = {
+  mkt: "market",
+  lmt: "limit",
+  "stop-loss": "stop",
+  "stop-loss-limit": "stopLimit",
+  "trailing-stop": "trailingStop",
+};
+
+/**
+ * Maps an order type name from an alert to an OrderType
+ * @returns The order type, or undefined if the name is not recognised
+ */
+export function parseOrderType(name: string): OrderType | undefined {
+  if ((ORDER_TYPES as string[]).includes(name)) {
+    return name as OrderType;
+  }
+  return ORDER_TYPE_ALIASES[name.toLowerCase()];
+}
+
+export function oppositeSide(side: OrderSide): OrderSide {
+  return side === "buy" ? "sell" : "buy";
+}
+
+/**
+ * Checks that an order carries the prices its type needs and that its
+ * bracket prices sit on the right side of the entry
+ * @returns A description of the first problem found, or undefined if valid
+ */
+export function validateOrderRequest(order: OrderRequest): string | undefined {
+  if (!ORDER_TYPES.includes(order.type)) {
+    return `Unsupported order type: ${order.type}`;
+  }
+  if (
+    (order.type === "limit" || order.type === "stopLimit") &&
+    order.limitPrice === undefined
+  ) {
+    return `limitPrice is required for ${order.type} orders`;
+  }
+  if (
+    (order.type === "stop" || order.type === "stopLimit") &&
+    order.stopPrice === undefined
+  ) {
+    return `stopPrice is required for ${order.type} orders`;
+  }
+  if (
+    order.type === "trailingStop" &&
+    !(order.trailPrice !== undefined && order.trailPrice > 0)
+  ) {
+    return "A positive trailPrice is required for trailingStop orders";
+  }
+  if (order.trailingStopLoss !== undefined && order.stopLoss === undefined) {
+    return "trailingStopLoss requires a stopLoss";
+  }
+
+  // Bracket exits must sit below/above the expected entry price
+  const entryPrice =
+    order.type === "market"
+      ? order.price
+      : (order.limitPrice ?? order.stopPrice);
+  if (entryPrice !== undefined) {
+    const isBuy = order.side === "buy";
+    if (
+      order.stopLoss !== undefined &&
+      (isBuy ? order.stopLoss >= entryPrice : order.stopLoss <= entryPrice)
+    ) {
+      return `stopLoss must be ${isBuy ? "below" : "above"} the entry price`;
+    }
+    if (
+      order.takeProfit !== undefined &&
+      (isBuy ? order.takeProfit <= entryPrice : order.takeProfit >= entryPrice)
+    ) {
+      return `takeProfit must be ${isBuy ? "above" : "below"} the entry price`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Places an entry order followed by its bracket exits, linked to the entry
+ * through linkedOrderId
+ * @param order Entry order, with optional stopLoss/takeProfit
+ * @param placeSingle Places one order with the broker, ignoring bracket fields
+ */
+export async function placeWithBracket(
+  order: OrderRequest,
+  placeSingle: (order: OrderRequest) => Promise<OrderResult>
+): Promise<OrderResult> {
+  const entry = await placeSingle(order);
+  if (
+    !entry.success ||
+    entry.orderId === undefined ||
+    (order.stopLoss === undefined && order.takeProfit === undefined)
+  ) {
+    return entry;
+  }
+
+  const exit = {
+    accountId: order.accountId,
+    contractId: order.contractId,
+    side: oppositeSide(order.side),
+    quantity: order.quantity,
+    linkedOrderId: entry.orderId,
+  };
+  const bracketOrderIds: OrderResult["bracketOrderIds"] = {};
+  const warnings: string[] = [];
+
+  if (order.stopLoss !== undefined) {
+    const stopLeg: OrderRequest =
+      order.trailingStopLoss !== undefined
+        ? {
+            ...exit,
+            type: "trailingStop",
+            stopPrice: order.stopLoss,
+            trailPrice: order.trailingStopLoss,
+          }
+        : { ...exit, type: "stop", stopPrice: order.stopLoss };
+    try {
+      const result = await placeSingle(stopLeg);
+      if (result.success) {
+        bracketOrderIds.stopLoss = result.orderId;
+      } else {
+        warnings.push(`Stop loss rejected: ${result.errorMessage}`);
+      }
+    } catch (error) {
+      warnings.push(
+        `Stop loss failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  if (order.takeProfit !== undefined) {
+    try {
+      const result = await placeSingle({
+        ...exit,
+        type: "limit",
+        limitPrice: order.takeProfit,
+      });
+      if (result.success) {
+        bracketOrderIds.takeProfit = result.orderId;
+      } else {
+        warnings.push(`Take profit rejected: ${result.errorMessage}`);
+      }
+    } catch (error) {
+      warnings.push(
+        `Take profit failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  for (const warning of warnings) {
+    console.error(`[ORDER] Bracket for order ${entry.orderId}: ${warning}`);
+  }
+  return {
+    ...entry,
+    bracketOrderIds,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
@@ -0,0 +1,421 @@
+// Paper-trading broker adapter
+//
+// Simulates fills locally so the TradingView flow can be exercised without a
+// live account. Orders fill against the price supplied with the order (the
+// alert's `price`) or the last price seen for the contract; limit, stop,
+// stop-limit and trailing-stop orders that are not marketable rest until a
+// later price crosses them. Orders linked to a parent (bracket exits) only
+// become active once the parent has filled, and filling one cancels the rest.
+import {
+  BrokerAccount,
+  BrokerAdapter,
+  BrokerContract,
+  BrokerOrder,
+  BrokerTrade,
+  OrderChanges,
+  OrderId,
+  OrderRequest,
+  OrderResult,
+} from "./types";
+import { placeWithBracket } from "./orders";
+import { getPointValue } from "../contracts";
+
+function getAccountId(): number {
+  return parseInt(process.env.PAPER_ACCOUNT_ID || "1");
+}
+
+function getFeePerContract(): number {
+  return parseFloat(process.env.PAPER_FEE_PER_CONTRACT || "0");
+}
+
+export interface PaperPosition {
+  accountId: number;
+  contractId: string;
+  // Signed quantity: positive when long, negative when short
+  quantity: number;
+  averagePrice: number;
+  realizedPnL: number;
+}
+
+interface WorkingOrder extends OrderRequest {
+  orderId: number;
+  accountId: number;
+  // Set once a stop-limit order's stop has been hit
+  triggered?: boolean;
+}
+
+const fills: BrokerTrade[] = [];
+const positions = new Map<string, PaperPosition>();
+const lastPrices = new Map<string, number>();
+const workingOrders: WorkingOrder[] = [];
+// Every order placed, in any state, as reported by searchOrders
+const orderHistory = new Map<OrderId, BrokerOrder>();
+let nextOrderId = Date.now();
+
+function positionKey(accountId: number, contractId: string) {
+  return `${accountId}:${contractId}`;
+}
+
+function limitFillPrice(
+  order: WorkingOrder,
+  price: number
+): number | undefined {
+  if (order.limitPrice === undefined) return undefined;
+  if (order.side === "buy") {
+    return price <= order.limitPrice
+      ? Math.min(price, order.limitPrice)
+      : undefined;
+  }
+  return price >= order.limitPrice
+    ? Math.max(price, order.limitPrice)
+    : undefined;
+}
+
+function stopHit(order: WorkingOrder, price: number): boolean {
+  if (order.stopPrice === undefined) return false;
+  return order.side === "buy"
+    ? price >= order.stopPrice
+    : price <= order.stopPrice;
+}
+
+/**
+ * Evaluates an order against a new price, updating stop-limit and trailing
+ * stop state along the way
+ * @returns The price the order fills at, or undefined if it is not marketable
+ */
+function evaluateOrder(order: WorkingOrder, price: number): number | undefined {
+  switch (order.type) {
+    case "market":
+      return price;
+    case "limit":
+      return limitFillPrice(order, price);
+    case "stop":
+      return stopHit(order, price) ? price : undefined;
+    case "stopLimit":
+      if (!order.triggered) {
+        if (!stopHit(order, price)) return undefined;
+        order.triggered = true;
+      }
+      return limitFillPrice(order, price);
+    case "trailingStop": {
+      if (stopHit(order, price)) return price;
+      // Ratchet the stop towards the price, never away from it
+      const trail = order.trailPrice ?? 0;
+      order.stopPrice =
+        order.side === "sell"
+          ? Math.max(order.stopPrice ?? -Infinity, price - trail)
+          : Math.min(order.stopPrice ?? Infinity, price + trail);
+      return undefined;
+    }
+  }
+}
+
+// A linked order waits until its parent is no longer working
+function isActive(order: WorkingOrder): boolean {
+  return (
+    order.linkedOrderId === undefined ||
+    !workingOrders.some((other) => other.orderId === order.linkedOrderId)
+  );
+}
+
+function removeWorkingOrders(predicate: (order: WorkingOrder) => boolean) {
+  for (let i = workingOrders.length - 1; i >= 0; i--) {
+    if (predicate(workingOrders[i])) {
+      workingOrders.splice(i, 1);
+    }
+  }
+}
+
+function recordOrder(order: WorkingOrder) {
+  const now = new Date().toISOString();
+  orderHistory.set(order.orderId, {
+    broker: "paper",
+    accountId: order.accountId,
+    orderId: order.orderId,
+    contractId: order.contractId,
+    side: order.side,
+    type: order.type,
+    quantity: order.quantity,
+    filledQuantity: 0,
+    limitPrice: order.limitPrice ?? null,
+    stopPrice: order.stopPrice ?? null,
+    linkedOrderId: order.linkedOrderId ?? null,
+    status: "working",
+    creationTimestamp: now,
+    updateTimestamp: now,
+  });
+}
+
+function updateOrderHistory(orderId: OrderId, changes: Partial<BrokerOrder>) {
+  const recorded = orderHistory.get(orderId);
+  if (recorded) {
+    Object.assign(recorded, changes, {
+      updateTimestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// Removes working orders and marks them cancelled
+function cancelWorkingOrders(predicate: (order: WorkingOrder) => boolean) {
+  for (const order of workingOrders.filter(predicate)) {
+    updateOrderHistory(order.orderId, { status: "cancelled" });
+  }
+  removeWorkingOrders(predicate);
+}
+
+/**
+ * Applies a fill to the account's position and records it as a trade
+ * @returns The recorded fill, with profitAndLoss set when the fill reduced a position
+ */
+function applyFill(order: WorkingOrder, fillPrice: number): BrokerTrade {
+  const key = positionKey(order.accountId, order.contractId);
+  const position = positions.get(key) ?? {
+    accountId: order.accountId,
+    contractId: order.contractId,
+    quantity: 0,
+    averagePrice: 0,
+    realizedPnL: 0,
+  };
+  const signedQty = order.side === "buy" ? order.quantity : -order.quantity;
+  let profitAndLoss: number | null = null;
+
+  if (
+    position.quantity !== 0 &&
+    Math.sign(position.quantity) !== Math.sign(signedQty)
+  ) {
+    // Closing (or flipping) an existing position realizes P&L on the closed part
+    const closedQty = Math.min(Math.abs(position.quantity), order.quantity);
+    const direction = Math.sign(position.quantity);
+    profitAndLoss =
+      (fillPrice - position.averagePrice) *
+      closedQty *
+      direction *
+      getPointValue(order.contractId);
+    position.realizedPnL += profitAndLoss;
+    position.quantity += signedQty;
+    if (Math.sign(position.quantity) === Math.sign(signedQty)) {
+      // Flipped through flat: the remainder opens at the fill price
+      position.averagePrice = fillPrice;
+    } else if (position.quantity === 0) {
+      position.averagePrice = 0;
+    }
+  } else {
+    // Opening or adding to a position moves the average price
+    const newQty = position.quantity + signedQty;
+    position.averagePrice =
+      (position.averagePrice * Math.abs(position.quantity) +
+        fillPrice * order.quantity) /
+      Math.abs(newQty);
+    position.quantity = newQty;
+  }
+  positions.set(key, position);
+
+  const fill: BrokerTrade = {
+    broker: "paper",
+    accountId: order.accountId,
+    contractId: order.contractId,
+    creationTimestamp: new Date().toISOString(),
+    price: fillPrice,
+    profitAndLoss: profitAndLoss,
+    fees: getFeePerContract() * order.quantity,
+    side: order.side,
+    size: order.quantity,
+    orderId: order.orderId,
+  };
+  fills.push(fill);
+  updateOrderHistory(order.orderId, {
+    status: "filled",
+    filledQuantity: order.quantity,
+  });
+  console.log(
+    `[PAPER] Filled order ${order.orderId}: ${order.side} ${order.quantity} ${order.contractId} @ ${fillPrice}`
+  );
+  return fill;
+}
+
+/**
+ * Records a new price for a contract and fills any resting orders it crosses
+ * @returns Fills produced by the price update
+ */
+export function updatePaperPrice(
+  contractId: string,
+  price: number
+): BrokerTrade[] {
+  lastPrices.set(contractId, price);
+  const produced: BrokerTrade[] = [];
+  for (const order of [...workingOrders]) {
+    if (
+      order.contractId !== contractId ||
+      !workingOrders.includes(order) ||
+      !isActive(order)
+    ) {
+      continue;
+    }
+    const fillPrice = evaluateOrder(order, price);
+    if (fillPrice === undefined) continue;
+    removeWorkingOrders((other) => other === order);
+    produced.push(applyFill(order, fillPrice));
+    if (order.linkedOrderId !== undefined) {
+      // One-cancels-other: the remaining exits of the bracket are cancelled
+      cancelWorkingOrders(
+        (other) => other.linkedOrderId === order.linkedOrderId
+      );
+    }
+  }
+  return produced;
+}
+
+/**
+ * Places a single paper order; brackets are handled by placeWithBracket
+ */
+async function placeSingleOrder(order: OrderRequest): Promise<OrderResult> {
+  if (!Number.isFinite(order.quantity) || order.quantity <= 0) {
+    return { success: false, errorMessage: "Quantity must be positive" };
+  }
+  const workingOrder: WorkingOrder = {
+    accountId: order.accountId ?? getAccountId(),
+    contractId: order.contractId,
+    side: order.side,
+    quantity: order.quantity,
+    type: order.type,
+    limitPrice: order.limitPrice,
+    stopPrice: order.stopPrice,
+    trailPrice: order.trailPrice,
+    linkedOrderId: order.linkedOrderId,
+    orderId: nextOrderId++,
+  };
+
+  const price = order.price ?? lastPrices.get(order.contractId);
+  if (price === undefined && order.type === "market") {
+    return {
+      success: false,
+      errorMessage: `No price available to fill market order on ${order.contractId}`,
+    };
+  }
+  workingOrders.push(workingOrder);
+  recordOrder(workingOrder);
+  if (price === undefined) {
+    return { success: true, orderId: workingOrder.orderId };
+  }
+
+  // The order's price moves the market first, filling anything it crosses
+  const fill = updatePaperPrice(order.contractId, price).find(
+    (produced) => produced.orderId === workingOrder.orderId
+  );
+  if (!fill) {
+    console.log(
+      `[PAPER] Working ${order.type} order ${workingOrder.orderId}: ${order.side} ${order.quantity} ${order.contractId}`
+    );
+  }
+  return { success: true, orderId: workingOrder.orderId, raw: fill };
+}
+
+/**
+ * Returns a snapshot of paper positions and resting orders
+ */
+export function getPaperAccountState(): {
+  positions: PaperPosition[];
+  workingOrders: WorkingOrder[];
+  realizedPnL: number;
+} {
+  const allPositions = Array.from(positions.values());
+  return {
+    positions: allPositions.map((position) => ({ ...position })),
+    workingOrders: workingOrders.map((order) => ({ ...order })),
+    realizedPnL: allPositions.reduce((sum, p) => sum + p.realizedPnL, 0),
+  };
+}
+
+export const paperAdapter: BrokerAdapter = {
+  name: "paper",
+
+  defaultAccountId() {
+    return getAccountId();
+  },
+
+  async authenticate() {
+    // Nothing to authenticate against
+  },
+
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    return placeWithBracket(order, placeSingleOrder);
+  },
+
+  async modifyOrder(
+    accountId: number,
+    orderId: OrderId,
+    changes: OrderChanges
+  ) {
+    const order = workingOrders.find(
+      (o) => o.accountId === accountId && o.orderId === orderId
+    );
+    if (!order) {
+      throw new Error(`No working paper order ${orderId}`);
+    }
+    if (changes.quantity !== undefined) order.quantity = changes.quantity;
+    if (changes.limitPrice !== undefined) order.limitPrice = changes.limitPrice;
+    if (changes.stopPrice !== undefined) order.stopPrice = changes.stopPrice;
+    if (changes.trailPrice !== undefined) order.trailPrice = changes.trailPrice;
+    updateOrderHistory(orderId, {
+      quantity: order.quantity,
+      limitPrice: order.limitPrice ?? null,
+      stopPrice: order.stopPrice ?? null,
+    });
+  },
+
+  async cancelOrder(accountId: number, orderId: OrderId) {
+    const exists = workingOrders.some(
+      (order) => order.accountId === accountId && order.orderId === orderId
+    );
+    if (!exists) {
+      throw new Error(`No working paper order ${orderId}`);
+    }
+    // Cancelling an entry also cancels its pending bracket exits
+    cancelWorkingOrders(
+      (order) => order.orderId === orderId || order.linkedOrderId === orderId
+    );
+  },
+
+  async searchOrders(
+    accountId: number,
+    startTimestamp: string
+  ): Promise<BrokerOrder[]> {
+    return Array.from(orderHistory.values())
+      .filter(
+        (order) =>
+          order.accountId === accountId &&
+          order.creationTimestamp >= startTimestamp
+      )
+      .map((order) => ({ ...order }));
+  },
+
+  async searchTrades(
+    accountId: number,
+    startTimestamp: string,
+    endTimestamp: string
+  ): Promise<BrokerTrade[]> {
+    return fills.filter(
+      (fill) =>
+        fill.accountId === accountId &&
+        fill.creationTimestamp >= startTimestamp &&
+        fill.creationTimestamp <= endTimestamp
+    );
+  },
+
+  async listAccounts(): Promise<BrokerAccount[]> {
+    return [{ id: getAccountId(), name: "PAPER", canTrade: true }];
+  },
+
+  async resolveContract(symbol: string): Promise<BrokerContract[]> {
+    return [
+      {
+        id: symbol,
+        name: symbol,
+        description: `Paper contract for ${symbol}`,
+        tickSize: 0.01,
+        tickValue: getPointValue(symbol) * 0.01,
+        activeContract: true,
+      },
+    ];
+  },
+};
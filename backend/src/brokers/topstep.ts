@@ -0,0 +1,377 @@
+// Topstep (TopstepX) broker adapter
+import axios from "axios";
+import {
+  BrokerAccount,
+  BrokerAdapter,
+  BrokerContract,
+  BrokerOrder,
+  BrokerTrade,
+  OrderChanges,
+  OrderId,
+  OrderRequest,
+  OrderResult,
+  OrderStatus,
+  OrderType,
+} from "./types";
+import { placeWithBracket } from "./orders";
+import { Bar } from "../strategies/types";
+import {
+  getTopstepApiUrl,
+  refreshSession,
+  withSession,
+} from "./topstepSession";
+
+// Order type codes expected by Order/place
+const ORDER_TYPE_CODES: Record<OrderType, number> = {
+  limit: 1,
+  market: 2,
+  stopLimit: 3,
+  stop: 4,
+  trailingStop: 5,
+};
+
+// Order status codes returned by Order/search
+// (0 = None, 1 = Open, 2 = Filled, 3 = Cancelled, 4 = Expired, 5 = Rejected, 6 = Pending)
+const ORDER_STATUSES: Record<number, OrderStatus> = {
+  0: "pending",
+  1: "working",
+  2: "filled",
+  3: "cancelled",
+  4: "cancelled",
+  5: "rejected",
+  6: "pending",
+};
+
+interface TopstepAccount {
+  id: number;
+  name: string;
+  canTrade: boolean;
+}
+
+interface TopstepContract {
+  id: string;
+  name: string;
+  description: string;
+  tickSize: number;
+  tickValue: number;
+  activeContract: boolean;
+}
+
+function toBrokerContract(contract: TopstepContract): BrokerContract {
+  return {
+    id: contract.id,
+    name: contract.name,
+    description: contract.description,
+    tickSize: contract.tickSize,
+    tickValue: contract.tickValue,
+    activeContract: contract.activeContract,
+  };
+}
+
+interface TopstepTrade {
+  id: number;
+  accountId: number;
+  contractId: string;
+  creationTimestamp: string;
+  price: number;
+  profitAndLoss: number | null;
+  fees: number;
+  side: number;
+  size: number;
+  orderId: number;
+}
+
+interface TopstepOrder {
+  id: number;
+  accountId: number;
+  contractId: string;
+  creationTimestamp: string;
+  updateTimestamp: string | null;
+  status: number;
+  type: number;
+  side: number;
+  size: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  fillVolume: number | null;
+  linkedOrderId?: number | null;
+}
+
+/**
+ * Maps an order type code from Order/place back to its OrderType name
+ */
+export function orderTypeFromCode(code: number): OrderType | undefined {
+  return (Object.keys(ORDER_TYPE_CODES) as OrderType[]).find(
+    (type) => ORDER_TYPE_CODES[type] === code
+  );
+}
+
+function getDefaultAccountId(): number {
+  const accountId = topstepAdapter.defaultAccountId();
+  if (accountId === undefined) {
+    throw new Error("No Topstep account selected (TOPSTEP_ACCOUNT_ID)");
+  }
+  return accountId;
+}
+
+// POST to an authenticated Topstep endpoint and return the response body
+async function topstepPost<T>(endpoint: string, payload: object): Promise<T> {
+  return withSession(async (token) => {
+    const response = await axios.post(
+      `${getTopstepApiUrl()}/${endpoint}`,
+      payload,
+      {
+        headers: {
+          accept: "application/json",
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+    return response.data as T;
+  });
+}
+
+interface TopstepBar {
+  t: string;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+// Bar unit code expected by History/retrieveBars
+// (1 = Second, 2 = Minute, 3 = Hour, 4 = Day, 5 = Week, 6 = Month)
+const MINUTE_UNIT = 2;
+
+/**
+ * Closed bars of a contract from History/retrieveBars, oldest first
+ * @param barMinutes Bar length in minutes
+ */
+export async function retrieveTopstepBars(
+  contractId: string,
+  startTime: string,
+  endTime: string,
+  barMinutes: number
+): Promise<Bar[]> {
+  const data = await topstepPost<{
+    success: boolean;
+    errorMessage?: string;
+    bars?: TopstepBar[];
+  }>("History/retrieveBars", {
+    contractId,
+    live: false,
+    startTime,
+    endTime,
+    unit: MINUTE_UNIT,
+    unitNumber: barMinutes,
+    limit: 20000,
+    includePartialBar: false,
+  });
+  if (!data.success) {
+    throw new Error(data.errorMessage || "API call failed");
+  }
+  return (data.bars || [])
+    .map((bar) => ({
+      time: new Date(bar.t).getTime(),
+      open: bar.o,
+      high: bar.h,
+      low: bar.l,
+      close: bar.c,
+      volume: bar.v,
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Places a single order with Order/place; brackets are handled by placeWithBracket
+async function placeSingleOrder(order: OrderRequest): Promise<OrderResult> {
+  const payload = {
+    accountId: order.accountId ?? getDefaultAccountId(),
+    contractId: order.contractId,
+    type: ORDER_TYPE_CODES[order.type],
+    side: order.side === "buy" ? 0 : 1,
+    size: order.quantity,
+    limitPrice: order.limitPrice ?? null,
+    stopPrice: order.stopPrice ?? null,
+    trailPrice: order.trailPrice ?? null,
+    customTag: null,
+    linkedOrderId: order.linkedOrderId ?? null,
+  };
+  const data = await topstepPost<{
+    success: boolean;
+    orderId?: number;
+    errorMessage?: string;
+  }>("Order/place", payload);
+  return {
+    success: data.success,
+    orderId: data.orderId,
+    errorMessage: data.errorMessage ?? undefined,
+    raw: data,
+  };
+}
+
+export const topstepAdapter: BrokerAdapter = {
+  name: "topstep",
+
+  defaultAccountId() {
+    const accountId = process.env.TOPSTEP_ACCOUNT_ID;
+    return accountId ? parseInt(accountId) : undefined;
+  },
+
+  async authenticate() {
+    await refreshSession();
+  },
+
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    return placeWithBracket(order, placeSingleOrder);
+  },
+
+  async modifyOrder(
+    accountId: number,
+    orderId: OrderId,
+    changes: OrderChanges
+  ) {
+    const data = await topstepPost<{ success: boolean; errorMessage?: string }>(
+      "Order/modify",
+      {
+        accountId,
+        orderId,
+        size: changes.quantity ?? null,
+        limitPrice: changes.limitPrice ?? null,
+        stopPrice: changes.stopPrice ?? null,
+        trailPrice: changes.trailPrice ?? null,
+      }
+    );
+    if (!data.success) {
+      throw new Error(data.errorMessage || `Failed to modify order ${orderId}`);
+    }
+  },
+
+  async cancelOrder(accountId: number, orderId: OrderId) {
+    const data = await topstepPost<{ success: boolean; errorMessage?: string }>(
+      "Order/cancel",
+      { accountId, orderId }
+    );
+    if (!data.success) {
+      throw new Error(data.errorMessage || `Failed to cancel order ${orderId}`);
+    }
+  },
+
+  async searchOrders(
+    accountId: number,
+    startTimestamp: string
+  ): Promise<BrokerOrder[]> {
+    const data = await topstepPost<{ orders?: TopstepOrder[] }>(
+      "Order/search",
+      { accountId, startTimestamp }
+    );
+    if (!data || !Array.isArray(data.orders)) {
+      return [];
+    }
+    return data.orders.map((order) => {
+      const filledQuantity = order.fillVolume ?? 0;
+      let status = ORDER_STATUSES[order.status] ?? "pending";
+      // Open orders with some volume filled are partially filled
+      if (status === "working" && filledQuantity > 0) {
+        status = "partiallyFilled";
+      }
+      return {
+        broker: "topstep",
+        accountId: order.accountId,
+        orderId: order.id,
+        contractId: order.contractId,
+        // Unlike fills, an order's side is the side it was placed with
+        side: order.side === 0 ? "buy" : "sell",
+        type: orderTypeFromCode(order.type) ?? "market",
+        quantity: order.size,
+        filledQuantity: filledQuantity,
+        limitPrice: order.limitPrice,
+        stopPrice: order.stopPrice,
+        linkedOrderId: order.linkedOrderId ?? null,
+        status: status,
+        creationTimestamp: order.creationTimestamp,
+        updateTimestamp: order.updateTimestamp ?? order.creationTimestamp,
+      };
+    });
+  },
+
+  async searchTrades(
+    accountId: number,
+    startTimestamp: string,
+    endTimestamp: string
+  ): Promise<BrokerTrade[]> {
+    const data = await topstepPost<{ trades?: TopstepTrade[] }>(
+      "Trade/search",
+      { accountId, startTimestamp, endTimestamp }
+    );
+    if (!data || !Array.isArray(data.trades)) {
+      return [];
+    }
+    return data.trades.map((trade) => ({
+      broker: "topstep",
+      accountId: trade.accountId,
+      contractId: trade.contractId,
+      creationTimestamp: trade.creationTimestamp,
+      price: trade.price,
+      profitAndLoss: trade.profitAndLoss,
+      fees: trade.fees * 2,
+      // Convert the side number to a string (0 = 'buy', 1 = 'sell')
+      // we use trade.side === 1 ? 'buy' : 'sell' because the opposite side is used to fill an order of given side
+      side: trade.side === 1 ? "buy" : "sell",
+      size: trade.size,
+      orderId: trade.orderId,
+      brokerTradeId: String(trade.id),
+    }));
+  },
+
+  async listAccounts(): Promise<BrokerAccount[]> {
+    const data = await topstepPost<{ accounts?: TopstepAccount[] }>(
+      "Account/search",
+      {}
+    );
+    if (!Array.isArray(data.accounts)) {
+      throw new Error("Malformed response from Topstep API");
+    }
+    return data.accounts.map((acc) => ({
+      id: acc.id,
+      name: acc.name,
+      canTrade: acc.canTrade,
+    }));
+  },
+
+  async resolveContract(symbol: string): Promise<BrokerContract[]> {
+    // A contract id such as CON.F.US.ENQ.Z25 is looked up directly
+    if (symbol.toUpperCase().startsWith("CON.")) {
+      const byId = await topstepPost<{
+        success: boolean;
+        errorMessage?: string;
+        contract?: TopstepContract | null;
+      }>("Contract/searchById", { contractId: symbol });
+      if (!byId.success) {
+        throw new Error(byId.errorMessage || "API call failed");
+      }
+      return byId.contract ? [toBrokerContract(byId.contract)] : [];
+    }
+    const data = await topstepPost<{
+      success: boolean;
+      errorMessage?: string;
+      contracts?: TopstepContract[];
+    }>("Contract/search", { searchText: `${symbol}`, live: false });
+    if (!data.success) {
+      throw new Error(data.errorMessage || "API call failed");
+    }
+    // A root symbol such as NQ matches each listed month (NQZ5, NQH6)
+    const root = symbol.toUpperCase();
+    return (data.contracts || [])
+      .filter((c) => {
+        const name = c.name.toUpperCase();
+        return (
+          name === root ||
+          (name.startsWith(root) &&
+            /^[FGHJKMNQUVXZ]\d{1,2}$/.test(name.slice(root.length)))
+        );
+      })
+      .map(toBrokerContract);
+  },
+};
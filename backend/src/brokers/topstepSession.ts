@@ -0,0 +1,226 @@
+// Topstep session tokens
+//
+// Owns the session token used by every Topstep call. The token is fetched with
+// Auth/loginKey on first use, refreshed before it expires (TopstepX tokens are
+// valid for 24 hours) and fetched again when a call is rejected with a 401,
+// after which the call is retried once.
+//
+// A token already in TOPSTEP_API_SESSION_TOKEN, issued at
+// TOPSTEP_API_SESSION_TIMESTAMP, is used until it is due for a refresh.
+import axios from "axios";
+
+/**
+ * Base URL of the Topstep API, overridden with TOPSTEP_API_URL to point the
+ * backend at a stand-in such as mock/topstep.ts
+ */
+export function getTopstepApiUrl(): string {
+  return (
+    process.env.TOPSTEP_API_URL || "https://api.topstepx.com/api"
+  ).replace(/\/+$/, "");
+}
+
+const TOKEN_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionStatus {
+  configured: boolean;
+  authenticated: boolean;
+  issuedAt: string | null;
+  expiresAt: string | null;
+  refreshDueAt: string | null;
+  lastRefreshAttempt: string | null;
+  lastRefreshError: string | null;
+  consecutiveFailures: number;
+  // Calls rejected with a 401 and retried after re-authenticating
+  unauthorizedRetries: number;
+}
+
+interface Session {
+  token: string;
+  issuedAt: Date;
+}
+
+let session: Session | null = null;
+// The environment is read on first use, after .env.local has been loaded
+let seeded = false;
+// Refresh in flight, shared by every caller that needs a token meanwhile
+let refreshing: Promise<string> | null = null;
+let lastRefreshAttempt: Date | null = null;
+let lastRefreshError: string | null = null;
+let consecutiveFailures = 0;
+let unauthorizedRetries = 0;
+
+function currentSession(): Session | null {
+  if (!seeded) {
+    seeded = true;
+    const token = process.env.TOPSTEP_API_SESSION_TOKEN;
+    const issuedAt = new Date(process.env.TOPSTEP_API_SESSION_TIMESTAMP || "");
+    if (token && !session) {
+      // Without a valid timestamp the token's age is unknown; refresh on first use
+      session = {
+        token,
+        issuedAt: isNaN(issuedAt.getTime()) ? new Date(0) : issuedAt,
+      };
+    }
+  }
+  return session;
+}
+
+// Hours after issue at which the token is replaced, default 20
+function getRefreshAgeMs(): number {
+  const hours = parseFloat(process.env.TOPSTEP_TOKEN_REFRESH_HOURS || "20");
+  return (hours > 0 && hours < 24 ? hours : 20) * 60 * 60 * 1000;
+}
+
+function isRefreshDue(current: Session): boolean {
+  return Date.now() - current.issuedAt.getTime() >= getRefreshAgeMs();
+}
+
+/**
+ * Checks whether Topstep credentials (or a session token) are configured
+ */
+export function isTopstepConfigured(): boolean {
+  return Boolean(
+    (process.env.TOPSTEP_USERNAME && process.env.TOPSTEP_API_KEY) ||
+    currentSession()
+  );
+}
+
+async function login(): Promise<string> {
+  const username = process.env.TOPSTEP_USERNAME;
+  const apiKey = process.env.TOPSTEP_API_KEY;
+  if (!username || !apiKey) {
+    throw new Error(
+      "TOPSTEP_USERNAME and TOPSTEP_API_KEY are required in .env.local"
+    );
+  }
+  const response = await axios.post(
+    `${getTopstepApiUrl()}/Auth/loginKey`,
+    { username, apiKey },
+    {
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+    }
+  );
+  const data = response.data as {
+    token?: string | null;
+    success?: boolean;
+    errorMessage?: string | null;
+  };
+  if (!data.token) {
+    throw new Error(data.errorMessage || "Topstep login returned no token");
+  }
+  return data.token;
+}
+
+/**
+ * Fetches a new session token
+ * Concurrent callers share the same login request
+ */
+export function refreshSession(): Promise<string> {
+  if (!refreshing) {
+    lastRefreshAttempt = new Date();
+    refreshing = login()
+      .then((token) => {
+        session = { token, issuedAt: new Date() };
+        lastRefreshError = null;
+        consecutiveFailures = 0;
+        console.log("[AUTH] Topstep session token refreshed");
+        return token;
+      })
+      .catch((error) => {
+        lastRefreshError =
+          error instanceof Error ? error.message : String(error);
+        consecutiveFailures++;
+        console.error(
+          `[AUTH] Failed to refresh Topstep session token: ${lastRefreshError}`
+        );
+        throw error;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+/**
+ * Returns a session token, fetching a new one if there is none or it is due
+ * for a refresh
+ */
+export async function getSessionToken(): Promise<string> {
+  const current = currentSession();
+  if (current && !isRefreshDue(current)) {
+    return current.token;
+  }
+  return refreshSession();
+}
+
+/**
+ * Refreshes the token ahead of expiry; called on a schedule
+ * Failures are logged rather than thrown, and the current token stays in use
+ * until it expires
+ */
+export async function refreshSessionIfDue(): Promise<void> {
+  const current = currentSession();
+  if (!isTopstepConfigured() || (current && !isRefreshDue(current))) {
+    return;
+  }
+  try {
+    await refreshSession();
+  } catch {
+    // Already logged by refreshSession
+  }
+}
+
+/**
+ * Runs a Topstep call with the session token, re-authenticating and retrying
+ * once if it is rejected with a 401
+ * @param call Makes the request with the given token
+ */
+export async function withSession<T>(
+  call: (token: string) => Promise<T>
+): Promise<T> {
+  const token = await getSessionToken();
+  try {
+    return await call(token);
+  } catch (error) {
+    if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+      throw error;
+    }
+    unauthorizedRetries++;
+    console.warn("[AUTH] Topstep rejected the session token, logging in again");
+    // Another call may already have replaced the token that was rejected
+    const retryToken =
+      session && session.token !== token
+        ? session.token
+        : await refreshSession();
+    return call(retryToken);
+  }
+}
+
+/**
+ * Reports the state of the Topstep session for the status endpoint
+ */
+export function getSessionStatus(): SessionStatus {
+  const current = currentSession();
+  const expiresAt = current
+    ? new Date(current.issuedAt.getTime() + TOKEN_LIFETIME_MS)
+    : null;
+  return {
+    configured: isTopstepConfigured(),
+    authenticated: Boolean(expiresAt && expiresAt.getTime() > Date.now()),
+    issuedAt: current ? current.issuedAt.toISOString() : null,
+    expiresAt: expiresAt ? expiresAt.toISOString() : null,
+    refreshDueAt: current
+      ? new Date(current.issuedAt.getTime() + getRefreshAgeMs()).toISOString()
+      : null,
+    lastRefreshAttempt: lastRefreshAttempt
+      ? lastRefreshAttempt.toISOString()
+      : null,
+    lastRefreshError,
+    consecutiveFailures,
+    unauthorizedRetries,
+  };
+}
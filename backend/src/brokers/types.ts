@@ -0,0 +1,147 @@
+// Shared types for broker adapters
+//
+// Every broker the backend can trade through implements BrokerAdapter so the
+// webhook, sync jobs and dashboard routes can dispatch without knowing which
+// broker API sits behind them.
+
+export type OrderSide = "buy" | "sell";
+
+// Numeric for Topstep and paper orders, a transaction id string for Kraken
+export type OrderId = number | string;
+
+export type OrderType =
+  "market" | "limit" | "stop" | "stopLimit" | "trailingStop";
+
+export interface OrderRequest {
+  accountId?: number;
+  contractId: string;
+  side: OrderSide;
+  quantity: number;
+  type: OrderType;
+  // Required for limit and stopLimit orders
+  limitPrice?: number;
+  // Required for stop and stopLimit orders
+  stopPrice?: number;
+  // Trail distance in points, required for trailingStop orders
+  trailPrice?: number;
+  // Parent order this order belongs to, e.g. the entry of a bracket
+  linkedOrderId?: OrderId;
+  // Reference price from the alert, used by brokers that need one to fill
+  price?: number;
+  // Bracket stop loss price, placed as a linked exit once the entry is accepted
+  stopLoss?: number;
+  // Bracket take profit price, placed as a linked limit exit
+  takeProfit?: number;
+  // Makes the bracket stop loss a trailing stop with this trail distance
+  trailingStopLoss?: number;
+}
+
+export interface OrderChanges {
+  quantity?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailPrice?: number;
+}
+
+export interface OrderResult {
+  success: boolean;
+  orderId?: OrderId;
+  errorMessage?: string;
+  // Exit orders placed with the entry when it carried stopLoss/takeProfit
+  bracketOrderIds?: { stopLoss?: OrderId; takeProfit?: OrderId };
+  // Problems placing bracket legs; the entry itself was accepted
+  warnings?: string[];
+  // Untouched broker response, returned to callers for debugging
+  raw?: unknown;
+}
+
+// Lifecycle of an order:
+// pending -> working -> partiallyFilled -> filled, with cancelled and rejected
+// reachable until the order is filled
+export type OrderStatus =
+  | "pending"
+  | "working"
+  | "partiallyFilled"
+  | "filled"
+  | "cancelled"
+  | "rejected";
+
+// An order as reported by the broker, normalized to a row in the orders table
+export interface BrokerOrder {
+  broker: string;
+  accountId: number;
+  orderId: OrderId;
+  contractId: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  filledQuantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  linkedOrderId: OrderId | null;
+  status: OrderStatus;
+  creationTimestamp: string;
+  updateTimestamp: string;
+}
+
+// A single fill, normalized to the shape of a row in the trades table
+export interface BrokerTrade {
+  broker: string;
+  accountId: number;
+  contractId: string;
+  creationTimestamp: string;
+  price: number;
+  profitAndLoss: number | null;
+  fees: number;
+  side: OrderSide;
+  size: number;
+  orderId: OrderId;
+  // The broker's own id for the fill, where it has one
+  brokerTradeId?: string;
+}
+
+export interface BrokerAccount {
+  id: number;
+  name: string;
+  canTrade: boolean;
+}
+
+export interface BrokerContract {
+  id: string;
+  name: string;
+  description: string;
+  tickSize: number;
+  tickValue: number;
+  activeContract: boolean;
+}
+
+export interface BrokerAdapter {
+  // Lowercase identifier used in alerts and stored in trades.broker
+  readonly name: string;
+  // Set when fills carry no realized P&L; closing fills then get theirs
+  // worked out from the fills logged before them
+  readonly fillsWithoutPnl?: boolean;
+  // Account used when an order or sync does not name one
+  defaultAccountId(): number | undefined;
+  authenticate(): Promise<void>;
+  // Places the order and, when it carries stopLoss/takeProfit, its bracket
+  placeOrder(order: OrderRequest): Promise<OrderResult>;
+  modifyOrder(
+    accountId: number,
+    orderId: OrderId,
+    changes: OrderChanges
+  ): Promise<void>;
+  cancelOrder(accountId: number, orderId: OrderId): Promise<void>;
+  // Orders created since startTimestamp, in any state
+  searchOrders(
+    accountId: number,
+    startTimestamp: string
+  ): Promise<BrokerOrder[]>;
+  searchTrades(
+    accountId: number,
+    startTimestamp: string,
+    endTimestamp: string
+  ): Promise<BrokerTrade[]>;
+  listAccounts(): Promise<BrokerAccount[]>;
+  resolveContract(symbol: string): Promise<BrokerContract[]>;
+}
@@ -0,0 +1,280 @@
+// Contract specifications shared by the paper broker and the risk engine
+//
+// The contract registry maps root symbols such as NQ or MNQ to the contract
+// currently traded for them, so alerts can carry `symbol` instead of a dated
+// contract id. Dated futures (NQZ5, MNQH26) roll to the next listed month
+// CONTRACT_ROLL_DAYS before the third Friday of their contract month, either a
+// number of days (default 8) or a JSON map such as {"default": 8, "CL": 12}.
+// Resolved contracts keep their tick size and value, which also supply point
+// values for contracts missing from POINT_VALUES.
+import { BrokerAdapter, BrokerContract } from "./brokers";
+
+export interface RegisteredContract {
+  broker: string;
+  // Root symbol the contract was resolved from
+  symbol: string;
+  contractId: string;
+  name: string;
+  tickSize: number;
+  tickValue: number;
+  // When the registry moves on to the next contract, null if it never rolls
+  rollAt: string | null;
+  resolvedAt: string;
+}
+
+const MONTH_CODES = "FGHJKMNQUVXZ";
+
+// Undated contracts (spot pairs, paper symbols) are looked up again daily
+const REFRESH_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Front month per broker and root symbol, keyed `${broker}:${SYMBOL}`
+const registry = new Map<string, RegisteredContract>();
+// Tick specs of every contract seen, for point values
+const specsById = new Map<string, { tickSize: number; tickValue: number }>();
+
+/**
+ * Dollar value of a one point move for a contract
+ * Configured as POINT_VALUES={"CON.F.US.ENQ.U25": 20} in .env.local, otherwise
+ * taken from the contract's tick specs once resolved
+ * @returns Undefined when neither gives one
+ */
+export function findPointValue(contractId: string): number | undefined {
+  try {
+    const pointValues = JSON.parse(process.env.POINT_VALUES || "{}");
+    if (typeof pointValues[contractId] === "number") {
+      return pointValues[contractId];
+    }
+  } catch {
+    // Fall through to the tick specs
+  }
+  const spec = specsById.get(contractId);
+  return spec && spec.tickSize > 0 && spec.tickValue > 0
+    ? spec.tickValue / spec.tickSize
+    : undefined;
+}
+
+/**
+ * Dollar value of a one point move for a contract, 1 when it is not known
+ * Use resolvePointValue where a wrong value would understate risk
+ */
+export function getPointValue(contractId: string): number {
+  return findPointValue(contractId) ?? 1;
+}
+
+/**
+ * Point value of a contract, looking its tick specs up from the broker when
+ * they are not known yet
+ * @returns Undefined when the broker does not list the contract with tick specs
+ */
+export async function resolvePointValue(
+  adapter: BrokerAdapter,
+  contractId: string
+): Promise<number | undefined> {
+  const known = findPointValue(contractId);
+  if (known !== undefined) {
+    return known;
+  }
+  try {
+    const contracts = await adapter.resolveContract(contractId);
+    contracts.forEach((contract) =>
+      specsById.set(contract.id, {
+        tickSize: contract.tickSize,
+        tickValue: contract.tickValue,
+      })
+    );
+  } catch (error) {
+    console.warn(
+      `[CONTRACTS] Could not look up ${adapter.name} contract ${contractId}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  return findPointValue(contractId);
+}
+
+/**
+ * Tick size of a contract from its tick specs
+ * @returns Undefined until a symbol listing the contract has been resolved
+ */
+export function getTickSize(contractId: string): number | undefined {
+  const spec = specsById.get(contractId);
+  return spec && spec.tickSize > 0 ? spec.tickSize : undefined;
+}
+
+// Days before the third Friday of the contract month to roll a root symbol
+function getRollDays(symbol: string): number {
+  const setting = process.env.CONTRACT_ROLL_DAYS || "8";
+  try {
+    const parsed = JSON.parse(setting);
+    if (typeof parsed === "number") return parsed;
+    if (parsed && typeof parsed === "object") {
+      const days = parsed[symbol] ?? parsed.default;
+      return typeof days === "number" ? days : 8;
+    }
+  } catch {
+    console.warn("[CONTRACTS] CONTRACT_ROLL_DAYS is not valid, using 8");
+  }
+  return 8;
+}
+
+// Contract month of a dated futures name such as NQZ5 or NQZ25
+function parseContractMonth(
+  name: string,
+  symbol: string
+): { year: number; month: number } | null {
+  const match = name
+    .toUpperCase()
+    .match(/^([A-Z0-9]+?)([FGHJKMNQUVXZ])(\d{1,2})$/);
+  if (!match || match[1] !== symbol) return null;
+  const month = MONTH_CODES.indexOf(match[2]);
+  const currentYear = new Date().getUTCFullYear();
+  let year: number;
+  if (match[3].length === 2) {
+    year = 2000 + parseInt(match[3], 10);
+  } else {
+    // One digit years repeat every decade; take the nearest one not long past
+    year = Math.floor(currentYear / 10) * 10 + parseInt(match[3], 10);
+    if (year < currentYear - 1) year += 10;
+  }
+  return { year, month };
+}
+
+// Roll time of a contract month: the third Friday less the roll days, in UTC
+function getRollDate(
+  contractMonth: { year: number; month: number },
+  symbol: string
+): Date {
+  const first = new Date(Date.UTC(contractMonth.year, contractMonth.month, 1));
+  const firstFriday = 1 + ((5 - first.getUTCDay() + 7) % 7);
+  return new Date(
+    Date.UTC(
+      contractMonth.year,
+      contractMonth.month,
+      firstFriday + 14 - getRollDays(symbol)
+    )
+  );
+}
+
+// Picks the contract to trade from the ones a broker lists for a symbol
+function pickFrontMonth(
+  contracts: BrokerContract[],
+  symbol: string
+): { contract: BrokerContract; rollAt: Date | null } | null {
+  const now = Date.now();
+  const dated = contracts
+    .map((contract) => ({
+      contract,
+      contractMonth: parseContractMonth(contract.name, symbol),
+    }))
+    .filter((entry) => entry.contractMonth !== null)
+    .map((entry) => ({
+      contract: entry.contract,
+      rollAt: getRollDate(entry.contractMonth!, symbol),
+    }))
+    .filter((entry) => entry.rollAt.getTime() > now)
+    .sort((a, b) => a.rollAt.getTime() - b.rollAt.getTime());
+  if (dated.length > 0) {
+    return dated[0];
+  }
+  // Undated symbols, or a specific contract named directly
+  const contract =
+    contracts.find((candidate) => candidate.activeContract) ?? contracts[0];
+  return contract ? { contract, rollAt: null } : null;
+}
+
+function isDue(entry: RegisteredContract): boolean {
+  const now = Date.now();
+  if (entry.rollAt !== null) {
+    return new Date(entry.rollAt).getTime() <= now;
+  }
+  return now - new Date(entry.resolvedAt).getTime() >= REFRESH_AGE_MS;
+}
+
+async function registerSymbol(
+  adapter: BrokerAdapter,
+  symbol: string
+): Promise<RegisteredContract> {
+  const contracts = await adapter.resolveContract(symbol);
+  contracts.forEach((contract) =>
+    specsById.set(contract.id, {
+      tickSize: contract.tickSize,
+      tickValue: contract.tickValue,
+    })
+  );
+  const front = pickFrontMonth(contracts, symbol);
+  if (!front) {
+    throw new Error(`No ${adapter.name} contract found for symbol: ${symbol}`);
+  }
+  const key = `${adapter.name}:${symbol}`;
+  const previous = registry.get(key);
+  const entry: RegisteredContract = {
+    broker: adapter.name,
+    symbol,
+    contractId: front.contract.id,
+    name: front.contract.name,
+    tickSize: front.contract.tickSize,
+    tickValue: front.contract.tickValue,
+    rollAt: front.rollAt ? front.rollAt.toISOString() : null,
+    resolvedAt: new Date().toISOString(),
+  };
+  registry.set(key, entry);
+  if (previous && previous.contractId !== entry.contractId) {
+    console.log(
+      `[CONTRACTS] ${adapter.name} ${symbol} rolled from ${previous.name} to ${entry.name}`
+    );
+  } else if (!previous) {
+    console.log(
+      `[CONTRACTS] ${adapter.name} ${symbol} -> ${entry.name} (${entry.contractId})`
+    );
+  }
+  return entry;
+}
+
+/**
+ * Returns the contract currently traded for a root symbol, resolving it from
+ * the broker when it is not cached or is due to roll
+ * @throws When the broker lists no contract for the symbol
+ */
+export async function resolveSymbol(
+  adapter: BrokerAdapter,
+  symbol: string
+): Promise<RegisteredContract> {
+  const normalized = symbol.trim().toUpperCase();
+  const cached = registry.get(`${adapter.name}:${normalized}`);
+  if (cached && !isDue(cached)) {
+    return cached;
+  }
+  return registerSymbol(adapter, normalized);
+}
+
+/**
+ * Lists the registered contracts, for one broker or all of them
+ */
+export function getRegisteredContracts(broker?: string): RegisteredContract[] {
+  const entries = Array.from(registry.values());
+  return broker
+    ? entries.filter((entry) => entry.broker === broker.toLowerCase())
+    : entries;
+}
+
+/**
+ * Moves every registered symbol that is due onto its next contract; called on
+ * a schedule
+ * Failures are logged rather than thrown; the current contract stays in use
+ * @param getAdapter Looks up the adapter for a registered broker
+ */
+export async function rollDueContracts(
+  getAdapter: (broker: string) => BrokerAdapter | undefined
+): Promise<void> {
+  for (const entry of Array.from(registry.values())) {
+    const adapter = getAdapter(entry.broker);
+    if (!adapter || !isDue(entry)) continue;
+    try {
+      await registerSymbol(adapter, entry.symbol);
+    } catch (error) {
+      console.error(
+        `[CONTRACTS] Failed to roll ${entry.broker} ${entry.symbol}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
@@ -0,0 +1,163 @@
+// Duplicate alert suppression
+//
+// TradingView retries webhooks and can fire the same alert twice when
+// calc_on_every_tick is on. An alert's `idempotencyKey`, or a hash of the
+// normalized alert when it carries its bar `time`, identifies it; repeated
+// deliveries within WEBHOOK_DEDUPE_WINDOW_SECONDS get the original response
+// instead of placing another order. Alerts with neither are never treated as
+// repeats, since two identical alerts on different bars are both real.
+// Separately, SIGNAL_COOLDOWN_SECONDS blocks new orders for the same
+// strategy, account, contract and side in quick succession.
+import crypto from "crypto";
+import { tradesDb } from "../logger/db";
+import { TradingViewAlert } from "./alertSchema";
+
+export interface StoredResponse {
+  signalId: number;
+  // Null while the original delivery is still being processed
+  responseStatus: number | null;
+  responseBody: string | null;
+}
+
+export type IdempotencyClaim =
+  { claimed: true } | { claimed: false; original: StoredResponse };
+
+// Last accepted order time per strategy/broker/account/contract/side
+const lastOrderTimes = new Map<string, number>();
+
+function getDedupeWindowMs(): number {
+  return parseFloat(process.env.WEBHOOK_DEDUPE_WINDOW_SECONDS || "300") * 1000;
+}
+
+function getCooldownMs(): number {
+  return parseFloat(process.env.SIGNAL_COOLDOWN_SECONDS || "30") * 1000;
+}
+
+// JSON with sorted keys so the same payload always hashes the same way
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Returns the alert's own idempotency key, or one derived from the normalized
+ * alert so "Buy" and "buy" or 2 and "2" are the same alert
+ * The secret key is left out of the hash so rotating it does not matter
+ * @returns The key, or undefined for an alert with no key and no bar time
+ */
+export function getIdempotencyKey(alert: TradingViewAlert): string | undefined {
+  if (alert.idempotencyKey) {
+    return alert.idempotencyKey;
+  }
+  if (!alert.time) return undefined;
+  const hashed = { ...alert };
+  delete hashed.key;
+  return crypto
+    .createHash("sha256")
+    .update(canonicalJson(hashed))
+    .digest("hex");
+}
+
+/**
+ * Claims an idempotency key for a signal
+ * A key seen within the dedupe window stays with its original signal;
+ * an older key is handed over to the new one
+ * @returns Whether the key was claimed, or the original delivery it belongs to
+ */
+export function claimIdempotencyKey(
+  idempotencyKey: string,
+  signalId: number
+): Promise<IdempotencyClaim> {
+  const now = Date.now();
+  const windowStart = new Date(now - getDedupeWindowMs()).toISOString();
+  return new Promise((resolve, reject) => {
+    tradesDb.run(
+      `INSERT INTO idempotency_keys (idempotencyKey, signalId, createdAt)
+       VALUES (?, ?, ?)
+       ON CONFLICT(idempotencyKey) DO UPDATE SET
+         signalId = excluded.signalId,
+         createdAt = excluded.createdAt,
+         responseStatus = NULL,
+         responseBody = NULL
+       WHERE createdAt < ?`,
+      [idempotencyKey, signalId, new Date(now).toISOString(), windowStart],
+      function (err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        if (this.changes > 0) {
+          resolve({ claimed: true });
+          return;
+        }
+        tradesDb.get(
+          "SELECT signalId, responseStatus, responseBody FROM idempotency_keys WHERE idempotencyKey = ?",
+          [idempotencyKey],
+          (err, row: StoredResponse) => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve({ claimed: false, original: row });
+            }
+          }
+        );
+      }
+    );
+  });
+}
+
+/**
+ * Stores the response sent for a claimed key so retries can replay it
+ * Failures are logged rather than thrown so they never block the response
+ */
+export function storeIdempotentResponse(
+  idempotencyKey: string,
+  responseStatus: number,
+  responseBody: unknown
+): Promise<void> {
+  return new Promise((resolve) => {
+    tradesDb.run(
+      "UPDATE idempotency_keys SET responseStatus = ?, responseBody = ? WHERE idempotencyKey = ?",
+      [responseStatus, JSON.stringify(responseBody), idempotencyKey],
+      (err) => {
+        if (err) {
+          console.error(
+            "[DB] Failed to store idempotent response:",
+            err.message
+          );
+        }
+        resolve();
+      }
+    );
+  });
+}
+
+/**
+ * Checks whether a new order for the same strategy, account, contract and
+ * side is still cooling down
+ * @returns Seconds left in the cooldown, or 0 if the order may go ahead
+ */
+export function getCooldownRemaining(cooldownKey: string): number {
+  const last = lastOrderTimes.get(cooldownKey);
+  if (last === undefined) return 0;
+  const remaining = last + getCooldownMs() - Date.now();
+  return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+}
+
+/**
+ * Starts the cooldown for an order that was just placed
+ */
+export function startCooldown(cooldownKey: string) {
+  lastOrderTimes.set(cooldownKey, Date.now());
+}
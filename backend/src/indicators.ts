@@ -0,0 +1,305 @@
+// Technical indicators
+//
+// TypeScript equivalents of the Pine built-ins the strategies use: ta.sma,
+// ta.ema, ta.rma, ta.highest, ta.lowest, ta.tr, ta.atr, ta.dmi and a
+// session-anchored ta.vwap. Each is a streaming class updated once per closed
+// bar, and a batch function over a whole series that runs the same class, so
+// live signals, sizing and backtests all get identical values. Definitions
+// follow Pine: EMA and RMA are seeded with the SMA of their first `length`
+// inputs, and values are NaN (Pine's na) until there is enough data, so
+// comparisons against them are false as they are in Pine.
+import { Bar } from "./strategies/types";
+
+interface Indicator<Input, Output = number> {
+  update(input: Input): Output;
+}
+
+/**
+ * ta.sma: NaN until `length` values, and while any value in the window is NaN
+ */
+export class Sma implements Indicator<number> {
+  private values: number[] = [];
+  private sum = 0;
+  private nans = 0;
+
+  constructor(private readonly length: number) {}
+
+  update(value: number): number {
+    this.values.push(value);
+    if (isNaN(value)) this.nans++;
+    else this.sum += value;
+    if (this.values.length > this.length) {
+      const dropped = this.values.shift()!;
+      if (isNaN(dropped)) this.nans--;
+      else this.sum -= dropped;
+    }
+    return this.values.length === this.length && this.nans === 0
+      ? this.sum / this.length
+      : NaN;
+  }
+}
+
+// Exponential smoothing seeded with an SMA; NaN inputs after the seed keep
+// the last value
+class Smoothed implements Indicator<number> {
+  private seed: Sma;
+  private value = NaN;
+
+  constructor(
+    length: number,
+    private readonly alpha: number
+  ) {
+    this.seed = new Sma(length);
+  }
+
+  update(input: number): number {
+    if (isNaN(this.value)) {
+      this.value = this.seed.update(input);
+    } else if (!isNaN(input)) {
+      this.value = this.alpha * input + (1 - this.alpha) * this.value;
+    }
+    return this.value;
+  }
+}
+
+/**
+ * ta.ema: alpha 2 / (length + 1)
+ */
+export class Ema extends Smoothed {
+  constructor(length: number) {
+    super(length, 2 / (length + 1));
+  }
+}
+
+/**
+ * ta.rma, Wilder's smoothing: alpha 1 / length
+ */
+export class Rma extends Smoothed {
+  constructor(length: number) {
+    super(length, 1 / length);
+  }
+}
+
+// Largest or smallest of the last `length` values
+class Extreme implements Indicator<number> {
+  private values: number[] = [];
+
+  constructor(
+    private readonly length: number,
+    private readonly pick: (...values: number[]) => number
+  ) {}
+
+  update(value: number): number {
+    this.values.push(value);
+    if (this.values.length > this.length) this.values.shift();
+    return this.values.length === this.length ? this.pick(...this.values) : NaN;
+  }
+}
+
+/**
+ * ta.highest over the last `length` values, the current one included
+ */
+export class Highest extends Extreme {
+  constructor(length: number) {
+    super(length, Math.max);
+  }
+}
+
+/**
+ * ta.lowest over the last `length` values, the current one included
+ */
+export class Lowest extends Extreme {
+  constructor(length: number) {
+    super(length, Math.min);
+  }
+}
+
+/**
+ * ta.tr: NaN on the first bar, or the bar's range with handleNa as ta.tr(true)
+ */
+export class TrueRange implements Indicator<Bar> {
+  private previousClose = NaN;
+
+  constructor(private readonly handleNa = false) {}
+
+  update(bar: Bar): number {
+    const previousClose = this.previousClose;
+    this.previousClose = bar.close;
+    if (isNaN(previousClose)) {
+      return this.handleNa ? bar.high - bar.low : NaN;
+    }
+    return Math.max(
+      bar.high - bar.low,
+      Math.abs(bar.high - previousClose),
+      Math.abs(bar.low - previousClose)
+    );
+  }
+}
+
+/**
+ * ta.atr: RMA of the true range, counting the first bar's range
+ */
+export class Atr implements Indicator<Bar> {
+  private trueRange = new TrueRange(true);
+  private average: Rma;
+
+  constructor(length: number) {
+    this.average = new Rma(length);
+  }
+
+  update(bar: Bar): number {
+    return this.average.update(this.trueRange.update(bar));
+  }
+}
+
+export interface DmiValue {
+  plusDI: number;
+  minusDI: number;
+  adx: number;
+}
+
+/**
+ * ta.dmi(diLength, adxSmoothing): directional indicators and ADX
+ */
+export class Dmi implements Indicator<Bar, DmiValue> {
+  private trueRange = new TrueRange();
+  private range: Rma;
+  private plusDm: Rma;
+  private minusDm: Rma;
+  private adx: Rma;
+  private previous: Bar | undefined;
+  private plus = NaN;
+  private minus = NaN;
+
+  constructor(diLength: number, adxSmoothing: number) {
+    this.range = new Rma(diLength);
+    this.plusDm = new Rma(diLength);
+    this.minusDm = new Rma(diLength);
+    this.adx = new Rma(adxSmoothing);
+  }
+
+  update(bar: Bar): DmiValue {
+    const up = this.previous ? bar.high - this.previous.high : NaN;
+    const down = this.previous ? this.previous.low - bar.low : NaN;
+    this.previous = bar;
+    const range = this.range.update(this.trueRange.update(bar));
+    const plusDm = this.plusDm.update(
+      isNaN(up) ? NaN : up > down && up > 0 ? up : 0
+    );
+    const minusDm = this.minusDm.update(
+      isNaN(down) ? NaN : down > up && down > 0 ? down : 0
+    );
+    // fixnan: keep the last value when the new one is NaN
+    const plus = (100 * plusDm) / range;
+    const minus = (100 * minusDm) / range;
+    if (!isNaN(plus)) this.plus = plus;
+    if (!isNaN(minus)) this.minus = minus;
+    const sum = this.plus + this.minus;
+    return {
+      plusDI: this.plus,
+      minusDI: this.minus,
+      adx: this.adx.update(
+        (100 * Math.abs(this.plus - this.minus)) / (sum === 0 ? 1 : sum)
+      ),
+    };
+  }
+}
+
+const chicagoFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: "America/Chicago",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+/**
+ * Chicago time of day of a bar, and its CME trading day, which starts at
+ * 17:00 CT the evening before (Pine's time("D") on CME futures)
+ * @returns Minutes after midnight Chicago time, and the trading day as
+ * YYYY-MM-DD
+ */
+export function chicagoClock(time: number): {
+  minutes: number;
+  tradingDay: string;
+} {
+  const parts: Record<string, number> = {};
+  for (const part of chicagoFormat.formatToParts(new Date(time))) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  const tradingDay = new Date(
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day + (parts.hour >= 17 ? 1 : 0)
+    )
+  )
+    .toISOString()
+    .slice(0, 10);
+  return { minutes: parts.hour * 60 + parts.minute, tradingDay };
+}
+
+/**
+ * ta.vwap on hlc3, restarting whenever the session changes
+ */
+export class SessionVwap implements Indicator<Bar> {
+  private session: string | undefined;
+  private priceVolume = 0;
+  private volume = 0;
+
+  // Names the session a bar belongs to; defaults to the CME trading day
+  constructor(
+    private readonly sessionOf: (bar: Bar) => string = (bar) =>
+      chicagoClock(bar.time).tradingDay
+  ) {}
+
+  update(bar: Bar): number {
+    const session = this.sessionOf(bar);
+    if (session !== this.session) {
+      this.session = session;
+      this.priceVolume = 0;
+      this.volume = 0;
+    }
+    this.priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    this.volume += bar.volume;
+    return this.volume > 0 ? this.priceVolume / this.volume : NaN;
+  }
+}
+
+// Batch versions: one value per input, computed by the streaming class
+
+function series<Input, Output>(
+  inputs: Input[],
+  indicator: Indicator<Input, Output>
+): Output[] {
+  return inputs.map((input) => indicator.update(input));
+}
+
+export const sma = (values: number[], length: number) =>
+  series(values, new Sma(length));
+
+export const ema = (values: number[], length: number) =>
+  series(values, new Ema(length));
+
+export const rma = (values: number[], length: number) =>
+  series(values, new Rma(length));
+
+export const highest = (values: number[], length: number) =>
+  series(values, new Highest(length));
+
+export const lowest = (values: number[], length: number) =>
+  series(values, new Lowest(length));
+
+export const trueRange = (bars: Bar[], handleNa = false) =>
+  series(bars, new TrueRange(handleNa));
+
+export const atr = (bars: Bar[], length: number) =>
+  series(bars, new Atr(length));
+
+export const dmi = (bars: Bar[], diLength: number, adxSmoothing: number) =>
+  series(bars, new Dmi(diLength, adxSmoothing));
+
+export const vwap = (bars: Bar[], sessionOf?: (bar: Bar) => string) =>
+  series(bars, new SessionVwap(sessionOf));
@@ -0,0 +1,120 @@
+// Optimization results
+//
+// `npm run optimize` stores each search in the optimizations table, with its
+// ranked runs and walk-forward windows as JSON, so they can be reviewed in
+// the dashboard.
+import { tradesDb } from "../logger/db";
+import { OptimizationResult } from "./backtest/optimizer";
+
+// A stored search without its runs
+export interface OptimizationSummary {
+  id: number;
+  createdAt: string;
+  name: string | null;
+  strategy: string;
+  method: string;
+  contractId: string;
+  barsFrom: string | null;
+  barsTo: string | null;
+  bars: number;
+  runs: number;
+  walkForward: boolean;
+}
+
+export type StoredOptimization = OptimizationSummary & {
+  result: OptimizationResult;
+};
+
+const SUMMARY_COLUMNS =
+  "id, createdAt, name, strategy, method, contractId, barsFrom, barsTo, bars, runs, walkForward";
+
+function toSummary(row: Record<string, unknown>): OptimizationSummary {
+  return {
+    ...(row as unknown as OptimizationSummary),
+    walkForward: row.walkForward === 1,
+  };
+}
+
+/**
+ * Stores the result of a search
+ * @param name Label shown in the dashboard
+ * @returns Id of the stored search
+ */
+export function saveOptimization(
+  result: OptimizationResult,
+  name?: string
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    tradesDb.run(
+      `INSERT INTO optimizations (
+        createdAt, name, strategy, method, contractId, barsFrom, barsTo,
+        bars, runs, walkForward, result
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        new Date().toISOString(),
+        name ?? null,
+        result.strategy,
+        result.method,
+        result.contractId,
+        result.from,
+        result.to,
+        result.bars,
+        result.runs.length,
+        result.walkForward ? 1 : 0,
+        JSON.stringify(result),
+      ],
+      function (err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Lists stored searches, newest first
+ */
+export function listOptimizations(): Promise<OptimizationSummary[]> {
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      `SELECT ${SUMMARY_COLUMNS} FROM optimizations ORDER BY id DESC`,
+      (err, rows: Record<string, unknown>[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve((rows || []).map(toSummary));
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Returns a stored search with its results
+ * @returns Undefined when no search has the id
+ */
+export function getOptimization(
+  id: number
+): Promise<StoredOptimization | undefined> {
+  return new Promise((resolve, reject) => {
+    tradesDb.get(
+      `SELECT ${SUMMARY_COLUMNS}, result FROM optimizations WHERE id = ?`,
+      [id],
+      (err, row: Record<string, unknown> | undefined) => {
+        if (err) {
+          reject(err);
+        } else if (!row) {
+          resolve(undefined);
+        } else {
+          resolve({
+            ...toSummary(row),
+            result: JSON.parse(String(row.result)),
+          });
+        }
+      }
+    );
+  });
+}
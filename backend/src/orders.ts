@@ -0,0 +1,354 @@
+// Order tracking
+//
+// Every order placed through the backend is stored in the orders table as
+// soon as it is sent (pending) and moved through its lifecycle from the place
+// response and from polling the broker's order search. Orders the broker
+// reports that were not placed here (bracket exits, manual orders) are picked
+// up by the same polling.
+import { tradesDb } from "../logger/db";
+import {
+  BrokerOrder,
+  OrderId,
+  OrderRequest,
+  OrderResult,
+  OrderStatus,
+} from "./brokers";
+
+export interface TrackedOrder {
+  id: number;
+  broker: string;
+  accountId: number | null;
+  // Null until the broker has accepted the order
+  orderId: OrderId | null;
+  contractId: string;
+  side: string;
+  type: string;
+  quantity: number;
+  filledQuantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  linkedOrderId: OrderId | null;
+  status: OrderStatus;
+  statusReason: string | null;
+  signalId: number | null;
+  creationTimestamp: string;
+  updateTimestamp: string;
+}
+
+export interface OrderFilters {
+  broker?: string;
+  statuses?: string[];
+  limit: number;
+}
+
+// States an order may move to from each state; terminal states have none
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["working", "partiallyFilled", "filled", "cancelled", "rejected"],
+  working: ["partiallyFilled", "filled", "cancelled", "rejected"],
+  partiallyFilled: ["partiallyFilled", "filled", "cancelled"],
+  filled: [],
+  cancelled: [],
+  rejected: [],
+};
+
+export const OPEN_ORDER_STATUSES: OrderStatus[] = [
+  "pending",
+  "working",
+  "partiallyFilled",
+];
+
+/**
+ * Checks whether an order may move from one state to another
+ * Staying in the same non-terminal state is allowed so details can be refreshed
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return (
+    ORDER_TRANSITIONS[from].includes(to) ||
+    (from === to && ORDER_TRANSITIONS[from].length > 0)
+  );
+}
+
+/**
+ * Turns an order id read from the database back into the broker's form
+ * Ids are stored as text; Topstep, IBKR and paper ids are numbers
+ */
+export function toOrderId(value: OrderId | null): OrderId | null {
+  return typeof value === "string" && /^\d+$/.test(value)
+    ? Number(value)
+    : value;
+}
+
+/**
+ * Binds an order id for the text columns
+ * sqlite3 binds integers beyond 32 bits as reals, which text would keep as "123.0"
+ */
+export function orderIdParam(value: OrderId | null | undefined): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function fromRow(row: TrackedOrder): TrackedOrder {
+  return {
+    ...row,
+    orderId: toOrderId(row.orderId),
+    linkedOrderId: toOrderId(row.linkedOrderId),
+  };
+}
+
+function getOrderRow(id: number): Promise<TrackedOrder | undefined> {
+  return new Promise((resolve, reject) => {
+    tradesDb.get(
+      "SELECT * FROM orders WHERE id = ?",
+      [id],
+      (err, row: TrackedOrder | undefined) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row && fromRow(row));
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Looks up a tracked order by its broker order id
+ */
+export function getOrder(
+  broker: string,
+  orderId: OrderId
+): Promise<TrackedOrder | undefined> {
+  return new Promise((resolve, reject) => {
+    tradesDb.get(
+      "SELECT * FROM orders WHERE broker = ? AND orderId = ?",
+      [broker, orderIdParam(orderId)],
+      (err, row: TrackedOrder | undefined) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row && fromRow(row));
+        }
+      }
+    );
+  });
+}
+
+function updateOrderRow(
+  id: number,
+  changes: Partial<Omit<TrackedOrder, "id">>
+): Promise<void> {
+  const columns = Object.keys(changes) as (keyof typeof changes)[];
+  return new Promise((resolve, reject) => {
+    tradesDb.run(
+      `UPDATE orders SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE id = ?`,
+      [
+        ...columns.map((column) =>
+          column === "orderId" || column === "linkedOrderId"
+            ? orderIdParam(changes[column])
+            : (changes[column] ?? null)
+        ),
+        id,
+      ],
+      (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Stores an order that is about to be sent to a broker
+ * @param signalId Signal the order was placed for, if any
+ * @returns Id of the tracked order
+ */
+export function createPendingOrder(
+  broker: string,
+  order: OrderRequest,
+  signalId?: number
+): Promise<number> {
+  const now = new Date().toISOString();
+  return new Promise((resolve, reject) => {
+    tradesDb.run(
+      `INSERT INTO orders (
+        broker, accountId, contractId, side, type, quantity, limitPrice,
+        stopPrice, status, signalId, creationTimestamp, updateTimestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)`,
+      [
+        broker,
+        order.accountId ?? null,
+        order.contractId,
+        order.side,
+        order.type,
+        order.quantity,
+        order.limitPrice ?? null,
+        order.stopPrice ?? null,
+        signalId ?? null,
+        now,
+        now,
+      ],
+      function (err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Moves a pending order to working or rejected based on the broker's response
+ * Failures are logged rather than thrown so they never block order handling
+ * @param id Id from createPendingOrder
+ * @param result The broker's response, or the error thrown while placing
+ */
+export async function recordPlaceResult(
+  id: number,
+  result: OrderResult | Error
+): Promise<TrackedOrder | undefined> {
+  try {
+    const accepted = !(result instanceof Error) && result.success;
+    const reason =
+      result instanceof Error
+        ? result.message
+        : (result.errorMessage ?? (accepted ? null : "Rejected by broker"));
+    await updateOrderRow(id, {
+      orderId:
+        !(result instanceof Error) && result.orderId !== undefined
+          ? result.orderId
+          : null,
+      status: accepted ? "working" : "rejected",
+      statusReason: reason,
+      updateTimestamp: new Date().toISOString(),
+    });
+    return await getOrderRow(id);
+  } catch (error) {
+    console.error(
+      `[DB] Failed to record place result for order ${id}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Applies the state of an order reported by a broker
+ * Orders not seen before are added; updates that would move an order
+ * backwards (e.g. a stale working status for a filled order) are ignored
+ * @returns The updated order, or undefined if nothing changed
+ */
+export async function applyOrderUpdate(
+  update: BrokerOrder,
+  statusReason?: string
+): Promise<TrackedOrder | undefined> {
+  const existing = await getOrder(update.broker, update.orderId);
+  if (!existing) {
+    const id = await new Promise<number>((resolve, reject) => {
+      tradesDb.run(
+        `INSERT INTO orders (
+          broker, accountId, orderId, contractId, side, type, quantity,
+          filledQuantity, limitPrice, stopPrice, linkedOrderId, status,
+          statusReason, creationTimestamp, updateTimestamp
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          update.broker,
+          update.accountId,
+          orderIdParam(update.orderId),
+          update.contractId,
+          update.side,
+          update.type,
+          update.quantity,
+          update.filledQuantity,
+          update.limitPrice,
+          update.stopPrice,
+          orderIdParam(update.linkedOrderId),
+          update.status,
+          statusReason ?? null,
+          update.creationTimestamp,
+          update.updateTimestamp,
+        ],
+        function (err) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(this.lastID);
+          }
+        }
+      );
+    });
+    return getOrderRow(id);
+  }
+
+  if (!canTransition(existing.status, update.status)) {
+    if (existing.status !== update.status) {
+      console.warn(
+        `[ORDER] Ignoring ${update.broker} order ${update.orderId} moving from ${existing.status} to ${update.status}`
+      );
+    }
+    return undefined;
+  }
+  const unchanged =
+    existing.status === update.status &&
+    existing.quantity === update.quantity &&
+    existing.filledQuantity === update.filledQuantity &&
+    existing.limitPrice === update.limitPrice &&
+    existing.stopPrice === update.stopPrice;
+  if (unchanged) {
+    return undefined;
+  }
+
+  await updateOrderRow(existing.id, {
+    accountId: update.accountId,
+    quantity: update.quantity,
+    filledQuantity: update.filledQuantity,
+    limitPrice: update.limitPrice,
+    stopPrice: update.stopPrice,
+    linkedOrderId: update.linkedOrderId ?? existing.linkedOrderId,
+    status: update.status,
+    statusReason: statusReason ?? existing.statusReason,
+    updateTimestamp: update.updateTimestamp,
+  });
+  if (existing.status !== update.status) {
+    console.log(
+      `[ORDER] ${update.broker} order ${update.orderId}: ${existing.status} -> ${update.status}`
+    );
+  }
+  return getOrderRow(existing.id);
+}
+
+/**
+ * Lists tracked orders, newest first
+ */
+export function listOrders(filters: OrderFilters): Promise<TrackedOrder[]> {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filters.broker) {
+    conditions.push("broker = ?");
+    params.push(filters.broker.toLowerCase());
+  }
+  if (filters.statuses && filters.statuses.length > 0) {
+    conditions.push(
+      `status IN (${filters.statuses.map(() => "?").join(", ")})`
+    );
+    params.push(...filters.statuses);
+  }
+  const where =
+    conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      `SELECT * FROM orders${where} ORDER BY creationTimestamp DESC, id DESC LIMIT ?`,
+      [...params, filters.limit],
+      (err, rows: TrackedOrder[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve((rows || []).map(fromRow));
+        }
+      }
+    );
+  });
+}
@@ -0,0 +1,144 @@
+// Live positions
+//
+// Folds every fill in the trades table, opening legs included, into a net
+// quantity and average entry price per broker, account and contract. The
+// positions are rebuilt from the table on startup and kept current as new
+// fills are logged.
+import { tradesDb } from "../logger/db";
+import { BrokerTrade } from "./brokers";
+import { getPointValue } from "./contracts";
+
+export interface Position {
+  broker: string;
+  accountId: number;
+  contractId: string;
+  // Signed quantity: positive when long, negative when short
+  quantity: number;
+  // Average entry price of the open quantity, 0 when flat
+  averagePrice: number;
+  // Realized P&L reported by the broker on closing fills, before fees
+  realizedPnL: number;
+  fees: number;
+  updatedAt: string;
+}
+
+export interface AccountExposure {
+  broker: string;
+  accountId: number;
+  // Sum of long minus short notional, in dollars
+  netExposure: number;
+  // Sum of long and short notional, in dollars
+  grossExposure: number;
+  openPositions: number;
+}
+
+const positions = new Map<string, Position>();
+
+function positionKey(broker: string, accountId: number, contractId: string) {
+  return `${broker}:${accountId}:${contractId}`;
+}
+
+/**
+ * Folds a fill into its position
+ * @returns The updated position
+ */
+export function applyFillToPosition(fill: BrokerTrade): Position {
+  const key = positionKey(fill.broker, fill.accountId, fill.contractId);
+  const position = positions.get(key) ?? {
+    broker: fill.broker,
+    accountId: fill.accountId,
+    contractId: fill.contractId,
+    quantity: 0,
+    averagePrice: 0,
+    realizedPnL: 0,
+    fees: 0,
+    updatedAt: fill.creationTimestamp,
+  };
+  const signedQty = fill.side === "buy" ? fill.size : -fill.size;
+  const newQty = position.quantity + signedQty;
+
+  if (
+    position.quantity === 0 ||
+    Math.sign(position.quantity) === Math.sign(signedQty)
+  ) {
+    // Opening or adding to a position moves the average price
+    position.averagePrice =
+      (position.averagePrice * Math.abs(position.quantity) +
+        fill.price * fill.size) /
+      Math.abs(newQty);
+  } else if (newQty === 0) {
+    position.averagePrice = 0;
+  } else if (Math.sign(newQty) === Math.sign(signedQty)) {
+    // Flipped through flat: the remainder opens at the fill price
+    position.averagePrice = fill.price;
+  }
+  position.quantity = newQty;
+  position.realizedPnL += fill.profitAndLoss ?? 0;
+  position.fees += fill.fees;
+  position.updatedAt = fill.creationTimestamp;
+
+  positions.set(key, position);
+  return { ...position };
+}
+
+/**
+ * Rebuilds every position from the fills in the trades table
+ * Failures are logged rather than thrown so they never block startup
+ */
+export function rebuildPositions(): Promise<void> {
+  return new Promise((resolve) => {
+    tradesDb.all(
+      "SELECT * FROM trades ORDER BY creationTimestamp ASC",
+      (err, rows: BrokerTrade[]) => {
+        if (err) {
+          console.error("[DB] Failed to rebuild positions:", err.message);
+          resolve();
+          return;
+        }
+        positions.clear();
+        for (const fill of rows || []) {
+          applyFillToPosition(fill);
+        }
+        console.log(
+          `[POSITIONS] Rebuilt ${positions.size} positions from ${(rows || []).length} fills`
+        );
+        resolve();
+      }
+    );
+  });
+}
+
+/**
+ * Returns positions, open ones only unless includeFlat is set
+ */
+export function getPositions(includeFlat = false): Position[] {
+  return Array.from(positions.values())
+    .filter((position) => includeFlat || position.quantity !== 0)
+    .map((position) => ({ ...position }));
+}
+
+/**
+ * Sums the notional value of open positions per broker and account
+ */
+export function getAccountExposure(): AccountExposure[] {
+  const accounts = new Map<string, AccountExposure>();
+  for (const position of getPositions()) {
+    const key = `${position.broker}:${position.accountId}`;
+    const account = accounts.get(key) ?? {
+      broker: position.broker,
+      accountId: position.accountId,
+      netExposure: 0,
+      grossExposure: 0,
+      openPositions: 0,
+    };
+    const notional =
+      position.quantity *
+      position.averagePrice *
+      getPointValue(position.contractId);
+    account.netExposure += notional;
+    account.grossExposure += Math.abs(notional);
+    account.openPositions++;
+    accounts.set(key, account);
+  }
+  return Array.from(accounts.values());
+}
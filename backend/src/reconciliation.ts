@@ -0,0 +1,752 @@
+// Live vs expected reconciliation
+//
+// Lines up the round trips actually traded, rebuilt from the trades table,
+// with what the strategy meant to trade, taken from one of two sources:
+//
+// - signals: each fill is traced to the signal behind its order, or behind
+//   the entry order of its bracket. A signal's order expects its limit or stop
+//   price, or the alert's price for market orders, and bracket exits expect
+//   their stop or target price. Valid signals that never filled are missed,
+//   and fills no signal explains are extra.
+// - backtest: the strategy runs over Topstep bars for the same period, without
+//   simulated slippage, and each of its trades is matched to the nearest live
+//   trip of the same direction entered within the tolerance (one bar by
+//   default). Unmatched backtest trades are missed entries and unmatched live
+//   trips are extra fills.
+//
+// Slippage is in ticks, positive when a fill was worse than expected, and P&L
+// differences are actual less expected.
+import { tradesDb } from "../logger/db";
+import { parseAlert, TradingViewAlert } from "./alertSchema";
+import { runBacktest } from "./backtest/engine";
+import { retrieveTopstepBars } from "./brokers/topstep";
+import {
+  getPointValue,
+  getRegisteredContracts,
+  getTickSize,
+} from "./contracts";
+import { buildRoundTrips, RoundTrip, RoundTripLeg } from "./roundTrips";
+import { Signal } from "./signals";
+import { getStrategy } from "./strategies";
+import { parseTradeFilters, StoredTrade, TradeFilters } from "./trades";
+
+export type ReconciliationSource = "signals" | "backtest";
+
+export interface ReconciliationOptions {
+  source: ReconciliationSource;
+  // Broker, account, contract, strategy and the from/to period; trips are
+  // picked by entry time
+  filters: TradeFilters;
+  // Overrides the tick size from the contract registry
+  tickSize?: number;
+  // Backtest source: strategy from the registry and its parameters
+  strategy: string;
+  params: Record<string, unknown>;
+  barMinutes: number;
+  // Bars before the period that prime the indicators
+  warmupBars: number;
+  // Largest gap between a backtest entry and a live one it matches
+  toleranceMinutes: number;
+}
+
+// Expected and actual entry or exit of a trade
+export interface ReconciledExecution {
+  expectedTime: string | null;
+  expectedPrice: number | null;
+  actualTime: string | null;
+  actualPrice: number | null;
+  // Positive when the actual price was worse, null when either is unknown
+  slippageTicks: number | null;
+}
+
+export type ReconciliationStatus = "matched" | "missed" | "extra";
+
+export interface ReconciledTrade {
+  status: ReconciliationStatus;
+  contractId: string;
+  // Null for missed trades
+  accountId: number | null;
+  strategy: string | null;
+  // For a missed signal, the side of its order
+  direction: "long" | "short";
+  expectedQuantity: number | null;
+  actualQuantity: number | null;
+  entry: ReconciledExecution;
+  // Null until the trade closes on both sides
+  exit: ReconciledExecution | null;
+  // Net of fees; null while open or when a price is not known
+  expectedPnl: number | null;
+  actualPnl: number | null;
+  pnlDifference: number | null;
+  // Null for missed trades
+  roundTripId: string | null;
+  // Signals the trade's fills were traced to
+  signalIds: number[];
+  // Fills of the trade nothing expected
+  extraFills: number;
+}
+
+export interface ReconciliationSummary {
+  expectedTrades: number;
+  matchedTrades: number;
+  missedEntries: number;
+  extraTrades: number;
+  extraFills: number;
+  // Quantity-weighted over the trades where slippage is known
+  averageEntrySlippageTicks: number | null;
+  averageExitSlippageTicks: number | null;
+  // Over the trades where each is known
+  expectedPnl: number;
+  actualPnl: number;
+  pnlDifference: number;
+}
+
+export interface ReconciliationReport {
+  source: ReconciliationSource;
+  from: string;
+  to: string;
+  summary: ReconciliationSummary;
+  // Most recent entry first
+  trades: ReconciledTrade[];
+}
+
+// Trade the backtest expects; exits are null while it is open
+interface ExpectedTrade {
+  direction: "long" | "short";
+  quantity: number;
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string | null;
+  exitPrice: number | null;
+  netPnl: number | null;
+}
+
+// A fill with the order and signal it came from
+type TracedFill = StoredTrade & {
+  orderSignalId: number | null;
+  parentSignalId: number | null;
+  limitPrice: number | null;
+  stopPrice: number | null;
+};
+
+// A signal with the accounts and contract its orders went to
+type OrderedSignal = Signal & {
+  orderAccounts: string | null;
+  orderContract: string | null;
+};
+
+const DEFAULT_PERIOD_DAYS = 7;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Alert price of a signal
+// The alert behind a signal as the webhook read it, with aliases, case and
+// numeric strings normalized; undefined if it no longer parses
+function signalAlert(signal: Signal): TradingViewAlert | undefined {
+  const parsed = parseAlert(
+    { broker: signal.broker, ...JSON.parse(signal.payload) },
+    { requireKey: false }
+  );
+  return "alert" in parsed ? parsed.alert : undefined;
+}
+
+function signalPrice(signal: Signal): number | null {
+  return signalAlert(signal)?.price ?? null;
+}
+
+/**
+ * Reads reconciliation options from query parameters: the trade history
+ * filters plus source, tickSize, and for the backtest source strategy,
+ * params, barMinutes, warmupBars and toleranceMinutes
+ * @returns The options, or a message describing the first invalid parameter
+ */
+export function parseReconciliationOptions(
+  query: Record<string, unknown>
+): { options: ReconciliationOptions } | { error: string } {
+  const parsed = parseTradeFilters(query);
+  if ("error" in parsed) {
+    return parsed;
+  }
+  const filters = parsed.filters;
+  filters.to = filters.to ?? new Date().toISOString();
+  filters.from =
+    filters.from ??
+    new Date(
+      new Date(filters.to).getTime() - DEFAULT_PERIOD_DAYS * 86400000
+    ).toISOString();
+
+  const source = query.source ?? "signals";
+  if (source !== "signals" && source !== "backtest") {
+    return { error: "source must be signals or backtest" };
+  }
+  const numbers: Record<string, number | undefined> = {};
+  for (const name of [
+    "tickSize",
+    "barMinutes",
+    "warmupBars",
+    "toleranceMinutes",
+  ]) {
+    if (query[name] === undefined || query[name] === "") continue;
+    const value = Number(query[name]);
+    if (!Number.isFinite(value) || value <= 0) {
+      return { error: `${name} must be a positive number` };
+    }
+    numbers[name] = value;
+  }
+  const barMinutes = numbers.barMinutes ?? 5;
+  const options: ReconciliationOptions = {
+    source,
+    filters,
+    tickSize: numbers.tickSize,
+    strategy:
+      typeof query.strategy === "string" && query.strategy !== ""
+        ? query.strategy
+        : "trend-following",
+    params: {},
+    barMinutes,
+    warmupBars: numbers.warmupBars ?? 300,
+    toleranceMinutes: numbers.toleranceMinutes ?? barMinutes,
+  };
+
+  if (source === "backtest") {
+    if (!filters.contractId) {
+      return { error: "contractId is required for the backtest source" };
+    }
+    if (!getStrategy(options.strategy)) {
+      return { error: `Unknown strategy "${options.strategy}"` };
+    }
+    if (!(options.tickSize ?? getTickSize(filters.contractId))) {
+      return {
+        error: `No tick size known for ${filters.contractId}; pass tickSize`,
+      };
+    }
+    if (typeof query.params === "string" && query.params !== "") {
+      try {
+        options.params = JSON.parse(query.params);
+      } catch {
+        return { error: "params must be JSON" };
+      }
+    }
+  }
+  return { options };
+}
+
+// Quantity-weighted average, null when any value is unknown
+function weightedAverage(
+  entries: { value: number | null; weight: number }[]
+): number | null {
+  const weight = entries.reduce((total, entry) => total + entry.weight, 0);
+  if (weight <= 0 || entries.some((entry) => entry.value === null)) {
+    return null;
+  }
+  return (
+    entries.reduce((total, entry) => total + entry.value! * entry.weight, 0) /
+    weight
+  );
+}
+
+function toExecution(
+  direction: "long" | "short",
+  entering: boolean,
+  expected: { time: string | null; price: number | null },
+  actual: { time: string | null; price: number | null },
+  tickSize: number | undefined
+): ReconciledExecution {
+  // Buying above or selling below the expected price is a loss
+  const buying = (direction === "long") === entering;
+  return {
+    expectedTime: expected.time,
+    expectedPrice: expected.price === null ? null : round(expected.price),
+    actualTime: actual.time,
+    actualPrice: actual.price,
+    slippageTicks:
+      expected.price === null || actual.price === null || !tickSize
+        ? null
+        : round(
+            ((actual.price - expected.price) * (buying ? 1 : -1)) / tickSize
+          ),
+  };
+}
+
+// Every fill up to the end of the period with the order and signal behind it
+function loadTracedFills(filters: TradeFilters): Promise<TracedFill[]> {
+  const conditions = ["t.creationTimestamp <= ?"];
+  const params: (string | number)[] = [filters.to!];
+  if (filters.broker) {
+    conditions.push("t.broker = ?");
+    params.push(filters.broker);
+  }
+  if (filters.accountId !== undefined) {
+    conditions.push("t.accountId = ?");
+    params.push(filters.accountId);
+  }
+  if (filters.contractId) {
+    conditions.push("t.contractId = ?");
+    params.push(filters.contractId);
+  }
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      `SELECT t.*, o.signalId AS orderSignalId,
+        parent.signalId AS parentSignalId, o.limitPrice, o.stopPrice
+      FROM trades t
+      LEFT JOIN orders o ON o.broker = t.broker AND o.orderId = t.orderId
+      LEFT JOIN orders parent
+        ON parent.broker = o.broker AND parent.orderId = o.linkedOrderId
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY t.creationTimestamp ASC, t.id ASC`,
+      params,
+      (err, rows: TracedFill[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      }
+    );
+  });
+}
+
+// Valid signals matching the conditions
+function loadSignals(
+  conditions: string[],
+  params: (string | number)[]
+): Promise<OrderedSignal[]> {
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      `SELECT s.*,
+        (SELECT group_concat(o.accountId) FROM orders o WHERE o.signalId = s.id) AS orderAccounts,
+        (SELECT o.contractId FROM orders o WHERE o.signalId = s.id LIMIT 1) AS orderContract
+      FROM signals s
+      WHERE s.validation = 'valid' AND ${conditions.join(" AND ")}
+      ORDER BY s.receivedAt ASC`,
+      params,
+      (err, rows: OrderedSignal[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      }
+    );
+  });
+}
+
+// Trips entered in the period, for the strategy when one is given
+function tripsInPeriod(
+  fills: StoredTrade[],
+  filters: TradeFilters
+): RoundTrip[] {
+  return buildRoundTrips(fills).filter(
+    (trip) =>
+      trip.entryTime >= filters.from! &&
+      trip.entryTime <= filters.to! &&
+      (!filters.strategy || trip.strategy === filters.strategy)
+  );
+}
+
+function tickSizeFor(contractId: string, options: ReconciliationOptions) {
+  return options.tickSize ?? getTickSize(contractId);
+}
+
+async function reconcileSignals(
+  options: ReconciliationOptions
+): Promise<ReconciledTrade[]> {
+  const { filters } = options;
+  const fills = await loadTracedFills(filters);
+  const fillsById = new Map(fills.map((fill) => [fill.id, fill]));
+  const signalIdOf = (fill: TracedFill) =>
+    fill.orderSignalId ?? fill.parentSignalId;
+
+  const trips = tripsInPeriod(fills, filters);
+  // Signals of the trips' fills, which may precede the period
+  const tracedIds = Array.from(
+    new Set(
+      trips
+        .flatMap((trip) => trip.fillIds.map((id) => fillsById.get(id)!))
+        .map(signalIdOf)
+        .filter((id): id is number => id !== null)
+    )
+  );
+  const conditions = [
+    `(s.id IN (${tracedIds.map(() => "?").join(", ") || "NULL"}) OR (s.receivedAt >= ? AND s.receivedAt <= ?))`,
+  ];
+  const params: (string | number)[] = [
+    ...tracedIds,
+    filters.from!,
+    filters.to!,
+  ];
+  if (filters.broker) {
+    conditions.push("s.broker = ?");
+    params.push(filters.broker);
+  }
+  if (filters.strategy) {
+    conditions.push("s.strategy = ?");
+    params.push(filters.strategy);
+  }
+  const signals = await loadSignals(conditions, params);
+  const signalsById = new Map(signals.map((signal) => [signal.id, signal]));
+
+  // Price a fill was expected at, null when no signal explains it
+  const expectedPrice = (fill: TracedFill): number | null => {
+    if (fill.orderSignalId !== null) {
+      const signal = signalsById.get(fill.orderSignalId);
+      if (!signal) return null;
+      return fill.limitPrice ?? fill.stopPrice ?? signalPrice(signal);
+    }
+    if (fill.parentSignalId !== null && signalsById.has(fill.parentSignalId)) {
+      return fill.stopPrice ?? fill.limitPrice;
+    }
+    return null;
+  };
+
+  const trades: ReconciledTrade[] = trips.map((trip) => {
+    const tripFills = trip.fillIds.map((id) => fillsById.get(id)!);
+    const entrySide = trip.direction === "long" ? "buy" : "sell";
+    const traced = tripFills.filter((fill) => expectedPrice(fill) !== null);
+    const signalIds = Array.from(
+      new Set(traced.map((fill) => signalIdOf(fill)!))
+    );
+    const sideExecution = (entering: boolean) => {
+      const sideFills = tripFills.filter(
+        (fill) => (fill.side === entrySide) === entering
+      );
+      // Bracket exits have no signal of their own
+      const signalTimes = sideFills
+        .map((fill) => signalsById.get(fill.orderSignalId ?? -1)?.receivedAt)
+        .filter((time): time is string => time !== undefined)
+        .sort();
+      return toExecution(
+        trip.direction,
+        entering,
+        {
+          time: signalTimes[0] ?? null,
+          price: weightedAverage(
+            sideFills.map((fill) => ({
+              value: expectedPrice(fill),
+              weight: fill.size,
+            }))
+          ),
+        },
+        {
+          time: entering ? trip.entryTime : trip.exitTime,
+          price: entering ? trip.averageEntryPrice : trip.averageExitPrice,
+        },
+        tickSizeFor(trip.contractId, options)
+      );
+    };
+
+    // Expected P&L is the actual less the cost of the slippage on each leg
+    let expectedPnl: number | null = null;
+    if (!trip.open) {
+      const legPnl = (leg: RoundTripLeg, entry: number, exit: number) =>
+        (exit - entry) *
+        leg.quantity *
+        (trip.direction === "long" ? 1 : -1) *
+        getPointValue(trip.contractId);
+      let slippageCost = 0;
+      for (const leg of trip.legs) {
+        const entry = expectedPrice(fillsById.get(leg.entryFillId)!);
+        const exit = expectedPrice(fillsById.get(leg.exitFillId)!);
+        if (entry === null || exit === null) {
+          slippageCost = NaN;
+          break;
+        }
+        slippageCost +=
+          legPnl(leg, entry, exit) - legPnl(leg, leg.entryPrice, leg.exitPrice);
+      }
+      if (!isNaN(slippageCost)) {
+        expectedPnl = round(trip.netPnl + slippageCost);
+      }
+    }
+    const actualPnl = trip.open ? null : trip.netPnl;
+
+    return {
+      status: traced.length > 0 ? "matched" : "extra",
+      contractId: trip.contractId,
+      accountId: trip.accountId,
+      strategy: trip.strategy,
+      direction: trip.direction,
+      expectedQuantity: traced.length > 0 ? trip.quantity : null,
+      actualQuantity: trip.quantity,
+      entry: sideExecution(true),
+      exit: trip.open ? null : sideExecution(false),
+      expectedPnl,
+      actualPnl,
+      pnlDifference:
+        actualPnl === null
+          ? null
+          : traced.length === 0
+            ? actualPnl
+            : expectedPnl === null
+              ? null
+              : round(actualPnl - expectedPnl),
+      roundTripId: trip.id,
+      signalIds,
+      extraFills: tripFills.length - traced.length,
+    };
+  });
+
+  // Signals in the period with no fills at all. With an account filter, only
+  // signals sent to that account by id or ordered in it can be told apart
+  const filledSignals = new Set(fills.map(signalIdOf));
+  for (const signal of signals) {
+    if (signal.receivedAt < filters.from! || filledSignals.has(signal.id)) {
+      continue;
+    }
+    const alert = signalAlert(signal);
+    if (!alert) {
+      continue;
+    }
+    if (
+      filters.accountId !== undefined &&
+      alert.accountId !== filters.accountId &&
+      !(signal.orderAccounts ?? "")
+        .split(",")
+        .map(Number)
+        .includes(filters.accountId)
+    ) {
+      continue;
+    }
+    const symbol = alert.symbol?.toUpperCase() ?? null;
+    const contractId: string | null =
+      signal.orderContract ??
+      alert.contractId ??
+      getRegisteredContracts(signal.broker ?? undefined).find(
+        (entry) => entry.symbol === symbol
+      )?.contractId ??
+      symbol;
+    if (
+      !contractId ||
+      (filters.contractId && contractId !== filters.contractId)
+    ) {
+      continue;
+    }
+    const direction = alert.side === "sell" ? "short" : "long";
+    trades.push({
+      status: "missed",
+      contractId,
+      accountId: null,
+      strategy: signal.strategy,
+      direction,
+      expectedQuantity: alert.quantity,
+      actualQuantity: null,
+      entry: toExecution(
+        direction,
+        true,
+        { time: signal.receivedAt, price: signalPrice(signal) },
+        { time: null, price: null },
+        tickSizeFor(contractId, options)
+      ),
+      exit: null,
+      expectedPnl: null,
+      actualPnl: null,
+      pnlDifference: null,
+      roundTripId: null,
+      signalIds: [signal.id],
+      extraFills: 0,
+    });
+  }
+  return trades;
+}
+
+async function reconcileBacktest(
+  options: ReconciliationOptions
+): Promise<ReconciledTrade[]> {
+  const { filters } = options;
+  const contractId = filters.contractId!;
+  const definition = getStrategy(options.strategy)!;
+  const tickSize = tickSizeFor(contractId, options)!;
+  const barMs = options.barMinutes * 60000;
+  const fromMs = new Date(filters.from!).getTime();
+
+  const bars = await retrieveTopstepBars(
+    contractId,
+    new Date(fromMs - options.warmupBars * barMs).toISOString(),
+    filters.to!,
+    options.barMinutes
+  );
+  const result = runBacktest(definition.create({ ...options.params }), bars, {
+    contractId,
+    contract: { pointValue: getPointValue(contractId), tickSize },
+    slippageTicks: 0,
+    warmupBars: bars.filter((bar) => bar.time < fromMs).length,
+  });
+  const expected: ExpectedTrade[] = [...result.trades];
+  // The last fill entered the position still open
+  if (result.openPosition && result.fills.length > 0) {
+    const entry = result.fills[result.fills.length - 1];
+    expected.push({
+      direction: entry.side === "buy" ? "long" : "short",
+      quantity: entry.size,
+      entryTime: entry.creationTimestamp,
+      entryPrice: entry.price,
+      exitTime: null,
+      exitPrice: null,
+      netPnl: null,
+    });
+  }
+
+  const fills = await loadTracedFills(filters);
+  const unmatched = tripsInPeriod(fills, filters);
+  const toleranceMs = options.toleranceMinutes * 60000;
+  const trades: ReconciledTrade[] = [];
+
+  for (const trade of expected) {
+    const entryMs = new Date(trade.entryTime).getTime();
+    let best: RoundTrip | undefined;
+    for (const trip of unmatched) {
+      const gap = Math.abs(new Date(trip.entryTime).getTime() - entryMs);
+      if (
+        trip.direction === trade.direction &&
+        gap <= toleranceMs &&
+        (!best || gap < Math.abs(new Date(best.entryTime).getTime() - entryMs))
+      ) {
+        best = trip;
+      }
+    }
+    if (best) {
+      unmatched.splice(unmatched.indexOf(best), 1);
+    }
+    const expectedPnl = trade.netPnl;
+    const actualPnl = !best || best.open ? null : best.netPnl;
+    trades.push({
+      status: best ? "matched" : "missed",
+      contractId,
+      accountId: best ? best.accountId : null,
+      strategy: best ? best.strategy : definition.name,
+      direction: trade.direction,
+      expectedQuantity: trade.quantity,
+      actualQuantity: best ? best.quantity : null,
+      entry: toExecution(
+        trade.direction,
+        true,
+        { time: trade.entryTime, price: trade.entryPrice },
+        {
+          time: best ? best.entryTime : null,
+          price: best ? best.averageEntryPrice : null,
+        },
+        tickSize
+      ),
+      exit:
+        trade.exitTime === null || (best && best.open)
+          ? null
+          : toExecution(
+              trade.direction,
+              false,
+              { time: trade.exitTime, price: trade.exitPrice },
+              {
+                time: best ? best.exitTime : null,
+                price: best ? best.averageExitPrice : null,
+              },
+              tickSize
+            ),
+      expectedPnl,
+      actualPnl,
+      pnlDifference: best
+        ? actualPnl === null || expectedPnl === null
+          ? null
+          : round(actualPnl - expectedPnl)
+        : expectedPnl === null
+          ? null
+          : -expectedPnl,
+      roundTripId: best ? best.id : null,
+      signalIds: [],
+      extraFills: 0,
+    });
+  }
+
+  for (const trip of unmatched) {
+    const actualPnl = trip.open ? null : trip.netPnl;
+    trades.push({
+      status: "extra",
+      contractId,
+      accountId: trip.accountId,
+      strategy: trip.strategy,
+      direction: trip.direction,
+      expectedQuantity: null,
+      actualQuantity: trip.quantity,
+      entry: toExecution(
+        trip.direction,
+        true,
+        { time: null, price: null },
+        { time: trip.entryTime, price: trip.averageEntryPrice },
+        tickSize
+      ),
+      exit: trip.open
+        ? null
+        : toExecution(
+            trip.direction,
+            false,
+            { time: null, price: null },
+            { time: trip.exitTime, price: trip.averageExitPrice },
+            tickSize
+          ),
+      expectedPnl: null,
+      actualPnl,
+      pnlDifference: actualPnl,
+      roundTripId: trip.id,
+      signalIds: [],
+      extraFills: trip.fillIds.length,
+    });
+  }
+  return trades;
+}
+
+/**
+ * Totals a reconciliation
+ */
+export function summarizeReconciliation(
+  trades: ReconciledTrade[]
+): ReconciliationSummary {
+  const averageSlippage = (
+    execution: (trade: ReconciledTrade) => ReconciledExecution | null
+  ) => {
+    const average = weightedAverage(
+      trades
+        .filter((trade) => execution(trade)?.slippageTicks != null)
+        .map((trade) => ({
+          value: execution(trade)!.slippageTicks,
+          weight: trade.actualQuantity ?? 0,
+        }))
+    );
+    return average === null ? null : round(average);
+  };
+  const sum = (value: (trade: ReconciledTrade) => number | null) =>
+    round(trades.reduce((total, trade) => total + (value(trade) ?? 0), 0));
+  return {
+    expectedTrades: trades.filter((trade) => trade.status !== "extra").length,
+    matchedTrades: trades.filter((trade) => trade.status === "matched").length,
+    missedEntries: trades.filter((trade) => trade.status === "missed").length,
+    extraTrades: trades.filter((trade) => trade.status === "extra").length,
+    extraFills: trades.reduce((total, trade) => total + trade.extraFills, 0),
+    averageEntrySlippageTicks: averageSlippage((trade) => trade.entry),
+    averageExitSlippageTicks: averageSlippage((trade) => trade.exit),
+    expectedPnl: sum((trade) => trade.expectedPnl),
+    actualPnl: sum((trade) => trade.actualPnl),
+    pnlDifference: sum((trade) => trade.pnlDifference),
+  };
+}
+
+/**
+ * Reconciles live fills with the signals or a backtest over the same period
+ * @param limit Most trades returned; the summary covers them all
+ */
+export async function reconcile(
+  options: ReconciliationOptions,
+  limit: number
+): Promise<ReconciliationReport> {
+  const trades =
+    options.source === "backtest"
+      ? await reconcileBacktest(options)
+      : await reconcileSignals(options);
+  const entryTime = (trade: ReconciledTrade) =>
+    new Date(trade.entry.actualTime ?? trade.entry.expectedTime!).getTime();
+  trades.sort((a, b) => entryTime(b) - entryTime(a));
+  return {
+    source: options.source,
+    from: options.filters.from!,
+    to: options.filters.to!,
+    summary: summarizeReconciliation(trades),
+    trades: trades.slice(0, limit),
+  };
+}
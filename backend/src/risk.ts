@@ -0,0 +1,412 @@
+// Server-side risk engine
+//
+// Every order is checked here before it reaches a broker, mirroring the
+// limits trend-following.pine enforces on the chart (dailyLossHalt,
+// maxTradeLoss) plus a position cap and an order rate limit. A limit set to 0
+// is disabled. Orders that only reduce an open position are never blocked by
+// the loss or size limits so exits always go through. Positions are the
+// fill-based ones from positions.ts, so they survive restarts and include
+// bracket exits, plus orders the broker holds or is still being sent whose
+// fills are not stored yet, so a burst of alerts cannot get past the caps
+// before the sync catches up.
+import { tradesDb } from "../logger/db";
+import { getBroker, OrderRequest, OrderStatus } from "./brokers";
+import { findPointValue, resolvePointValue } from "./contracts";
+import { chicagoClock } from "./indicators";
+import { OPEN_ORDER_STATUSES } from "./orders";
+import { getPositions, Position } from "./positions";
+
+export interface RiskLimits {
+  // Realized day P&L plus open exposure at which new entries are refused
+  dailyLossLimit: number;
+  // Largest loss a single entry may risk between its price and stopLoss
+  maxTradeLoss: number;
+  // Largest absolute net position per contract
+  maxContracts: number;
+  maxOrdersPerMinute: number;
+}
+
+export type RiskDecision =
+  | { action: "approve"; quantity: number }
+  | { action: "downsize"; quantity: number; reason: string }
+  | { action: "reject"; reason: string };
+
+// Placement times per broker/account, for the orders-per-minute limit
+const orderTimes = new Map<string, number[]>();
+
+// Orders between their risk check and the broker's answer. Each holds its
+// rate limit slot and signed quantity from the start of the check, so
+// concurrent alerts see each other
+const inFlight = new Map<
+  OrderRequest,
+  { broker: string; time: number; quantity: number }
+>();
+
+function readLimit(name: string, fallback: number): number {
+  const value = process.env[name];
+  return value === undefined || value === "" ? fallback : parseFloat(value);
+}
+
+/**
+ * Current limits, read from .env.local (defaults follow trend-following.pine)
+ */
+export function getRiskLimits(): RiskLimits {
+  return {
+    dailyLossLimit: readLimit("RISK_DAILY_LOSS_LIMIT", 700),
+    maxTradeLoss: readLimit("RISK_MAX_TRADE_LOSS", 250),
+    maxContracts: readLimit("RISK_MAX_CONTRACTS", 10),
+    maxOrdersPerMinute: readLimit("RISK_MAX_ORDERS_PER_MINUTE", 6),
+  };
+}
+
+function accountKey(broker: string, accountId: number | undefined) {
+  return `${broker}:${accountId ?? "default"}`;
+}
+
+/**
+ * Open position in a contract, from the fills logged so far
+ * Without an account id, the first account holding the contract is used
+ */
+function getCurrentPosition(
+  broker: string,
+  accountId: number | undefined,
+  contractId: string
+): Position | undefined {
+  return getPositions().find(
+    (position) =>
+      position.broker === broker &&
+      position.contractId === contractId &&
+      (accountId === undefined || position.accountId === accountId)
+  );
+}
+
+// CME trading days start at 17:00 Chicago time
+const SESSION_START_MINUTES = 17 * 60;
+
+// Start of the current CME trading day, for the daily loss limit
+function getStartOfDay(): string {
+  const now = Date.now();
+  const { minutes } = chicagoClock(now);
+  const sinceStart = (minutes - SESSION_START_MINUTES + 24 * 60) % (24 * 60);
+  return new Date(now - (now % 60000) - sinceStart * 60000).toISOString();
+}
+
+/**
+ * Sums realized P&L net of fees for the current trading day from the trades
+ * table
+ */
+export function getRealizedDayPnL(
+  broker: string,
+  accountId: number | undefined
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const params: (string | number)[] = [broker, getStartOfDay()];
+    let sql =
+      "SELECT COALESCE(SUM(profitAndLoss - fees), 0) as pnl FROM trades WHERE broker = ? AND profitAndLoss IS NOT NULL AND creationTimestamp >= ?";
+    if (accountId !== undefined) {
+      sql += " AND accountId = ?";
+      params.push(accountId);
+    }
+    tradesDb.get(sql, params, (err, row: { pnl: number }) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(row.pnl);
+      }
+    });
+  });
+}
+
+/**
+ * Unrealized P&L of the open position in a contract, marked at the given price
+ */
+function getOpenExposure(
+  broker: string,
+  accountId: number | undefined,
+  contractId: string,
+  markPrice: number | undefined,
+  pointValue: number
+): number {
+  const position = getCurrentPosition(broker, accountId, contractId);
+  if (!position || position.quantity === 0 || markPrice === undefined) {
+    return 0;
+  }
+  return (markPrice - position.averagePrice) * position.quantity * pointValue;
+}
+
+function getRecentOrderCount(broker: string, accountId: number | undefined) {
+  const cutoff = Date.now() - 60000;
+  const times = (orderTimes.get(accountKey(broker, accountId)) || []).filter(
+    (time) => time > cutoff
+  );
+  orderTimes.set(accountKey(broker, accountId), times);
+  let sending = 0;
+  for (const [order, entry] of inFlight) {
+    if (
+      entry.broker === broker &&
+      accountKey(broker, order.accountId) === accountKey(broker, accountId)
+    ) {
+      sending++;
+    }
+  }
+  return times.length + sending;
+}
+
+interface OrderBacklog {
+  side: string;
+  status: OrderStatus;
+  quantity: number;
+  filledQuantity: number;
+  storedQuantity: number;
+}
+
+/**
+ * Signed quantity of a contract that other orders are about to add to the
+ * fill-based position: orders still being sent, the unfilled part of working
+ * orders, and fills the broker reported on an order that are not stored yet.
+ * Bracket legs only ever close their entry, so they are left out
+ */
+async function getPendingQuantity(
+  broker: string,
+  order: OrderRequest
+): Promise<number> {
+  let pending = 0;
+  for (const [other, entry] of inFlight) {
+    if (
+      other !== order &&
+      entry.broker === broker &&
+      other.contractId === order.contractId &&
+      (order.accountId === undefined || other.accountId === order.accountId)
+    ) {
+      pending += entry.quantity;
+    }
+  }
+
+  // Orders still being sent are pending rows, counted above
+  const params: (string | number)[] = [
+    broker,
+    order.contractId,
+    new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+  ];
+  let sql = `SELECT side, status, quantity, filledQuantity, (
+      SELECT COALESCE(SUM(t.size), 0) FROM trades t
+      WHERE t.broker = o.broker AND t.orderId = o.orderId
+    ) AS storedQuantity
+    FROM orders o
+    WHERE broker = ? AND contractId = ? AND linkedOrderId IS NULL
+      AND status NOT IN ('pending', 'rejected')
+      AND creationTimestamp >= ?`;
+  if (order.accountId !== undefined) {
+    sql += " AND accountId = ?";
+    params.push(order.accountId);
+  }
+  const rows = await new Promise<OrderBacklog[]>((resolve, reject) => {
+    tradesDb.all(sql, params, (err, rows: OrderBacklog[]) =>
+      err ? reject(err) : resolve(rows || [])
+    );
+  });
+  for (const row of rows) {
+    // Open orders may still fill in full; closed ones filled what they did
+    const expected = OPEN_ORDER_STATUSES.includes(row.status)
+      ? row.quantity
+      : row.filledQuantity;
+    const outstanding = Math.max(0, expected - row.storedQuantity);
+    pending += row.side === "buy" ? outstanding : -outstanding;
+  }
+  return pending;
+}
+
+function reject(reason: string, broker: string, order: OrderRequest) {
+  inFlight.delete(order);
+  console.warn(
+    `[RISK] Rejected ${broker} ${order.side} ${order.quantity} ${order.contractId}: ${reason}`
+  );
+  return { action: "reject" as const, reason };
+}
+
+/**
+ * Checks an order against the risk limits before it is placed
+ * An approved order holds its rate limit slot and quantity until
+ * recordPlacedOrder or releaseOrderRisk is called with it
+ * @param broker Broker the order is routed to
+ * @param order Order about to be placed
+ * @returns Whether to place the order, and at which quantity
+ */
+export async function evaluateOrderRisk(
+  broker: string,
+  order: OrderRequest
+): Promise<RiskDecision> {
+  const limits = getRiskLimits();
+
+  if (
+    limits.maxOrdersPerMinute > 0 &&
+    getRecentOrderCount(broker, order.accountId) >= limits.maxOrdersPerMinute
+  ) {
+    return reject(
+      `Order rate limit of ${limits.maxOrdersPerMinute} per minute reached`,
+      broker,
+      order
+    );
+  }
+  const signedQty = order.side === "buy" ? order.quantity : -order.quantity;
+  // Taken before the first await, so concurrent checks count this order
+  inFlight.set(order, { broker, time: Date.now(), quantity: signedQty });
+  try {
+    const decision = await checkLimits(broker, order, limits);
+    const entry = inFlight.get(order);
+    if (decision.action !== "reject" && entry) {
+      entry.quantity =
+        order.side === "buy" ? decision.quantity : -decision.quantity;
+    }
+    return decision;
+  } catch (error) {
+    inFlight.delete(order);
+    throw error;
+  }
+}
+
+async function checkLimits(
+  broker: string,
+  order: OrderRequest,
+  limits: RiskLimits
+): Promise<RiskDecision> {
+  const position = getCurrentPosition(
+    broker,
+    order.accountId,
+    order.contractId
+  );
+  // The position once orders ahead of this one have filled
+  const currentQty =
+    (position?.quantity ?? 0) + (await getPendingQuantity(broker, order));
+  const signedQty = order.side === "buy" ? order.quantity : -order.quantity;
+  const isReducing =
+    currentQty !== 0 &&
+    Math.sign(currentQty) !== Math.sign(signedQty) &&
+    order.quantity <= Math.abs(currentQty);
+  if (isReducing) {
+    return { action: "approve", quantity: order.quantity };
+  }
+
+  // Loss limits need the contract's point value; guessing one could
+  // understate the risk many times over
+  const adapter = getBroker(broker);
+  const pointValue = adapter
+    ? await resolvePointValue(adapter, order.contractId)
+    : findPointValue(order.contractId);
+  if (
+    pointValue === undefined &&
+    (limits.dailyLossLimit > 0 || limits.maxTradeLoss > 0)
+  ) {
+    return reject(
+      `Point value of ${order.contractId} is unknown; add it to POINT_VALUES`,
+      broker,
+      order
+    );
+  }
+
+  let quantity = order.quantity;
+  const reasons: string[] = [];
+
+  const realizedPnL = await getRealizedDayPnL(broker, order.accountId);
+  const dayPnL =
+    realizedPnL +
+    getOpenExposure(
+      broker,
+      order.accountId,
+      order.contractId,
+      order.price,
+      pointValue ?? 0
+    );
+  if (limits.dailyLossLimit > 0 && dayPnL <= -limits.dailyLossLimit) {
+    return reject(
+      `Daily loss limit of $${limits.dailyLossLimit} reached (day P&L $${dayPnL.toFixed(2)})`,
+      broker,
+      order
+    );
+  }
+
+  if (limits.maxContracts > 0) {
+    // Contracts that flatten an opposite position do not count towards the cap
+    const closingQty =
+      Math.sign(currentQty) !== Math.sign(signedQty)
+        ? Math.min(Math.abs(currentQty), quantity)
+        : 0;
+    const heldQty = closingQty > 0 ? 0 : Math.abs(currentQty);
+    const allowedOpening = Math.max(0, limits.maxContracts - heldQty);
+    if (quantity - closingQty > allowedOpening) {
+      quantity = closingQty + allowedOpening;
+      reasons.push(`max contracts ${limits.maxContracts}`);
+    }
+  }
+
+  if (order.stopLoss !== undefined && order.price !== undefined) {
+    const lossPerContract =
+      Math.abs(order.price - order.stopLoss) * (pointValue ?? 0);
+    if (lossPerContract > 0) {
+      if (limits.maxTradeLoss > 0) {
+        const maxQty = Math.floor(limits.maxTradeLoss / lossPerContract);
+        if (quantity > maxQty) {
+          quantity = maxQty;
+          reasons.push(`max trade loss $${limits.maxTradeLoss}`);
+        }
+      }
+      if (limits.dailyLossLimit > 0) {
+        const remainingBudget = limits.dailyLossLimit + dayPnL;
+        const maxQty = Math.floor(remainingBudget / lossPerContract);
+        if (quantity > maxQty) {
+          quantity = maxQty;
+          reasons.push(
+            `remaining daily loss budget $${remainingBudget.toFixed(2)}`
+          );
+        }
+      }
+    }
+  }
+
+  if (quantity <= 0) {
+    return reject(
+      `Order size reduced to 0 by ${reasons.join(", ")}`,
+      broker,
+      order
+    );
+  }
+  if (quantity < order.quantity) {
+    const reason = `Downsized from ${order.quantity} to ${quantity} by ${reasons.join(", ")}`;
+    console.warn(
+      `[RISK] ${broker} ${order.side} ${order.contractId}: ${reason}`
+    );
+    return { action: "downsize", quantity, reason };
+  }
+  return { action: "approve", quantity };
+}
+
+/**
+ * Records a placed order for the orders-per-minute limit
+ * Its quantity is counted from the orders table from now on
+ * @param broker Broker the order was placed with
+ * @param order Order as placed, after any downsizing
+ */
+export function recordPlacedOrder(broker: string, order: OrderRequest) {
+  const key = accountKey(broker, order.accountId);
+  const time = inFlight.get(order)?.time ?? Date.now();
+  inFlight.delete(order);
+  orderTimes.set(key, [...(orderTimes.get(key) || []), time]);
+}
+
+/**
+ * Frees the rate limit slot and quantity held by an order that was not placed
+ */
+export function releaseOrderRisk(order: OrderRequest) {
+  inFlight.delete(order);
+}
+
+/**
+ * Snapshot of the limits and the positions they are checked against, for the
+ * status endpoint
+ */
+export function getRiskState() {
+  return {
+    limits: getRiskLimits(),
+    positions: getPositions(),
+  };
+}
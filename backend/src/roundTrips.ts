@@ -0,0 +1,403 @@
+// Round-trip trades
+//
+// Brokers report fills, but a trade is a position taken from flat and closed
+// back to flat. Fills are replayed per broker, account and contract: entries
+// (scale-ins included) queue up as lots, and exits close the oldest lots
+// first (FIFO). A round trip ends when the position is flat again; a fill that
+// reverses the position closes the trip and opens the next one with the
+// remainder, with its fees split between them by quantity. Closing fills from
+// brokers that report no P&L get theirs from the same matching when logged,
+// redone from the earliest fill of each batch so backfills are accounted for.
+import { tradesDb } from "../logger/db";
+import { BrokerAdapter } from "./brokers";
+import { getPointValue, resolvePointValue } from "./contracts";
+import {
+  StoredTrade,
+  TradeFilters,
+  TradeSummary,
+  toTradeSummary,
+} from "./trades";
+
+// Part of an entry lot and the exit that closed it
+export interface RoundTripLeg {
+  quantity: number;
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string;
+  exitPrice: number;
+  // Ids of the entry and exit fills
+  entryFillId: number;
+  exitFillId: number;
+}
+
+export interface RoundTrip {
+  // broker:accountId:contractId:id of the opening fill
+  id: string;
+  broker: string;
+  accountId: number;
+  contractId: string;
+  // Strategy of the opening fill
+  strategy: string | null;
+  direction: "long" | "short";
+  // Total quantity entered, scale-ins included
+  quantity: number;
+  entryTime: string;
+  // Last exit so far
+  exitTime: string | null;
+  averageEntryPrice: number;
+  // Over the quantity exited so far, null before the first exit
+  averageExitPrice: number | null;
+  // From the first entry to the last exit, null while open
+  holdingSeconds: number | null;
+  // Realized so far: the broker's P&L where reported, otherwise from prices
+  grossPnl: number;
+  // Entry and exit fees
+  fees: number;
+  netPnl: number;
+  entryFills: number;
+  exitFills: number;
+  // Every fill of the trip, oldest first; a reversing fill is in both trips
+  fillIds: number[];
+  legs: RoundTripLeg[];
+  open: boolean;
+}
+
+export interface RoundTripSummary extends TradeSummary {
+  averageHoldingSeconds: number;
+}
+
+// Trip being built from fills
+interface TripState {
+  trip: RoundTrip;
+  // Open entry lots, oldest first
+  lots: { quantity: number; price: number; time: string; fillId: number }[];
+  openQuantity: number;
+  entryValue: number;
+  exitQuantity: number;
+  exitValue: number;
+}
+
+// Fractional sizes (Kraken) leave rounding noise when a position goes flat
+const EPSILON = 1e-9;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function openTrip(fill: StoredTrade, key: string): TripState {
+  return {
+    trip: {
+      id: `${key}:${fill.id}`,
+      broker: fill.broker,
+      accountId: fill.accountId,
+      contractId: fill.contractId,
+      strategy: fill.strategy,
+      direction: fill.side === "buy" ? "long" : "short",
+      quantity: 0,
+      entryTime: fill.creationTimestamp,
+      exitTime: null,
+      averageEntryPrice: 0,
+      averageExitPrice: null,
+      holdingSeconds: null,
+      grossPnl: 0,
+      fees: 0,
+      netPnl: 0,
+      entryFills: 0,
+      exitFills: 0,
+      fillIds: [],
+      legs: [],
+      open: true,
+    },
+    lots: [],
+    openQuantity: 0,
+    entryValue: 0,
+    exitQuantity: 0,
+    exitValue: 0,
+  };
+}
+
+// Closes up to the open quantity, returning how much of the fill it used
+function applyExit(state: TripState, fill: StoredTrade): number {
+  const trip = state.trip;
+  const quantity = Math.min(fill.size, state.openQuantity);
+  const sign = trip.direction === "long" ? 1 : -1;
+  let computedPnl = 0;
+  let left = quantity;
+  while (left > EPSILON && state.lots.length > 0) {
+    const lot = state.lots[0];
+    const matched = Math.min(lot.quantity, left);
+    trip.legs.push({
+      quantity: matched,
+      entryTime: lot.time,
+      entryPrice: lot.price,
+      exitTime: fill.creationTimestamp,
+      exitPrice: fill.price,
+      entryFillId: lot.fillId,
+      exitFillId: fill.id,
+    });
+    computedPnl +=
+      (fill.price - lot.price) *
+      matched *
+      sign *
+      getPointValue(fill.contractId);
+    lot.quantity -= matched;
+    left -= matched;
+    if (lot.quantity <= EPSILON) state.lots.shift();
+  }
+
+  trip.grossPnl += fill.profitAndLoss ?? computedPnl;
+  trip.fees += fill.size > 0 ? fill.fees * (quantity / fill.size) : 0;
+  trip.exitFills++;
+  trip.fillIds.push(fill.id);
+  trip.exitTime = fill.creationTimestamp;
+  state.openQuantity -= quantity;
+  state.exitQuantity += quantity;
+  state.exitValue += fill.price * quantity;
+  return quantity;
+}
+
+function applyEntry(state: TripState, fill: StoredTrade, quantity: number) {
+  state.lots.push({
+    quantity,
+    price: fill.price,
+    time: fill.creationTimestamp,
+    fillId: fill.id,
+  });
+  state.trip.quantity += quantity;
+  state.trip.fees += fill.size > 0 ? fill.fees * (quantity / fill.size) : 0;
+  state.trip.entryFills++;
+  state.trip.fillIds.push(fill.id);
+  state.openQuantity += quantity;
+  state.entryValue += fill.price * quantity;
+}
+
+function finishTrip(state: TripState, open: boolean): RoundTrip {
+  const trip = state.trip;
+  trip.open = open;
+  trip.averageEntryPrice = round(state.entryValue / trip.quantity);
+  trip.averageExitPrice =
+    state.exitQuantity > EPSILON
+      ? round(state.exitValue / state.exitQuantity)
+      : null;
+  trip.holdingSeconds =
+    open || !trip.exitTime
+      ? null
+      : Math.round(
+          (new Date(trip.exitTime).getTime() -
+            new Date(trip.entryTime).getTime()) /
+            1000
+        );
+  trip.grossPnl = round(trip.grossPnl);
+  trip.fees = round(trip.fees);
+  trip.netPnl = round(trip.grossPnl - trip.fees);
+  return trip;
+}
+
+/**
+ * Pairs fills into round trips
+ * @param fills Every fill, opening legs included, oldest first
+ * @returns Closed trips in the order they closed, then the open ones
+ */
+export function buildRoundTrips(fills: StoredTrade[]): RoundTrip[] {
+  const trips: RoundTrip[] = [];
+  const open = new Map<string, TripState>();
+
+  for (const fill of fills) {
+    const key = `${fill.broker}:${fill.accountId}:${fill.contractId}`;
+    const side = fill.side === "buy" ? "long" : "short";
+    let remaining = fill.size;
+    let state = open.get(key);
+
+    if (state && state.trip.direction !== side) {
+      remaining -= applyExit(state, fill);
+      if (state.openQuantity <= EPSILON) {
+        trips.push(finishTrip(state, false));
+        open.delete(key);
+        state = undefined;
+      }
+    }
+    if (remaining > EPSILON) {
+      if (!state) {
+        state = openTrip(fill, key);
+        open.set(key, state);
+      }
+      applyEntry(state, fill, remaining);
+    }
+  }
+
+  for (const state of open.values()) {
+    trips.push(finishTrip(state, true));
+  }
+  return trips;
+}
+
+// Price moves times quantity over the lots each fill closed, matched FIFO as
+// in buildRoundTrips; fills that closed nothing are left out
+function closedPoints(fills: StoredTrade[]): Map<number, number> {
+  const points = new Map<number, number>();
+  for (const trip of buildRoundTrips(fills)) {
+    const sign = trip.direction === "long" ? 1 : -1;
+    for (const leg of trip.legs) {
+      points.set(
+        leg.exitFillId,
+        (points.get(leg.exitFillId) ?? 0) +
+          (leg.exitPrice - leg.entryPrice) * leg.quantity * sign
+      );
+    }
+  }
+  return points;
+}
+
+/**
+ * Works out the realized P&L of the fills a broker reported none for, in the
+ * account and contract of a newly logged fill, from that fill on. Fills
+ * logged behind ones already stored (a backfill) change the matching of
+ * every later fill, so P&L worked out before is worked out again; P&L the
+ * broker reported is kept
+ * @param since Earliest fill logged in the account and contract this time
+ * @returns The fills whose P&L changed, with the new P&L
+ */
+export async function realizePnlSince(
+  adapter: BrokerAdapter,
+  since: StoredTrade
+): Promise<{ id: number; profitAndLoss: number | null }[]> {
+  const fills = await new Promise<(StoredTrade & { derivedPnl: number })[]>(
+    (resolve, reject) => {
+      tradesDb.all(
+        `SELECT * FROM trades
+         WHERE broker = ? AND accountId = ? AND contractId = ?
+         ORDER BY creationTimestamp ASC, id ASC`,
+        [since.broker, since.accountId, since.contractId],
+        (err, rows: (StoredTrade & { derivedPnl: number })[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows || []);
+          }
+        }
+      );
+    }
+  );
+  const start = fills.findIndex((fill) => fill.id === since.id);
+  if (start === -1) return [];
+  const points = closedPoints(fills);
+
+  let pointValue: number | undefined;
+  if (fills.slice(start).some((fill) => points.has(fill.id))) {
+    pointValue = await resolvePointValue(adapter, since.contractId);
+    if (pointValue === undefined) {
+      console.warn(
+        `[DB] Point value of ${since.contractId} is unknown, leaving the P&L of its ${since.broker} fills empty; add it to POINT_VALUES`
+      );
+      return [];
+    }
+  }
+
+  const changes: { id: number; profitAndLoss: number | null }[] = [];
+  for (const fill of fills.slice(start)) {
+    if (fill.profitAndLoss !== null && !fill.derivedPnl) continue;
+    const closed = points.get(fill.id);
+    const profitAndLoss =
+      closed === undefined ? null : round(closed * pointValue!);
+    if (profitAndLoss !== fill.profitAndLoss) {
+      changes.push({ id: fill.id, profitAndLoss });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Totals closed round trips, counting each trip once however many fills it had
+ */
+export function summarizeRoundTrips(trips: RoundTrip[]): RoundTripSummary {
+  const closed = trips.filter((trip) => !trip.open);
+  const wins = closed.filter((trip) => trip.netPnl > 0);
+  const losses = closed.filter((trip) => trip.netPnl < 0);
+  const sum = (list: RoundTrip[], value: (trip: RoundTrip) => number) =>
+    list.reduce((total, trip) => total + value(trip), 0);
+  return {
+    ...toTradeSummary({
+      trades: closed.length,
+      wins: wins.length,
+      losses: losses.length,
+      grossPnl: sum(closed, (trip) => trip.grossPnl),
+      fees: sum(closed, (trip) => trip.fees),
+      netPnl: sum(closed, (trip) => trip.netPnl),
+      grossProfit: sum(wins, (trip) => trip.netPnl),
+      grossLoss: -sum(losses, (trip) => trip.netPnl),
+      largestWin: closed.reduce((max, trip) => Math.max(max, trip.netPnl), 0),
+      largestLoss: closed.reduce((min, trip) => Math.min(min, trip.netPnl), 0),
+    }),
+    averageHoldingSeconds:
+      closed.length > 0
+        ? Math.round(
+            sum(closed, (trip) => trip.holdingSeconds ?? 0) / closed.length
+          )
+        : 0,
+  };
+}
+
+/**
+ * Rebuilds round trips from the trades table
+ * Broker, account and contract filters pick the fills; the others apply to
+ * the trips: side to the opening side, from/to to the exit time (entry time
+ * for open trips), minPnl/maxPnl to net P&L
+ * @returns Matching trips, most recently active first, and their summary
+ */
+export function listRoundTrips(
+  filters: TradeFilters,
+  options: { includeOpen: boolean; limit: number }
+): Promise<{ roundTrips: RoundTrip[]; summary: RoundTripSummary }> {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filters.broker) {
+    conditions.push("broker = ?");
+    params.push(filters.broker);
+  }
+  if (filters.accountId !== undefined) {
+    conditions.push("accountId = ?");
+    params.push(filters.accountId);
+  }
+  if (filters.contractId) {
+    conditions.push("contractId = ?");
+    params.push(filters.contractId);
+  }
+  const where =
+    conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      `SELECT * FROM trades${where} ORDER BY creationTimestamp ASC, id ASC`,
+      params,
+      (err, rows: StoredTrade[]) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        const direction =
+          filters.side === "buy"
+            ? "long"
+            : filters.side === "sell"
+              ? "short"
+              : undefined;
+        const matching = buildRoundTrips(rows || []).filter((trip) => {
+          const time = trip.open ? trip.entryTime : trip.exitTime!;
+          return (
+            (options.includeOpen || !trip.open) &&
+            (!direction || trip.direction === direction) &&
+            (!filters.strategy || trip.strategy === filters.strategy) &&
+            (!filters.from || new Date(time) >= new Date(filters.from)) &&
+            (!filters.to || new Date(time) <= new Date(filters.to)) &&
+            (filters.minPnl === undefined || trip.netPnl >= filters.minPnl) &&
+            (filters.maxPnl === undefined || trip.netPnl <= filters.maxPnl)
+          );
+        });
+        const lastActivity = (trip: RoundTrip) =>
+          new Date(trip.exitTime ?? trip.entryTime).getTime();
+        matching.sort((a, b) => lastActivity(b) - lastActivity(a));
+        resolve({
+          roundTrips: matching.slice(0, options.limit),
+          summary: summarizeRoundTrips(matching),
+        });
+      }
+    );
+  });
+}
@@ -5,13 +5,120 @@ import http from "http";
 import { Server as SocketIOServer } from "socket.io";
 import dotenv from "dotenv";
 import cors from "cors";
-import axios from "axios";
 
-//import KrakenClient from "kraken-api";
 import cron from "node-cron";
 
 // Import the database module
-import { tradesDb, clearTradesTable } from "../logger/db";
+import { tradesDb, tradesDbReady } from "../logger/db";
+// Import the broker adapters
+import {
+  BrokerAdapter,
+  BrokerTrade,
+  OrderRequest,
+  OrderResult,
+  OrderType,
+  getBroker,
+  listBrokers,
+} from "./brokers";
+import { parseOrderType, validateOrderRequest } from "./brokers/orders";
+import { orderTypeFromCode, topstepAdapter } from "./brokers/topstep";
+import {
+  getSessionStatus,
+  isTopstepConfigured,
+  refreshSession,
+  refreshSessionIfDue,
+} from "./brokers/topstepSession";
+import { getPaperAccountState, updatePaperPrice } from "./brokers/paper";
+// Import the risk engine
+import {
+  evaluateOrderRisk,
+  getRiskState,
+  recordPlacedOrder,
+  releaseOrderRisk,
+  RiskDecision,
+} from "./risk";
+import {
+  getAccountGroups,
+  getAccounts,
+  getSyncAccountIds,
+  refreshAccounts,
+  resolveAccountTargets,
+} from "./accounts";
+// Import the contract registry
+import {
+  getRegisteredContracts,
+  resolveSymbol,
+  rollDueContracts,
+} from "./contracts";
+// Import the alert schema
+import { AlertFieldError, getAlertSchema, parseAlert } from "./alertSchema";
+// Import the trade history queries
+import {
+  isTradeGrouping,
+  isTradeSortField,
+  listTrades,
+  parseTradeFilters,
+  summarizeTrades,
+} from "./trades";
+// Import the round-trip reconstruction
+import { listRoundTrips, realizePnlSince } from "./roundTrips";
+// Import the live vs expected reconciliation
+import { parseReconciliationOptions, reconcile } from "./reconciliation";
+// Import the signal log
+import { createSignal, listSignals, updateSignal } from "./signals";
+// Import the order tracking
+import {
+  OPEN_ORDER_STATUSES,
+  TrackedOrder,
+  applyOrderUpdate,
+  createPendingOrder,
+  getOrder,
+  listOrders,
+  orderIdParam,
+  recordPlaceResult,
+} from "./orders";
+// Import the live positions
+import {
+  Position,
+  applyFillToPosition,
+  getAccountExposure,
+  getPositions,
+  rebuildPositions,
+} from "./positions";
+// Import the trade sync cursors
+import {
+  advanceSyncCursor,
+  clearSyncCursors,
+  getIncrementalStart,
+  listSyncCursors,
+  splitSyncWindows,
+} from "./syncCursors";
+// Import the duplicate alert suppression
+import {
+  claimIdempotencyKey,
+  getCooldownRemaining,
+  getIdempotencyKey,
+  startCooldown,
+  storeIdempotentResponse,
+} from "./idempotency";
+// Import the stored optimizer results
+import { getOptimization, listOptimizations } from "./optimizations";
+// Import the strategy runners
+import { listStrategies } from "./strategies";
+import {
+  listStrategyRunners,
+  RunnerConfig,
+  RunnerDependencies,
+  startConfiguredRunners,
+  startStrategyRunner,
+  stopStrategyRunner,
+} from "./strategies/runner";
+// Import the webhook authentication
+import {
+  RawBodyRequest,
+  getWebhookRejections,
+  requireWebhookAuth,
+} from "./webhookAuth";
 
 // Load environment variables from .env.local
 dotenv.config({ path: ".env.local" });
@@ -27,6 +134,14 @@ function getFirstDayOfCurrentMonth(): string {
   return firstDay.toISOString();
 }
 
+// Where the first sync of a new account starts, TRADE_SYNC_START or the
+// first day of the current month
+function getDefaultSyncStart(): string {
+  return process.env.TRADE_SYNC_START
+    ? new Date(process.env.TRADE_SYNC_START).toISOString()
+    : getFirstDayOfCurrentMonth();
+}
+
 // Track if initial sync has been performed
 let initialSyncDone = false;
 
@@ -49,12 +164,20 @@ app.use(
     credentials: true,
   })
 );
-app.use(express.json());
+// Keep the raw body around so webhook signatures can be verified
+app.use(
+  express.json({
+    verify: (req, res, buf) => {
+      (req as RawBodyRequest).rawBody = buf.toString();
+    },
+  })
+);
 
 // Add middleware to parse text/plain as JSON for TradingView webhooks
 app.use("/api/trade/tradingview", express.text({ type: "text/plain" }));
-app.use("/api/trade/tradingview", (req, res, next) => {
+app.use("/api/trade/tradingview", (req: RawBodyRequest, res, next) => {
   if (typeof req.body === "string") {
+    req.rawBody = req.body;
     try {
       req.body = JSON.parse(req.body);
     } catch (e) {
@@ -67,183 +190,496 @@ app.use("/api/trade/tradingview", (req, res, next) => {
 //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // TRADING VIEW
 //
-// TradingView Webhook Endpoint
-app.post("/api/trade/tradingview", async (req: Request, res: Response) => {
-  // Log the payload received from TradingView
-  console.log("[TRADINGVIEW ALERT PAYLOAD]", req.body);
+// What happened to the order for one targeted account
+interface AccountOrderOutcome {
+  accountId: number;
+  status: number;
+  error?: string;
+  reason?: string;
+  risk?: RiskDecision;
+  orderResult?: OrderResult;
+}
+
+interface AlertResponse {
+  status: number;
+  body: object;
+}
+
+/**
+ * Runs an alert through the order pipeline: records the signal, replays
+ * repeated deliveries, checks the alert against its schema and the risk
+ * limits, and places its orders
+ * @param source Strategy runner alerts come from inside the backend and carry
+ * no webhook key
+ * @returns The HTTP status and body describing what became of the alert
+ */
+async function processAlert(
+  payload: Record<string, unknown>,
+  source: "webhook" | "runner"
+): Promise<AlertResponse> {
+  // Record the signal before doing anything else with it
+  let signalId: number;
   try {
-    interface TradingViewAlert {
-      key: string;
-      broker?: string;
-      accountId?: number;
-      contractId?: string;
-      side?: string;
-      quantity?: number;
-      pair?: string;
-      type?: string;
-      ordertype?: string;
-      volume?: number;
-      price?: number;
-    }
-    const alert = req.body as TradingViewAlert;
-
-    if (alert.key == "XCtCCAEw2G8Dg9") {
-      const { broker } = alert;
-      if (!broker) {
-        return res
-          .status(400)
-          .json({ error: "Missing broker in TradingView alert" });
-      }
+    signalId = await createSignal(payload);
+  } catch (error) {
+    const err = error as Error;
+    console.error("[DB] Failed to record signal:", err.message);
+    return {
+      status: 500,
+      body: {
+        error: "Failed to record TradingView alert",
+        details: err.message,
+      },
+    };
+  }
 
-      if (broker.toLowerCase() === "topstep") {
-        const { contractId, side, quantity, price } = alert;
-        if (!contractId || !side || !quantity || !price) {
-          return res
-            .status(400)
-            .json({ error: "Missing required fields for Topstep trade" });
+  // Keep the response for replaying to repeated deliveries
+  let idempotencyKey: string | undefined;
+  const respond = async (
+    status: number,
+    body: object
+  ): Promise<AlertResponse> => {
+    if (idempotencyKey !== undefined) {
+      await storeIdempotentResponse(idempotencyKey, status, body);
+    }
+    return { status, body };
+  };
+
+  // Mark the signal invalid and reject the alert
+  const rejectInvalid = async (message: string, errors?: AlertFieldError[]) => {
+    await updateSignal(signalId, {
+      validation: "invalid",
+      validationError: errors
+        ? errors.map((error) => error.message).join("; ")
+        : message,
+      outcome: "rejected",
+    });
+    return respond(
+      400,
+      errors
+        ? { error: message, errors, signalId }
+        : { error: message, signalId }
+    );
+  };
+
+  try {
+    // Check every field against the broker's schema
+    const parsed = parseAlert(payload, { requireKey: source === "webhook" });
+    if ("errors" in parsed) {
+      return rejectInvalid("Invalid TradingView alert", parsed.errors);
+    }
+    const { alert } = parsed;
+
+    // Repeated deliveries of an alert get the original response
+    const alertKey = getIdempotencyKey(alert);
+    if (alertKey !== undefined) {
+      const claim = await claimIdempotencyKey(alertKey, signalId);
+      if (!claim.claimed) {
+        const { original } = claim;
+        await updateSignal(signalId, {
+          outcome: "rejected",
+          outcomeDetail: `Duplicate delivery of signal ${original.signalId}`,
+        });
+        console.log(
+          `[TRADINGVIEW] Duplicate alert, replaying signal ${original.signalId}`
+        );
+        if (
+          original.responseStatus === null ||
+          original.responseBody === null
+        ) {
+          return {
+            status: 409,
+            body: {
+              error: "Duplicate alert is still being processed",
+              signalId: original.signalId,
+            },
+          };
         }
-        const orderPayload = {
-          contractId: contractId,
-          quantity: quantity,
-          side: side === "buy" ? 0 : 1,
-          type: 2,
-          price: price,
+        return {
+          status: original.responseStatus,
+          body: JSON.parse(original.responseBody),
         };
-        console.log(`Placing Topstep order with payload:`, orderPayload);
-        const axiosRes = await axios.post(
-          `http://localhost:${PORT}/api/trade/topstep/order`,
-          orderPayload
-        );
-        return res.json({
-          success: true,
-          broker: "topstep",
-          orderResult: axiosRes.data,
+      }
+      idempotencyKey = alertKey;
+    }
+    const adapter = getBroker(alert.broker)!;
+
+    const { accountId, side, quantity, price } = alert;
+    // The schema requires either a contractId or a symbol to resolve
+    let contractId: string;
+    try {
+      contractId =
+        alert.contractId ??
+        (await resolveSymbol(adapter, alert.symbol!)).contractId;
+    } catch (error) {
+      return rejectInvalid(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    // The schema only lets through order types parseOrderType knows
+    const orderType = parseOrderType(alert.orderType ?? "market")!;
+    const orderRequest: OrderRequest = {
+      contractId: contractId,
+      quantity: quantity,
+      side: side,
+      type: orderType,
+      limitPrice: alert.limitPrice,
+      stopPrice: alert.stopPrice,
+      trailPrice: alert.trailPrice,
+      price: price,
+      stopLoss: alert.stopLoss,
+      takeProfit: alert.takeProfit,
+      trailingStopLoss: alert.trailingStopLoss,
+    };
+    const orderError = validateOrderRequest(orderRequest);
+    if (orderError) {
+      return rejectInvalid(orderError);
+    }
+    const targets = resolveAccountTargets(adapter, {
+      account: alert.account ?? accountId,
+      accountGroup: alert.accountGroup,
+    });
+    if ("error" in targets) {
+      return rejectInvalid(targets.error);
+    }
+    await updateSignal(signalId, { validation: "valid" });
+
+    // Checks and places one account's copy of the order
+    const placeForAccount = async (
+      accountOrder: OrderRequest
+    ): Promise<AccountOrderOutcome> => {
+      const accountId = accountOrder.accountId!;
+      // Block rapid-fire re-entries on the same strategy, contract and side
+      const cooldownKey = [
+        alert.strategy ?? "default",
+        adapter.name,
+        accountId,
+        accountOrder.contractId,
+        accountOrder.side,
+      ].join(":");
+      const cooldownRemaining = getCooldownRemaining(cooldownKey);
+      if (cooldownRemaining > 0) {
+        return {
+          accountId,
+          status: 429,
+          error: `Cooldown active for another ${cooldownRemaining}s`,
+        };
+      }
+
+      // Check the order against the risk limits before it reaches the broker
+      const riskDecision = await evaluateOrderRisk(adapter.name, accountOrder);
+      if (riskDecision.action === "reject") {
+        return {
+          accountId,
+          status: 403,
+          error: "Order rejected by risk engine",
+          reason: riskDecision.reason,
+          risk: riskDecision,
+        };
+      }
+      accountOrder.quantity = riskDecision.quantity;
+
+      console.log(`Placing ${adapter.name} order with payload:`, accountOrder);
+      let orderResult: OrderResult;
+      try {
+        orderResult = await placeTrackedOrder(adapter, accountOrder, signalId);
+      } catch (error) {
+        releaseOrderRisk(accountOrder);
+        throw error;
+      }
+      if (orderResult.success) {
+        recordPlacedOrder(adapter.name, accountOrder);
+        startCooldown(cooldownKey);
+      } else {
+        releaseOrderRisk(accountOrder);
+      }
+      // Sync trades immediately after placing a trade
+      syncRecentTrades(adapter, accountId);
+      // The broker turning the order down is reported as a bad gateway
+      return {
+        accountId,
+        status: orderResult.success ? 200 : 502,
+        risk: riskDecision,
+        orderResult,
+      };
+    };
+
+    if (alert.accountGroup === undefined) {
+      const outcome = await placeForAccount({
+        ...orderRequest,
+        accountId: targets.accountIds[0],
+      });
+      const { risk, orderResult } = outcome;
+      if (risk) {
+        await updateSignal(signalId, {
+          riskDecision: risk.action,
+          riskReason: "reason" in risk ? risk.reason : null,
         });
-      } else if (broker.toLowerCase() === "kraken") {
-        // Placeholder for Kraken integration
-        return res.status(501).json({
-          error:
-            "Kraken trading from TradingView not implemented in this demo.",
+      }
+      if (!orderResult) {
+        await updateSignal(signalId, {
+          outcome: "rejected",
+          outcomeDetail: outcome.reason ?? outcome.error,
         });
-      } else if (broker.toLowerCase() === "ibkr") {
-        // Placeholder for IBKR integration
-        return res.status(501).json({
-          error: "IBKR trading from TradingView not implemented in this demo.",
+        return respond(outcome.status, {
+          error: outcome.error,
+          reason: outcome.reason,
+          signalId,
+        });
+      }
+      if (orderResult.success) {
+        await updateSignal(signalId, {
+          orderId:
+            orderResult.orderId !== undefined
+              ? String(orderResult.orderId)
+              : null,
+          // Only market orders are known to be filled once accepted
+          outcome: orderRequest.type === "market" ? "filled" : "pending",
         });
       } else {
-        return res
-          .status(400)
-          .json({ error: "Unknown broker in TradingView alert" });
+        await updateSignal(signalId, {
+          outcome: "rejected",
+          outcomeDetail: orderResult.errorMessage || "Rejected by broker",
+        });
+      }
+      return respond(outcome.status, {
+        success: orderResult.success,
+        broker: adapter.name,
+        signalId,
+        risk: risk,
+        orderResult: orderResult,
+      });
+    }
+
+    // Copy the order to every account in the group; one account failing
+    // does not stop the others
+    const outcomes: AccountOrderOutcome[] = [];
+    for (const targetAccountId of targets.accountIds) {
+      try {
+        outcomes.push(
+          await placeForAccount({
+            ...orderRequest,
+            accountId: targetAccountId,
+          })
+        );
+      } catch (error) {
+        outcomes.push({
+          accountId: targetAccountId,
+          status: 400,
+          error: "Failed to place order",
+          reason: error instanceof Error ? error.message : String(error),
+        });
       }
-    } else {
-      return res
-        .status(400)
-        .json({ error: "Invalid or missing key in TradingView alert" });
     }
+    const placed = outcomes.filter((outcome) => outcome.orderResult?.success);
+    const failures = outcomes
+      .filter((outcome) => !outcome.orderResult?.success)
+      .map(
+        (outcome) =>
+          `${outcome.accountId}: ${outcome.reason ?? outcome.error ?? outcome.orderResult?.errorMessage ?? "Rejected by broker"}`
+      );
+    const firstRisk = outcomes.find((outcome) => outcome.risk)?.risk;
+    await updateSignal(signalId, {
+      riskDecision: firstRisk?.action ?? null,
+      riskReason: firstRisk && "reason" in firstRisk ? firstRisk.reason : null,
+      orderId:
+        placed.length > 0
+          ? placed
+              .map((outcome) => String(outcome.orderResult!.orderId))
+              .join(",")
+          : null,
+      outcome:
+        placed.length === 0
+          ? "rejected"
+          : orderRequest.type === "market"
+            ? "filled"
+            : "pending",
+      outcomeDetail: `Placed on ${placed.length} of ${outcomes.length} accounts in ${alert.accountGroup}${failures.length > 0 ? `; ${failures.join("; ")}` : ""}`,
+    });
+    return respond(placed.length > 0 ? 200 : outcomes[0].status, {
+      success: placed.length > 0,
+      broker: adapter.name,
+      signalId,
+      accountGroup: alert.accountGroup,
+      orders: outcomes,
+    });
   } catch (error) {
     const err = error as Error;
-    res.status(400).json({
+    await updateSignal(signalId, {
+      outcome: "errored",
+      outcomeDetail: err.message,
+    });
+    return respond(400, {
       error: "Failed to process TradingView alert",
       details: err.message,
+      signalId,
+    });
+  }
+}
+
+// TradingView Webhook Endpoint
+app.post(
+  "/api/trade/tradingview",
+  requireWebhookAuth,
+  async (req: Request, res: Response) => {
+    // Log the payload received from TradingView, without its secret key
+    console.log("[TRADINGVIEW ALERT PAYLOAD]", { ...req.body, key: "***" });
+    const { status, body } = await processAlert(
+      req.body as Record<string, unknown>,
+      "webhook"
+    );
+    res.status(status).json(body);
+  }
+);
+
+// Signal Log Endpoint - every alert received and what became of it
+app.get("/api/signals", async (req: Request, res: Response) => {
+  try {
+    const { strategy, broker, outcome } = req.query as Record<
+      string,
+      string | undefined
+    >;
+    const limit = Math.min(
+      parseInt(String(req.query.limit ?? "100")) || 100,
+      1000
+    );
+    res.json(await listSignals({ strategy, broker, outcome, limit }));
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({
+      error: "Failed to fetch signals",
+      details: err.message,
     });
   }
 });
 
+// Rejected Webhook Requests Endpoint
+app.get(
+  "/api/trade/tradingview/rejections",
+  async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(
+        parseInt(String(req.query.limit ?? "100")) || 100,
+        1000
+      );
+      res.json(await getWebhookRejections(limit));
+    } catch (error) {
+      const err = error as Error;
+      res.status(500).json({
+        error: "Failed to fetch webhook rejections",
+        details: err.message,
+      });
+    }
+  }
+);
+
+// Document the alert fields each broker accepts
+app.get("/api/trade/tradingview/schema", (req: Request, res: Response) => {
+  const brokers =
+    typeof req.query.broker === "string" ? [req.query.broker] : listBrokers();
+  const schemas = brokers.map((broker) => getAlertSchema(broker));
+  if (schemas.some((schema) => !schema)) {
+    return res.status(404).json({ error: "Unknown broker" });
+  }
+  res.json({ schemas });
+});
+
 //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // TOPSTEP
 //
 // Topstep Trade Execution Endpoint
+// type: 1 = Limit, 2 = Market, 3 = Stop Limit, 4 = Stop, 5 = Trailing Stop
+// stopLoss/takeProfit attach a bracket linked to the entry order
 app.post("/api/trade/topstep/order", async (req: Request, res: Response) => {
-  const { contractId, quantity, side, type } = req.body as {
+  const {
+    contractId,
+    quantity,
+    side,
+    type,
+    limitPrice,
+    stopPrice,
+    trailPrice,
+    stopLoss,
+    takeProfit,
+    trailingStopLoss,
+  } = req.body as {
     contractId: string;
     quantity: number;
     side: number;
     type: number;
+    limitPrice?: number;
+    stopPrice?: number;
+    trailPrice?: number;
+    stopLoss?: number;
+    takeProfit?: number;
+    trailingStopLoss?: number;
   };
 
   try {
-    const sessionToken = process.env.TOPSTEP_API_SESSION_TOKEN;
-    const username = process.env.TOPSTEP_USERNAME;
-    if (!sessionToken || !username) {
+    if (!isTopstepConfigured()) {
       return res.status(400).json({
         error:
           "TOPSTEP_API_KEY and TOPSTEP_USERNAME are required in .env.local",
       });
     }
-    const url = "https://api.topstepx.com/api/Order/place";
-    const payload = {
-      accountId: process.env.TOPSTEP_ACCOUNT_ID,
+    const orderType = orderTypeFromCode(type);
+    if (!orderType) {
+      return res.status(400).json({ error: `Unsupported order type: ${type}` });
+    }
+
+    const orderRequest: OrderRequest = {
+      accountId: topstepAdapter.defaultAccountId(),
       contractId: contractId,
-      type: type,
-      side: side,
-      size: quantity,
-      limitPrice: null,
-      stopPrice: null,
-      trailPrice: null,
-      customTag: null,
-      linkedOrderId: null,
+      quantity: quantity,
+      side: side === 0 ? "buy" : "sell",
+      type: orderType,
+      limitPrice: limitPrice,
+      stopPrice: stopPrice,
+      trailPrice: trailPrice,
+      stopLoss: stopLoss,
+      takeProfit: takeProfit,
+      trailingStopLoss: trailingStopLoss,
     };
+    const orderError = validateOrderRequest(orderRequest);
+    if (orderError) {
+      return res.status(400).json({ error: orderError });
+    }
+    const riskDecision = await evaluateOrderRisk("topstep", orderRequest);
+    if (riskDecision.action === "reject") {
+      return res.status(403).json({
+        error: "Order rejected by risk engine",
+        reason: riskDecision.reason,
+      });
+    }
+    orderRequest.quantity = riskDecision.quantity;
 
-    const response = await axios.post(url, payload, {
-      headers: {
-        accept: "application/json",
-        Authorization: `Bearer ${sessionToken}`,
-        "Content-Type": "application/json",
-      },
+    let orderResult: OrderResult;
+    try {
+      orderResult = await placeTrackedOrder(topstepAdapter, orderRequest);
+    } catch (error) {
+      releaseOrderRisk(orderRequest);
+      throw error;
+    }
+    if (orderResult.success) {
+      recordPlacedOrder("topstep", orderRequest);
+    } else {
+      releaseOrderRisk(orderRequest);
+    }
+    res.json({
+      ...(orderResult.raw as object),
+      bracketOrderIds: orderResult.bracketOrderIds,
+      warnings: orderResult.warnings,
     });
-    res.json(response.data);
 
     // Print contractId, quantity, and side to terminal
     console.log(
-      `[TOPSTEP TRADE] contractId: ${contractId}, quantity: ${quantity}, side: ${
+      `[TOPSTEP TRADE] contractId: ${contractId}, quantity: ${orderRequest.quantity}, side: ${
         side === 0 ? "buy" : "sell"
       }`
     );
 
     // Sync trades immediately after placing a trade
-    try {
-      const accountId = process.env.TOPSTEP_ACCOUNT_ID;
-      if (!sessionToken || !accountId) {
-        console.error(
-          "[SYNC] Missing session token or account ID for immediate trade sync"
-        );
-        return;
-      }
-      const now = new Date();
-      const oneMinuteAgo = new Date(now.getTime() - 60000); // 1 minute ago
-      const startTimestamp = oneMinuteAgo.toISOString();
-      const endTimestamp = now.toISOString();
-      const syncUrl = `https://api.topstepx.com/api/Trade/search`;
-      const syncPayload = {
-        accountId: parseInt(accountId),
-        startTimestamp: startTimestamp,
-        endTimestamp: endTimestamp,
-      };
-      const syncResponse = await axios.post(syncUrl, syncPayload, {
-        headers: {
-          accept: "text/plain",
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${sessionToken}`,
-        },
-      });
-      if (
-        syncResponse.data &&
-        syncResponse.data.trades &&
-        Array.isArray(syncResponse.data.trades)
-      ) {
-        const { inserted, skipped } = await logTopstepTradesToDatabase(
-          syncResponse.data.trades
-        );
-        console.log(
-          `[SYNC] Immediate sync: ${syncResponse.data.trades.length} trades, ${inserted} inserted, ${skipped} skipped (duplicates)`
-        );
-      }
-    } catch (syncError) {
-      console.error(
-        "[SYNC] Failed to sync trades after order:",
-        syncError instanceof Error ? syncError.message : String(syncError)
-      );
-    }
+    await syncRecentTrades(topstepAdapter);
   } catch (error) {
     const err = error as Error;
     res.status(500).json({
@@ -253,60 +689,65 @@ app.post("/api/trade/topstep/order", async (req: Request, res: Response) => {
   }
 });
 
+// Topstep Order Modify Endpoint
+// Changes the size or prices of a working order
+app.post(
+  "/api/trade/topstep/order/modify",
+  async (req: Request, res: Response) => {
+    const { orderId, quantity, limitPrice, stopPrice, trailPrice } =
+      req.body as {
+        orderId: number;
+        quantity?: number;
+        limitPrice?: number;
+        stopPrice?: number;
+        trailPrice?: number;
+      };
+    if (!orderId) {
+      return res.status(400).json({ error: "orderId is required" });
+    }
+    try {
+      const accountId = topstepAdapter.defaultAccountId();
+      if (!accountId) {
+        return res
+          .status(400)
+          .json({ error: "TOPSTEP_ACCOUNT_ID is required in .env.local" });
+      }
+      await topstepAdapter.modifyOrder(accountId, orderId, {
+        quantity,
+        limitPrice,
+        stopPrice,
+        trailPrice,
+      });
+      console.log(`[TOPSTEP TRADE] Modified order ${orderId}`);
+      res.json({ success: true, orderId });
+    } catch (error) {
+      const err = error as Error;
+      res.status(500).json({
+        error: "Failed to modify Topstep order",
+        details: err.message,
+      });
+    }
+  }
+);
+
 // Topstep Contract Search Endpoint
 app.post(
   "/api/trade/topstep/contractId",
   async (req: Request, res: Response) => {
     const { symbol } = req.body as { symbol: string };
     try {
-      const sessionToken = process.env.TOPSTEP_API_SESSION_TOKEN;
-      if (!sessionToken) {
+      if (!isTopstepConfigured()) {
         return res.status(400).json({
-          error: "TOPSTEP_API_SESSION_TOKEN is required in .env.local",
-        });
-      }
-      const url = "https://api.topstepx.com/api/Contract/search";
-      const payload = { searchText: `${symbol}`, live: false };
-      const response = await axios.post(url, payload, {
-        headers: {
-          accept: "application/json",
-          Authorization: `Bearer ${sessionToken}`,
-          "Content-Type": "application/json",
-        },
-      });
-      const responseJson = response.data;
-      console.log(
-        `Topstep contract search response for ${symbol}:`,
-        responseJson
-      );
-      if (!responseJson.success) {
-        return res.status(500).json({
-          error: "API call failed",
-          errorMessage: responseJson.errorMessage,
+          error:
+            "TOPSTEP_USERNAME and TOPSTEP_API_KEY are required in .env.local",
         });
       }
-      interface TopstepContract {
-        id: string;
-        name: string;
-        description: string;
-        tickSize: number;
-        tickValue: number;
-        activeContract: boolean;
-      }
-      const contracts = (responseJson.contracts || [])
-        .filter(
-          (c: TopstepContract) => c.name.toUpperCase() === symbol.toUpperCase()
-        )
-        .map((c: TopstepContract) => ({
-          id: c.id,
-          name: c.name,
-          description: c.description,
-          tickSize: c.tickSize,
-          tickValue: c.tickValue,
-          activeContract: c.activeContract,
-        }));
+      const contracts = await topstepAdapter.resolveContract(symbol);
+      console.log(`Topstep contract search response for ${symbol}:`, contracts);
       if (contracts.length > 0) {
-        res.json({ contracts });
+        // A root symbol also reports the month the registry trades
+        const frontMonth = await resolveSymbol(topstepAdapter, symbol);
+        res.json({ contracts, frontMonth });
       } else {
         res
           .status(404)
@@ -327,55 +768,29 @@ app.post("/api/trade/topstep/account", async (req: Request, res: Response) => {
   const { accountName } = req.body as { accountName: string };
   process.env.ACCOUNT_NAME = accountName;
   try {
-    const sessionToken = process.env.TOPSTEP_API_SESSION_TOKEN;
-    if (!sessionToken) {
-      return res
-        .status(400)
-        .json({ error: "TOPSTEP_API_SESSION_TOKEN is required in .env.local" });
-    }
-    const url = "https://api.topstepx.com/api/Account/search";
-    const response = await axios.post(
-      url,
-      {},
-      {
-        headers: {
-          accept: "application/json",
-          Authorization: `Bearer ${sessionToken}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-    if (Array.isArray(response.data.accounts)) {
-      interface TopstepAccount {
-        id: string;
-        name: string;
-        canTrade: boolean;
-        // Add other fields if needed
-      }
-
-      const account = (response.data.accounts as TopstepAccount[]).find(
-        (acc) => {
-          return (
-            acc.name.toUpperCase().startsWith(accountName.toUpperCase()) &&
-            acc.canTrade
-          );
-        }
+    if (!isTopstepConfigured()) {
+      return res.status(400).json({
+        error:
+          "TOPSTEP_USERNAME and TOPSTEP_API_KEY are required in .env.local",
+      });
+    }
+    const accounts = await topstepAdapter.listAccounts();
+    const account = accounts.find((acc) => {
+      return (
+        acc.name.toUpperCase().startsWith(accountName.toUpperCase()) &&
+        acc.canTrade
       );
-      if (account) {
-        process.env.TOPSTEP_ACCOUNT_ID = account.id;
-        console.log(
-          `Topstep account ID for ${account.name} fetched and stored successfully.`
-        );
-        return res.json({ account });
-      } else {
-        return res
-          .status(404)
-          .json({ error: `No account found for name: ${accountName}` });
-      }
+    });
+    if (account) {
+      process.env.TOPSTEP_ACCOUNT_ID = String(account.id);
+      console.log(
+        `Topstep account ID for ${account.name} fetched and stored successfully.`
+      );
+      return res.json({ account });
     } else {
       return res
-        .status(500)
-        .json({ error: "Malformed response from Topstep API" });
+        .status(404)
+        .json({ error: `No account found for name: ${accountName}` });
     }
   } catch (error) {
     const err = error as Error;
@@ -399,61 +814,527 @@ app.post(
             "TOPSTEP_USERNAME and TOPSTEP_API_KEY are required in .env.local",
         });
       }
-      const url = "https://api.topstepx.com/api/Auth/loginKey";
-      const payload = {
-        username: username,
-        apiKey: apiKey,
-      };
-      const response = await axios.post(url, payload, {
-        headers: {
-          "Accept ": "application/json",
-          "Content-Type": "application/json",
+      const token = await refreshSession();
+      res.json({
+        success: true,
+        token: token,
+        session: getSessionStatus(),
+      });
+      console.log(`Topstep session token fetched and stored successfully.`);
+    } catch (error) {
+      const err = error as Error;
+      res.status(500).json({
+        error: "Failed to fetch Topstep session token",
+        details: err.message,
+      });
+    }
+  }
+);
+
+// Topstep Session Status Endpoint - token age, expiry and refresh failures
+app.get("/api/trade/topstep/session", (req: Request, res: Response) => {
+  res.json(getSessionStatus());
+});
+
+// Refresh the Topstep session token before it expires
+cron.schedule("*/5 * * * *", async () => {
+  await refreshSessionIfDue();
+});
+
+// Roll registered symbols onto their next contract once they are due
+cron.schedule("*/15 * * * *", async () => {
+  await rollDueContracts(getBroker);
+});
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// PAPER
+//
+// Paper Price Update Endpoint - fills resting paper orders crossed by the price
+app.post("/api/trade/paper/price", async (req: Request, res: Response) => {
+  const { contractId, price } = req.body as {
+    contractId: string;
+    price: number;
+  };
+  if (!contractId || typeof price !== "number") {
+    return res
+      .status(400)
+      .json({ error: "contractId and a numeric price are required" });
+  }
+  const fills = await markPaperPrice(contractId, price);
+  res.json({ success: true, fills });
+});
+
+// Moves a paper contract's price and logs the fills it causes
+async function markPaperPrice(
+  contractId: string,
+  price: number
+): Promise<BrokerTrade[]> {
+  const fills = updatePaperPrice(contractId, price);
+  const { inserted, skipped } = await logTradesToDatabase(fills);
+  if (fills.length > 0) {
+    console.log(
+      `[PAPER] Price update ${contractId} @ ${price}: ${fills.length} fills, ${inserted} inserted, ${skipped} skipped`
+    );
+  }
+  return fills;
+}
+
+// Paper Account Endpoint - positions, working orders and realized P&L
+app.get("/api/trade/paper/account", (req: Request, res: Response) => {
+  res.json(getPaperAccountState());
+});
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// STRATEGIES
+//
+// Runner alerts go through the webhook's pipeline without a webhook key
+const strategyRunnerDependencies: RunnerDependencies = {
+  submitAlert: (payload) => processAlert(payload, "runner"),
+  markPaperPrice,
+};
+
+// Strategies Endpoint - registered strategies with their default parameters
+app.get("/api/strategies", (req: Request, res: Response) => {
+  res.json({
+    strategies: listStrategies().map(({ name, description, defaults }) => ({
+      name,
+      description,
+      defaults,
+    })),
+  });
+});
+
+// Strategy Runners Endpoint - running strategies, their position and last order
+app.get("/api/strategies/runners", (req: Request, res: Response) => {
+  res.json({ runners: listStrategyRunners() });
+});
+
+// Start Strategy Runner Endpoint - body is a RunnerConfig
+app.post("/api/strategies/runners", async (req: Request, res: Response) => {
+  try {
+    const runner = await startStrategyRunner(
+      req.body as RunnerConfig,
+      strategyRunnerDependencies
+    );
+    res.status(201).json({ success: true, runner });
+  } catch (error) {
+    const err = error as Error;
+    res.status(400).json({
+      error: "Failed to start strategy runner",
+      details: err.message,
+    });
+  }
+});
+
+// Stop Strategy Runner Endpoint - leaves its position and orders in place
+app.delete("/api/strategies/runners/:id", (req: Request, res: Response) => {
+  if (!stopStrategyRunner(req.params.id)) {
+    return res
+      .status(404)
+      .json({ error: `No strategy runner ${req.params.id}` });
+  }
+  res.json({ success: true });
+});
+
+// Optimizations Endpoint - searches stored by `npm run optimize`, newest first
+app.get("/api/optimizations", async (req: Request, res: Response) => {
+  try {
+    res.json({ optimizations: await listOptimizations() });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({
+      error: "Failed to list optimizations",
+      details: err.message,
+    });
+  }
+});
+
+// Optimization Endpoint - one stored search with its ranked runs and
+// walk-forward windows
+app.get("/api/optimizations/:id", async (req: Request, res: Response) => {
+  try {
+    const optimization = await getOptimization(parseInt(req.params.id));
+    if (!optimization) {
+      return res
+        .status(404)
+        .json({ error: `No optimization ${req.params.id}` });
+    }
+    res.json(optimization);
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({
+      error: "Failed to fetch optimization",
+      details: err.message,
+    });
+  }
+});
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// ORDERS
+//
+// Orders Endpoint - tracked orders, newest first
+// status takes a comma-separated list, or "open" for pending, working and
+// partially filled orders
+app.get("/api/orders", async (req: Request, res: Response) => {
+  try {
+    const status =
+      typeof req.query.status === "string" ? req.query.status : undefined;
+    const limit = Math.min(
+      parseInt(String(req.query.limit ?? "100")) || 100,
+      1000
+    );
+    const orders = await listOrders({
+      broker:
+        typeof req.query.broker === "string" ? req.query.broker : undefined,
+      statuses: status === "open" ? OPEN_ORDER_STATUSES : status?.split(","),
+      limit: limit,
+    });
+    res.json(orders);
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({
+      error: "Failed to fetch orders",
+      details: err.message,
+    });
+  }
+});
+
+// Order Cancel Endpoint - cancels a working order with its broker
+app.post(
+  "/api/orders/:broker/:orderId/cancel",
+  async (req: Request, res: Response) => {
+    const broker = String(req.params.broker);
+    // Order ids are stored as text
+    const orderId = String(req.params.orderId);
+    const adapter = getBroker(broker);
+    if (!adapter) {
+      return res.status(400).json({ error: `Unknown broker: ${broker}` });
+    }
+    try {
+      const order = await getOrder(adapter.name, orderId);
+      if (!order) {
+        return res.status(404).json({ error: `No order ${orderId}` });
+      }
+      if (!OPEN_ORDER_STATUSES.includes(order.status)) {
+        return res
+          .status(409)
+          .json({ error: `Order ${orderId} is already ${order.status}` });
+      }
+      const accountId = order.accountId ?? adapter.defaultAccountId();
+      if (accountId === undefined) {
+        return res
+          .status(400)
+          .json({ error: `No account for ${adapter.name} order ${orderId}` });
+      }
+      const brokerOrderId = order.orderId ?? orderId;
+      await adapter.cancelOrder(accountId, brokerOrderId);
+      console.log(`[ORDER] Cancelled ${adapter.name} order ${orderId}`);
+      const tracked = await applyOrderUpdate(
+        {
+          broker: adapter.name,
+          accountId: accountId,
+          orderId: brokerOrderId,
+          contractId: order.contractId,
+          side: order.side === "buy" ? "buy" : "sell",
+          type: order.type as OrderType,
+          quantity: order.quantity,
+          filledQuantity: order.filledQuantity,
+          limitPrice: order.limitPrice,
+          stopPrice: order.stopPrice,
+          linkedOrderId: order.linkedOrderId,
+          status: "cancelled",
+          creationTimestamp: order.creationTimestamp,
+          updateTimestamp: new Date().toISOString(),
         },
+        "Cancelled from dashboard"
+      );
+      if (tracked) broadcastOrderUpdate(tracked);
+      // Linked bracket exits may have been cancelled along with the order
+      syncOrders(adapter, accountId);
+      res.json({ success: true, order: tracked ?? order });
+    } catch (error) {
+      const err = error as Error;
+      res.status(500).json({
+        error: `Failed to cancel ${adapter.name} order`,
+        details: err.message,
+      });
+    }
+  }
+);
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// POSITIONS
+//
+// Positions Endpoint - net quantity and average price per account and contract,
+// with the net and gross exposure of each account
+app.get("/api/positions", (req: Request, res: Response) => {
+  const broker =
+    typeof req.query.broker === "string"
+      ? req.query.broker.toLowerCase()
+      : undefined;
+  const accountId =
+    typeof req.query.accountId === "string"
+      ? parseInt(req.query.accountId)
+      : undefined;
+  const matches = (entry: { broker: string; accountId: number }) =>
+    (!broker || entry.broker === broker) &&
+    (accountId === undefined || entry.accountId === accountId);
+  res.json({
+    positions: getPositions(req.query.includeFlat === "true").filter(matches),
+    accounts: getAccountExposure().filter(matches),
+  });
+});
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// RISK
+//
+// Risk Status Endpoint - configured limits and the positions they are checked against
+app.get("/api/risk", (req: Request, res: Response) => {
+  res.json(getRiskState());
+});
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// BROKERS
+//
+// Accounts Endpoint - tradable accounts per broker and the configured groups
+// Pass refresh=true to list them from the brokers again
+app.get("/api/accounts", async (req: Request, res: Response) => {
+  try {
+    if (req.query.refresh === "true") {
+      for (const name of listBrokers()) {
+        const adapter = getBroker(name);
+        if (adapter && getSyncAccountIds(adapter).length > 0) {
+          await refreshAccounts(adapter);
+        }
+      }
+    }
+    const broker =
+      typeof req.query.broker === "string" ? req.query.broker : undefined;
+    res.json({ accounts: getAccounts(broker), groups: getAccountGroups() });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to fetch accounts",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// List the contracts the registry has resolved for root symbols
+app.get("/api/contracts", (req: Request, res: Response) => {
+  const broker =
+    typeof req.query.broker === "string" ? req.query.broker : undefined;
+  res.json({ contracts: getRegisteredContracts(broker) });
+});
+
+// Resolve a root symbol to the contract currently traded for it
+app.get(
+  "/api/contracts/:broker/:symbol",
+  async (req: Request, res: Response) => {
+    const adapter = getBroker(String(req.params.broker));
+    if (!adapter) {
+      return res.status(404).json({ error: "Unknown broker" });
+    }
+    try {
+      res.json({
+        contract: await resolveSymbol(adapter, String(req.params.symbol)),
       });
-      res.json(response.data);
-      process.env.TOPSTEP_API_SESSION_TOKEN = response.data.token;
-      console.log(`Topstep session token fetched and stored successfully.`);
     } catch (error) {
-      const err = error as Error;
       res.status(500).json({
-        error: "Failed to fetch Topstep session token",
-        details: err.message,
+        error: "Failed to resolve contract",
+        details: error instanceof Error ? error.message : String(error),
       });
     }
   }
 );
 
-// Schedule Topstep token refresh every 24 hours
-cron.schedule("0 0 * * *", async () => {
+// List the brokers that alerts and dashboard requests can be routed to
+app.get("/api/brokers", (req: Request, res: Response) => {
+  res.json({ brokers: listBrokers() });
+});
+
+/**
+ * Places an order and tracks it in the orders table from pending onwards
+ * @param signalId Signal the order was placed for, if any
+ */
+async function placeTrackedOrder(
+  adapter: BrokerAdapter,
+  order: OrderRequest,
+  signalId?: number
+): Promise<OrderResult> {
+  const trackedId = await createPendingOrder(adapter.name, order, signalId);
+  let orderResult: OrderResult;
   try {
-    const username = process.env.TOPSTEP_USERNAME;
-    const apiKey = process.env.TOPSTEP_API_KEY;
-    if (!username || !apiKey) {
-      console.error(
-        "TOPSTEP_USERNAME and TOPSTEP_API_KEY are required in .env.local for scheduled token refresh"
-      );
+    orderResult = await adapter.placeOrder(order);
+  } catch (error) {
+    const tracked = await recordPlaceResult(trackedId, error as Error);
+    if (tracked) broadcastOrderUpdate(tracked);
+    throw error;
+  }
+  const tracked = await recordPlaceResult(trackedId, orderResult);
+  if (tracked) broadcastOrderUpdate(tracked);
+  // Pick up the fill or bracket legs the broker created for the order
+  syncOrders(adapter, order.accountId);
+  return orderResult;
+}
+
+/**
+ * Polls a broker's orders from the last day and applies their states
+ * @param adapter Broker adapter to poll
+ * @param accountId Account to poll, defaults to the adapter's default account
+ */
+async function syncOrders(adapter: BrokerAdapter, accountId?: number) {
+  try {
+    const syncAccountId = accountId ?? adapter.defaultAccountId();
+    if (syncAccountId === undefined) {
       return;
     }
-    const url = "https://api.topstepx.com/api/Auth/loginKey";
-    const payload = { username, apiKey };
-    const response = await axios.post(url, payload, {
-      headers: {
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      },
-    });
-    process.env.TOPSTEP_API_SESSION_TOKEN = response.data.token;
-    console.log("[CRON] Topstep session token refreshed successfully.");
-  } catch (error) {
+    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const orders = await adapter.searchOrders(
+      syncAccountId,
+      oneDayAgo.toISOString()
+    );
+    let updated = 0;
+    for (const order of orders) {
+      const tracked = await applyOrderUpdate(order);
+      if (tracked) {
+        updated++;
+        broadcastOrderUpdate(tracked);
+        // Resting orders placed for a signal complete it once they fill
+        if (tracked.signalId !== null && tracked.status === "filled") {
+          await updateSignal(tracked.signalId, { outcome: "filled" });
+        }
+      }
+    }
+    if (updated > 0) {
+      console.log(
+        `[SYNC] ${adapter.name} order sync: ${orders.length} orders, ${updated} updated`
+      );
+    }
+  } catch (syncError) {
     console.error(
-      "[CRON] Failed to refresh Topstep session token:",
-      error instanceof Error ? error.message : String(error)
+      `[SYNC] Failed to sync ${adapter.name} orders:`,
+      syncError instanceof Error ? syncError.message : String(syncError)
     );
   }
+}
+
+// Poll every broker's orders every minute, for each of its accounts
+cron.schedule("* * * * *", async () => {
+  for (const name of listBrokers()) {
+    const adapter = getBroker(name);
+    if (!adapter) continue;
+    for (const accountId of getSyncAccountIds(adapter)) {
+      await syncOrders(adapter, accountId);
+    }
+  }
 });
 
+/**
+ * Fetches the last minute of fills from a broker and logs them to the database
+ * @param adapter Broker adapter to sync from
+ * @param accountId Account to sync, defaults to the adapter's default account
+ */
+async function syncRecentTrades(adapter: BrokerAdapter, accountId?: number) {
+  try {
+    const syncAccountId = accountId ?? adapter.defaultAccountId();
+    if (syncAccountId === undefined) {
+      console.error("[SYNC] Missing account ID for immediate trade sync");
+      return;
+    }
+    const now = new Date();
+    const oneMinuteAgo = new Date(now.getTime() - 60000); // 1 minute ago
+    const trades = await adapter.searchTrades(
+      syncAccountId,
+      oneMinuteAgo.toISOString(),
+      now.toISOString()
+    );
+    const { inserted, skipped } = await logTradesToDatabase(trades);
+    console.log(
+      `[SYNC] Immediate ${adapter.name} sync: ${trades.length} trades, ${inserted} inserted, ${skipped} skipped (duplicates)`
+    );
+  } catch (syncError) {
+    console.error(
+      "[SYNC] Failed to sync trades after order:",
+      syncError instanceof Error ? syncError.message : String(syncError)
+    );
+  }
+}
+
+/**
+ * Fetches a range of fills from a broker in chunks and logs them to the database
+ * @returns Counts of fills found, inserted and skipped (duplicates)
+ */
+async function syncTradesRange(
+  adapter: BrokerAdapter,
+  accountId: number,
+  startTimestamp: string,
+  endTimestamp: string
+): Promise<{ found: number; inserted: number; skipped: number }> {
+  const totals = { found: 0, inserted: 0, skipped: 0 };
+  for (const window of splitSyncWindows(startTimestamp, endTimestamp)) {
+    const trades = await adapter.searchTrades(
+      accountId,
+      window.startTimestamp,
+      window.endTimestamp
+    );
+    const { inserted, skipped } = await logTradesToDatabase(trades);
+    totals.found += trades.length;
+    totals.inserted += inserted;
+    totals.skipped += skipped;
+  }
+  return totals;
+}
+
+/**
+ * Fetches the fills since an account's sync cursor and moves the cursor on
+ */
+async function syncTradesSinceCursor(
+  adapter: BrokerAdapter,
+  accountId: number
+) {
+  const endTimestamp = new Date().toISOString();
+  const startTimestamp = await getIncrementalStart(
+    adapter.name,
+    accountId,
+    getDefaultSyncStart()
+  );
+  const totals = await syncTradesRange(
+    adapter,
+    accountId,
+    startTimestamp,
+    endTimestamp
+  );
+  await advanceSyncCursor(adapter.name, accountId, endTimestamp);
+  return totals;
+}
+
 // Schedule trade data synchronization every 1 minute
 // Using standard cron format: minute hour day-of-month month day-of-week
+cron.schedule("* * * * *", async () => {
+  if (!initialSyncDone) return;
+  for (const name of listBrokers()) {
+    const adapter = getBroker(name);
+    if (!adapter) continue;
+    for (const accountId of getSyncAccountIds(adapter)) {
+      try {
+        const { found, inserted } = await syncTradesSinceCursor(
+          adapter,
+          accountId
+        );
+        if (inserted > 0) {
+          console.log(
+            `[SYNC] Scheduled ${name} sync of account ${accountId}: ${found} trades, ${inserted} inserted`
+          );
+        }
+      } catch (error) {
+        console.error(
+          `[SYNC] Scheduled ${name} sync of account ${accountId} failed:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+});
 
 /////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // SERVER
@@ -471,53 +1352,40 @@ async function initializeTopstepSessionAndAccount() {
       return;
     }
     // Fetch session token
-    const tokenRes = await axios.post(
-      "https://api.topstepx.com/api/Auth/loginKey",
-      { username, apiKey },
-      {
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    process.env.TOPSTEP_API_SESSION_TOKEN = tokenRes.data.token;
+    await topstepAdapter.authenticate();
     console.log("[INIT] Topstep session token fetched successfully.");
-    // Fetch accountId
-    const accountRes = await axios.post(
-      "https://api.topstepx.com/api/Account/search",
-      {},
-      {
-        headers: {
-          accept: "application/json",
-          Authorization: `Bearer ${process.env.TOPSTEP_API_SESSION_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
+    // Every tradable account is synced; ACCOUNT_NAME picks the default one
+    const accounts = await refreshAccounts(topstepAdapter);
+    const tradable = accounts.find((acc) =>
+      acc.name
+        .toUpperCase()
+        .startsWith(process.env.ACCOUNT_NAME?.toUpperCase() ?? "")
     );
-    if (Array.isArray(accountRes.data.accounts)) {
-      const tradable = accountRes.data.accounts.find(
-        (acc: any) =>
-          acc.canTrade &&
-          acc.name
-            .toUpperCase()
-            .startsWith(process.env.ACCOUNT_NAME?.toUpperCase())
+    if (tradable) {
+      process.env.TOPSTEP_ACCOUNT_ID = String(tradable.id);
+      console.log(
+        `[INIT] Topstep account ID for ${tradable.name} fetched and stored successfully.`
       );
-      if (tradable) {
-        process.env.TOPSTEP_ACCOUNT_ID = tradable.id;
-        console.log(
-          `[INIT] Topstep account ID for ${tradable.name} fetched and stored successfully.`
-        );
-      } else {
-        console.warn(
-          "[INIT] No tradable Topstep account found matching accountType."
+    } else {
+      console.warn(
+        "[INIT] No tradable Topstep account found matching accountType."
+      );
+    }
+    // Resolve the front month of the symbols listed in TOPSTEP_SYMBOLS
+    const symbols = (process.env.TOPSTEP_SYMBOLS || "")
+      .split(",")
+      .map((symbol) => symbol.trim())
+      .filter(Boolean);
+    for (const symbol of symbols) {
+      try {
+        await resolveSymbol(topstepAdapter, symbol);
+      } catch (error) {
+        console.error(
+          `[INIT] Failed to resolve Topstep symbol ${symbol}:`,
+          error instanceof Error ? error.message : String(error)
         );
       }
-    } else {
-      console.warn("[INIT] No accounts array in Topstep account response.");
     }
-    // Fetch contractId for default symbol
 
     // Initial sync of trades from the beginning of the month
     await performInitialTradeSync();
@@ -529,68 +1397,44 @@ async function initializeTopstepSessionAndAccount() {
   }
 }
 
-// Perform initial sync of trades from the beginning of the month
+// Perform initial sync of trades since the last sync (or the beginning of the month)
 async function performInitialTradeSync() {
   try {
-    const sessionToken = process.env.TOPSTEP_API_SESSION_TOKEN;
-    const accountId = process.env.TOPSTEP_ACCOUNT_ID;
+    const { authenticated } = getSessionStatus();
+    const accountIds = getSyncAccountIds(topstepAdapter);
 
     console.log(
-      `[INIT] Starting initial trade sync for accountId: ${accountId}`
+      `[INIT] Starting initial trade sync for accounts: ${accountIds.join(", ")}`
     );
     console.log(
-      `[INIT] Using session token: ${sessionToken ? "available" : "not set"}`
+      `[INIT] Using session token: ${authenticated ? "available" : "not set"}`
     );
 
-    if (!sessionToken || !accountId) {
+    if (!authenticated || accountIds.length === 0) {
       console.error(
         "[INIT] Missing session token or account ID for initial trade synchronization"
       );
       return;
     }
 
-    // Use first day of current month as startTimestamp and current time as endTimestamp
-    const startTimestamp = getFirstDayOfCurrentMonth();
-    const endTimestamp = new Date().toISOString();
-
-    console.log(
-      `[INIT] Performing initial sync of trades from ${startTimestamp} to ${endTimestamp}`
-    );
-
-    const url = `https://api.topstepx.com/api/Trade/search`;
-    const payload = {
-      accountId: parseInt(accountId),
-      startTimestamp: startTimestamp,
-      endTimestamp: endTimestamp,
-    };
-
-    const response = await axios.post(url, payload, {
-      headers: {
-        accept: "text/plain",
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${sessionToken}`,
-      },
-    });
-
-    // Log trades to the database
-    if (
-      response.data &&
-      response.data.trades &&
-      Array.isArray(response.data.trades)
-    ) {
-      const { inserted, skipped } = await logTopstepTradesToDatabase(
-        response.data.trades
-      );
-      console.log(
-        `[INIT] Initial sync completed: ${response.data.trades.length} trades found, ${inserted} inserted, ${skipped} skipped`
+    // Pick up from each account's sync cursor; history from earlier runs is kept
+    for (const accountId of accountIds) {
+      const { found, inserted, skipped } = await syncTradesSinceCursor(
+        topstepAdapter,
+        accountId
       );
-
-      // Mark initial sync as complete
-      initialSyncDone = true;
-    } else {
-      console.log(`[INIT] Initial sync completed: No trades found`);
-      initialSyncDone = true;
+      if (found > 0) {
+        console.log(
+          `[INIT] Initial sync of account ${accountId} completed: ${found} trades found, ${inserted} inserted, ${skipped} skipped`
+        );
+      } else {
+        console.log(
+          `[INIT] Initial sync of account ${accountId} completed: No trades found`
+        );
+      }
     }
+    // Mark initial sync as complete
+    initialSyncDone = true;
   } catch (error) {
     console.error(
       "[INIT] Failed to perform initial trade sync:",
@@ -601,20 +1445,67 @@ async function performInitialTradeSync() {
   }
 }
 
+// Check the IBKR gateway session, discover its accounts and sync their trades
+async function initializeIbkrGateway() {
+  const adapter = getBroker("ibkr");
+  if (
+    !adapter ||
+    (!process.env.IBKR_GATEWAY_URL && !process.env.IBKR_ACCOUNT_ID)
+  ) {
+    return;
+  }
+  try {
+    await adapter.authenticate();
+    const accounts = await refreshAccounts(adapter);
+    console.log(
+      `[INIT] IBKR gateway session ready with accounts: ${accounts.map((acc) => acc.name).join(", ")}`
+    );
+    for (const accountId of getSyncAccountIds(adapter)) {
+      await syncTradesSinceCursor(adapter, accountId);
+    }
+  } catch (error) {
+    console.error(
+      "[INIT] Failed to initialize IBKR gateway session:",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+// List the accounts of the remaining configured brokers (paper, Kraken)
+async function initializeAccounts() {
+  for (const name of listBrokers()) {
+    const adapter = getBroker(name);
+    if (
+      adapter &&
+      adapter.defaultAccountId() !== undefined &&
+      getAccounts(name).length === 0
+    ) {
+      await refreshAccounts(adapter);
+    }
+  }
+}
+
 // PORT FOR THE SERVER
 const PORT = process.env.PORT || 4000;
 if (process.env.NODE_ENV !== "test") {
-  // Clear the trades table on server startup
-  clearTradesTable()
+  tradesDbReady
+    .then(() => rebuildPositions())
     .then(() => {
       // Initialize Topstep session and account
       return initializeTopstepSessionAndAccount();
     })
+    .then(() => initializeIbkrGateway())
+    .then(() => initializeAccounts())
     .finally(() => {
+      // Scheduled syncs may start even if the initial sync could not run
+      initialSyncDone = true;
+
       server.listen(PORT, () => {
         console.log(`[INIT] Backend server running on port ${PORT}`);
       });
 
+      startConfiguredRunners(strategyRunnerDependencies);
+
       // Setup Socket.IO event handlers
       io.on("connection", (socket) => {
         console.log("[SOCKET] New client connected:", socket.id);
@@ -632,28 +1523,208 @@ export function broadcastNewTrade(trade: any) {
   console.log("[SOCKET] Broadcasted new trade to all clients");
 }
 
-// Recreate the /api/trades endpoint
-app.get("/api/trades", (req: Request, res: Response) => {
-  tradesDb.all(
-    "SELECT * FROM trades WHERE profitAndLoss IS NOT NULL ORDER BY creationTimestamp DESC",
-    (err, rows) => {
-      if (err) {
-        console.error("Failed to fetch trades:", err.message);
-        return res.status(500).json({ error: "Failed to fetch trades" });
-      }
-      res.json(rows || []);
+// Helper function to broadcast position changes to all connected clients
+function broadcastPositionUpdate(position: Position) {
+  io.emit("position-update", position);
+}
+
+// Helper function to broadcast order state changes to all connected clients
+function broadcastOrderUpdate(order: TrackedOrder) {
+  io.emit("order-update", order);
+}
+
+// Trade Backfill Endpoint - syncs an arbitrary date range in chunks
+app.post("/api/trades/backfill", async (req: Request, res: Response) => {
+  const { broker, accountId, startTimestamp, endTimestamp } = req.body as {
+    broker: string;
+    accountId?: number;
+    startTimestamp: string;
+    endTimestamp?: string;
+  };
+  const adapter = broker ? getBroker(broker) : undefined;
+  if (!adapter) {
+    return res.status(400).json({ error: `Unknown broker: ${broker}` });
+  }
+  const syncAccountId = accountId ?? adapter.defaultAccountId();
+  const start = new Date(startTimestamp);
+  const end = endTimestamp ? new Date(endTimestamp) : new Date();
+  if (syncAccountId === undefined) {
+    return res
+      .status(400)
+      .json({ error: `No account for ${adapter.name} backfill` });
+  }
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+    return res
+      .status(400)
+      .json({ error: "startTimestamp must be a date before endTimestamp" });
+  }
+
+  try {
+    console.log(
+      `[SYNC] Backfilling ${adapter.name} account ${syncAccountId} from ${start.toISOString()} to ${end.toISOString()}`
+    );
+    const totals = await syncTradesRange(
+      adapter,
+      syncAccountId,
+      start.toISOString(),
+      end.toISOString()
+    );
+    console.log(
+      `[SYNC] Backfill completed: ${totals.found} trades, ${totals.inserted} inserted, ${totals.skipped} skipped (duplicates)`
+    );
+    res.json({ success: true, ...totals });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({
+      error: `Failed to backfill ${adapter.name} trades`,
+      details: err.message,
+    });
+  }
+});
+
+// Trade Sync Status Endpoint - how far each account has been synced
+app.get("/api/trades/sync", async (req: Request, res: Response) => {
+  try {
+    res.json(await listSyncCursors());
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({
+      error: "Failed to fetch sync cursors",
+      details: err.message,
+    });
+  }
+});
+
+// Trade history, filtered and paginated:
+// broker, accountId, contractId, side, strategy, from, to, minPnl, maxPnl,
+// closed (default true: only fills with realized P&L), sort, order, limit, cursor
+app.get("/api/trades", async (req: Request, res: Response) => {
+  const parsed = parseTradeFilters(req.query as Record<string, unknown>);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const sort = String(req.query.sort ?? "creationTimestamp");
+  if (!isTradeSortField(sort)) {
+    return res.status(400).json({ error: `Cannot sort trades by ${sort}` });
+  }
+  const limit = Math.min(
+    parseInt(String(req.query.limit ?? "100")) || 100,
+    1000
+  );
+  try {
+    res.json(
+      await listTrades(parsed.filters, {
+        sort,
+        order: req.query.order === "asc" ? "asc" : "desc",
+        limit,
+        cursor:
+          typeof req.query.cursor === "string" ? req.query.cursor : undefined,
+      })
+    );
+  } catch (error) {
+    const err = error as Error;
+    if (err.message === "Invalid cursor") {
+      return res.status(400).json({ error: err.message });
     }
+    console.error("Failed to fetch trades:", err.message);
+    res.status(500).json({ error: "Failed to fetch trades" });
+  }
+});
+
+// Trade totals for the same filters, optionally grouped by day, broker,
+// account, contract or strategy
+app.get("/api/trades/summary", async (req: Request, res: Response) => {
+  const parsed = parseTradeFilters(req.query as Record<string, unknown>);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const groupBy =
+    typeof req.query.groupBy === "string" ? req.query.groupBy : undefined;
+  if (groupBy !== undefined && !isTradeGrouping(groupBy)) {
+    return res.status(400).json({ error: `Cannot group trades by ${groupBy}` });
+  }
+  try {
+    res.json(await summarizeTrades(parsed.filters, groupBy));
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({
+      error: "Failed to summarize trades",
+      details: err.message,
+    });
+  }
+});
+
+// Round trips paired from fills, with per-trip totals. Takes the trade
+// history filters plus includeOpen and limit
+app.get("/api/trades/round-trips", async (req: Request, res: Response) => {
+  const parsed = parseTradeFilters(req.query as Record<string, unknown>);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const limit = Math.min(
+    parseInt(String(req.query.limit ?? "100")) || 100,
+    1000
+  );
+  try {
+    res.json(
+      await listRoundTrips(parsed.filters, {
+        includeOpen: req.query.includeOpen === "true",
+        limit,
+      })
+    );
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({
+      error: "Failed to build round trips",
+      details: err.message,
+    });
+  }
+});
+
+// Live fills lined up with the strategy's signals or a backtest over the same
+// period (source=signals|backtest), with slippage, missed entries, extra
+// fills and P&L differences. Takes the trade history filters plus the
+// reconciliation options and limit
+app.get("/api/trades/reconciliation", async (req: Request, res: Response) => {
+  const parsed = parseReconciliationOptions(
+    req.query as Record<string, unknown>
+  );
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const limit = Math.min(
+    parseInt(String(req.query.limit ?? "100")) || 100,
+    1000
   );
+  try {
+    res.json(await reconcile(parsed.options, limit));
+  } catch (error) {
+    const err = error as Error;
+    console.error("[RECONCILE] Failed to reconcile trades:", err.message);
+    res.status(500).json({
+      error: "Failed to reconcile trades",
+      details: err.message,
+    });
+  }
 });
 
 // Endpoint to clear the trades table
 app.delete("/api/trades", (req: Request, res: Response) => {
-  tradesDb.run("DELETE FROM trades", (err) => {
+  tradesDb.run("DELETE FROM trades", async (err) => {
     if (err) {
       console.error("Failed to clear trades table:", err.message);
       return res.status(500).json({ error: "Failed to clear trades table" });
     }
+    // Without their cursors, the next sync fetches the cleared fills again
+    try {
+      await clearSyncCursors();
+    } catch (error) {
+      const cursorErr = error as Error;
+      console.error("Failed to clear sync cursors:", cursorErr.message);
+      return res.status(500).json({ error: "Failed to clear sync cursors" });
+    }
     console.log("Trades table cleared successfully");
+    rebuildPositions();
     res.json({ success: true, message: "Trades table cleared successfully" });
   });
 });
@@ -668,51 +1739,34 @@ app.post("/api/trade/topstep/data", async (req: Request, res: Response) => {
   };
 
   try {
-    const sessionToken = process.env.TOPSTEP_API_SESSION_TOKEN;
-    if (!sessionToken) {
-      return res
-        .status(400)
-        .json({ error: "TOPSTEP_API_SESSION_TOKEN is required in .env.local" });
+    if (!isTopstepConfigured()) {
+      return res.status(400).json({
+        error:
+          "TOPSTEP_USERNAME and TOPSTEP_API_KEY are required in .env.local",
+      });
     }
 
     // Use first day of current month as startTimestamp and current time as endTimestamp
     const startTimestamp = getFirstDayOfCurrentMonth();
     const endTimestamp = new Date().toISOString();
 
-    const url = `https://api.topstepx.com/api/Trade/search`;
-    const payload = {
-      accountId: accountId,
-      startTimestamp: startTimestamp,
-      endTimestamp: endTimestamp,
-    };
-
     console.log(
       `[TOPSTEP] Fetching trades from ${startTimestamp} to ${endTimestamp}`
     );
 
-    const response = await axios.post(url, payload, {
-      headers: {
-        accept: "text/plain",
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${sessionToken}`,
-      },
-    });
+    const trades = await topstepAdapter.searchTrades(
+      accountId,
+      startTimestamp,
+      endTimestamp
+    );
 
     // Log trades to the database
-    if (
-      response.data &&
-      response.data.trades &&
-      Array.isArray(response.data.trades)
-    ) {
-      const { inserted, skipped } = await logTopstepTradesToDatabase(
-        response.data.trades
-      );
-      console.log(
-        `[TOPSTEP] Processed ${response.data.trades.length} trades: ${inserted} inserted, ${skipped} skipped (duplicates)`
-      );
-    }
+    const { inserted, skipped } = await logTradesToDatabase(trades);
+    console.log(
+      `[TOPSTEP] Processed ${trades.length} trades: ${inserted} inserted, ${skipped} skipped (duplicates)`
+    );
 
-    res.json(response.data);
+    res.json({ trades });
   } catch (error) {
     const err = error as Error;
     res.status(500).json({
@@ -722,13 +1776,25 @@ app.post("/api/trade/topstep/data", async (req: Request, res: Response) => {
   }
 });
 
+// Syncs for several accounts can finish at once; their transactions must not overlap
+let tradeLogQueue: Promise<unknown> = Promise.resolve();
+
 /**
- * Logs Topstep trades to the SQLite database, checking for duplicates
- * @param trades Array of trade objects from Topstep API
+ * Logs broker trades to the SQLite database, checking for duplicates
+ * Calls are queued so only one transaction runs at a time
+ * @param trades Array of normalized fills from a broker adapter
  * @returns Promise that resolves with counts of inserted and skipped trades
  */
-function logTopstepTradesToDatabase(
-  trades: any[]
+function logTradesToDatabase(
+  trades: BrokerTrade[]
+): Promise<{ inserted: number; skipped: number }> {
+  const result = tradeLogQueue.then(() => insertTrades(trades));
+  tradeLogQueue = result.catch(() => undefined);
+  return result;
+}
+
+function insertTrades(
+  trades: BrokerTrade[]
 ): Promise<{ inserted: number; skipped: number }> {
   // console.log(
   //   "[DEBUG] tradesDb is",
@@ -744,19 +1810,34 @@ function logTopstepTradesToDatabase(
       tradesDb.run("BEGIN TRANSACTION");
 
       try {
+        // Oldest first, so fills without P&L are matched against the
+        // fills before them
+        const ordered = [...trades].sort((a, b) =>
+          a.creationTimestamp.localeCompare(b.creationTimestamp)
+        );
+        const insertedTrades: { id: number; trade: BrokerTrade }[] = [];
         // Process each trade one by one to check for duplicates
-        for (const trade of trades) {
-          // Skip trades with null profitAndLoss without incrementing skipped count
-          if (trade.profitAndLoss === null) {
-            //console.log(`[DB] Skipping trade with null profitAndLoss: ${trade.orderId}`);
-            continue;
-          }
-
+        for (const trade of ordered) {
+          const tradeToInsert = { ...trade };
+          let insertedId: number | undefined;
           // Check if this trade already exists in the database
           await new Promise<void>((resolveTrade, rejectTrade) => {
+            // Fills with a broker trade id match on it; rows from before it
+            // was stored, and brokers without one, match on account, order
+            // and time. Unique indexes on both back this up
             tradesDb.get(
-              "SELECT COUNT(*) as count FROM trades WHERE broker = ? AND orderId = ? AND creationTimestamp = ?",
-              ["topstep", trade.orderId, trade.creationTimestamp],
+              `SELECT COUNT(*) as count FROM trades WHERE broker = ? AND (
+                brokerTradeId = ? OR
+                (brokerTradeId IS NULL AND accountId = ? AND orderId = ?
+                  AND creationTimestamp = ?)
+              )`,
+              [
+                trade.broker,
+                trade.brokerTradeId ?? null,
+                trade.accountId,
+                orderIdParam(trade.orderId),
+                trade.creationTimestamp,
+              ],
               (err, row: { count: number }) => {
                 if (err) {
                   rejectTrade(err);
@@ -765,30 +1846,20 @@ function logTopstepTradesToDatabase(
 
                 // If trade doesn't exist, insert it
                 if (row.count === 0) {
-                  // Convert the side number to a string (0 = 'buy', 1 = 'sell')
-                  // we use trae.side === 1 ? 'buy' : 'sell' because the opposite side is used to fill an order of given side
-                  const sideText = trade.side === 1 ? "buy" : "sell";
-
-                  const tradeToInsert = {
-                    broker: "topstep",
-                    accountId: trade.accountId,
-                    contractId: trade.contractId,
-                    creationTimestamp: trade.creationTimestamp,
-                    price: trade.price,
-                    profitAndLoss: trade.profitAndLoss,
-                    fees: trade.fees * 2,
-                    side: sideText,
-                    size: trade.size,
-                    orderId: trade.orderId,
-                  };
-
                   tradesDb.run(
-                    `INSERT INTO trades (
+                    `INSERT OR IGNORE INTO trades (
                       broker, accountId, contractId, creationTimestamp, 
-                      price, profitAndLoss, fees, side, size, orderId
-                    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                      price, profitAndLoss, fees, side, size, orderId,
+                      brokerTradeId, strategy
+                    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (
+                      SELECT s.strategy FROM orders o
+                      LEFT JOIN orders parent
+                        ON parent.broker = o.broker AND parent.orderId = o.linkedOrderId
+                      JOIN signals s ON s.id = COALESCE(o.signalId, parent.signalId)
+                      WHERE o.broker = ? AND o.orderId = ?
+                    ))`,
                     [
-                      tradeToInsert.broker, // broker (hardcoded as 'topstep')
+                      tradeToInsert.broker, // broker
                       tradeToInsert.accountId, // accountId
                       tradeToInsert.contractId, // contractId
                       tradeToInsert.creationTimestamp, // creationTimestamp
@@ -797,15 +1868,22 @@ function logTopstepTradesToDatabase(
                       tradeToInsert.fees, // fees
                       tradeToInsert.side, // side (as text)
                       tradeToInsert.size, // size
-                      tradeToInsert.orderId, // orderId
+                      orderIdParam(tradeToInsert.orderId), // orderId
+                      tradeToInsert.brokerTradeId ?? null, // brokerTradeId
+                      // strategy, from the signal behind the order or its entry
+                      tradeToInsert.broker,
+                      orderIdParam(tradeToInsert.orderId),
                     ],
                     function (err) {
                       if (err) {
                         rejectTrade(err);
+                      } else if (this.changes === 0) {
+                        // A fill the indexes already hold
+                        skipped++;
+                        resolveTrade();
                       } else {
                         inserted++;
-                        // Broadcast new trade to all connected clients
-                        broadcastNewTrade(tradeToInsert);
+                        insertedId = this.lastID;
                         resolveTrade();
                       }
                     }
@@ -818,6 +1896,60 @@ function logTopstepTradesToDatabase(
               }
             );
           });
+          if (insertedId !== undefined) {
+            insertedTrades.push({ id: insertedId, trade: tradeToInsert });
+          }
+        }
+
+        // Work out the P&L of closing fills the broker reported none for,
+        // once per account and contract from its earliest new fill on
+        const earliest = new Map<string, { id: number; trade: BrokerTrade }>();
+        for (const inserted of insertedTrades) {
+          const { broker, accountId, contractId } = inserted.trade;
+          const key = `${broker}:${accountId}:${contractId}`;
+          if (getBroker(broker)?.fillsWithoutPnl && !earliest.has(key)) {
+            earliest.set(key, inserted);
+          }
+        }
+        for (const { id, trade } of earliest.values()) {
+          const changes = await realizePnlSince(getBroker(trade.broker)!, {
+            ...trade,
+            id,
+            brokerTradeId: trade.brokerTradeId ?? null,
+            strategy: null,
+          });
+          for (const change of changes) {
+            await new Promise<void>((resolveUpdate, rejectUpdate) => {
+              tradesDb.run(
+                "UPDATE trades SET profitAndLoss = ?, derivedPnl = ? WHERE id = ?",
+                [
+                  change.profitAndLoss,
+                  change.profitAndLoss === null ? 0 : 1,
+                  change.id,
+                ],
+                (err) => {
+                  if (err) {
+                    rejectUpdate(err);
+                  } else {
+                    resolveUpdate();
+                  }
+                }
+              );
+            });
+            const inserted = insertedTrades.find(
+              (candidate) => candidate.id === change.id
+            );
+            if (inserted) {
+              inserted.trade.profitAndLoss = change.profitAndLoss;
+            }
+          }
+        }
+
+        for (const { trade } of insertedTrades) {
+          // Broadcast new trade to all connected clients
+          broadcastNewTrade(trade);
+          // Opening fills count too: they change the position
+          broadcastPositionUpdate(applyFillToPosition(trade));
         }
 
         // Commit the transaction
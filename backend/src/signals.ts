@@ -0,0 +1,151 @@
+// Signal log
+//
+// Every authenticated alert is stored in the signals table when it arrives
+// and updated as it moves through validation, the risk engine and the broker,
+// so it is always possible to tell why an alert did or did not become a trade.
+import { tradesDb } from "../logger/db";
+
+export type SignalValidation = "pending" | "valid" | "invalid";
+export type SignalOutcome = "pending" | "filled" | "rejected" | "errored";
+
+export interface Signal {
+  id: number;
+  receivedAt: string;
+  updatedAt: string;
+  strategy: string | null;
+  broker: string | null;
+  payload: string;
+  validation: SignalValidation;
+  validationError: string | null;
+  riskDecision: string | null;
+  riskReason: string | null;
+  orderId: string | null;
+  outcome: SignalOutcome;
+  outcomeDetail: string | null;
+}
+
+export type SignalUpdate = Partial<
+  Pick<
+    Signal,
+    | "broker"
+    | "validation"
+    | "validationError"
+    | "riskDecision"
+    | "riskReason"
+    | "orderId"
+    | "outcome"
+    | "outcomeDetail"
+  >
+>;
+
+export interface SignalFilters {
+  strategy?: string;
+  broker?: string;
+  outcome?: string;
+  limit: number;
+}
+
+const UPDATABLE_COLUMNS: (keyof SignalUpdate)[] = [
+  "broker",
+  "validation",
+  "validationError",
+  "riskDecision",
+  "riskReason",
+  "orderId",
+  "outcome",
+  "outcomeDetail",
+];
+
+/**
+ * Stores a newly received alert
+ * @param payload Alert body, stored as JSON with its secret key removed
+ * @returns Id of the new signal
+ */
+export function createSignal(
+  payload: Record<string, unknown>
+): Promise<number> {
+  const redacted = { ...payload };
+  delete redacted.key;
+  const now = new Date().toISOString();
+  return new Promise((resolve, reject) => {
+    tradesDb.run(
+      "INSERT INTO signals (receivedAt, updatedAt, strategy, broker, payload) VALUES (?, ?, ?, ?, ?)",
+      [
+        now,
+        now,
+        typeof payload.strategy === "string" ? payload.strategy : "default",
+        typeof payload.broker === "string"
+          ? payload.broker.toLowerCase()
+          : null,
+        JSON.stringify(redacted),
+      ],
+      function (err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Records the next step of a signal's lifecycle
+ * Failures are logged rather than thrown so they never block order handling
+ * @param id Signal id from createSignal
+ * @param changes Columns to update
+ */
+export function updateSignal(id: number, changes: SignalUpdate): Promise<void> {
+  const columns = UPDATABLE_COLUMNS.filter((column) => column in changes);
+  const values = columns.map((column) => changes[column] ?? null);
+  return new Promise((resolve) => {
+    tradesDb.run(
+      `UPDATE signals SET ${columns
+        .map((column) => `${column} = ?, `)
+        .join("")}updatedAt = ? WHERE id = ?`,
+      [...values, new Date().toISOString(), id],
+      (err) => {
+        if (err) {
+          console.error(`[DB] Failed to update signal ${id}:`, err.message);
+        }
+        resolve();
+      }
+    );
+  });
+}
+
+/**
+ * Lists the most recent signals, newest first
+ */
+export function listSignals(filters: SignalFilters): Promise<Signal[]> {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filters.strategy) {
+    conditions.push("strategy = ?");
+    params.push(filters.strategy);
+  }
+  if (filters.broker) {
+    conditions.push("broker = ?");
+    params.push(filters.broker.toLowerCase());
+  }
+  if (filters.outcome) {
+    conditions.push("outcome = ?");
+    params.push(filters.outcome);
+  }
+  const where =
+    conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      `SELECT * FROM signals${where} ORDER BY id DESC LIMIT ?`,
+      [...params, filters.limit],
+      (err, rows: Signal[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      }
+    );
+  });
+}
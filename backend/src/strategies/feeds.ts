@@ -0,0 +1,227 @@
+// Bar feeds
+//
+// Sources of closed bars for strategy runners. Each feed first hands over
+// history bars, which warm up a strategy's indicators without trading, then
+// live bars as they close, one at a time and oldest first:
+//   csv        replays a CSV file of bars, one every intervalMs
+//   synthetic  a random walk, a bar every intervalMs, for trying runners out
+//   topstep    polls TopstepX History/retrieveBars for newly closed bars
+import { loadBarsCsv } from "../backtest/csv";
+import { retrieveTopstepBars } from "../brokers/topstep";
+import { Bar } from "./types";
+
+export type FeedConfig =
+  | {
+      type: "csv";
+      path: string;
+      // Delay between live bars, default 1000
+      intervalMs?: number;
+      // Leading bars of the file used as history, default 0
+      historyBars?: number;
+    }
+  | {
+      type: "synthetic";
+      // Delay between bars, default 1000
+      intervalMs?: number;
+      // Bar length stamped on the bars, default 5
+      barMinutes?: number;
+      // First open price, default 20000
+      price?: number;
+      // Generated before the first live bar, default 0
+      historyBars?: number;
+    }
+  | {
+      type: "topstep";
+      // Default 5
+      barMinutes?: number;
+      // Default 15
+      pollSeconds?: number;
+      // Default 300
+      historyBars?: number;
+    };
+
+export interface BarFeed {
+  readonly description: string;
+  /**
+   * Starts delivering bars; the next bar waits until onBar has settled
+   * @param onBar Called with live false for history bars
+   */
+  start(onBar: (bar: Bar, live: boolean) => Promise<void>): void;
+  stop(): void;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Hands over the history, then asks `next` for new bars every intervalMs until
+// stopped or `next` returns null
+function timedFeed(
+  description: string,
+  intervalMs: number,
+  history: () => Promise<Bar[]>,
+  next: () => Promise<Bar[] | null>
+): BarFeed {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+  return {
+    description,
+    start(onBar) {
+      const poll = async () => {
+        try {
+          const bars = await next();
+          if (bars === null) {
+            console.log(`[STRATEGY] Feed ${description} has no more bars`);
+            return;
+          }
+          for (const bar of bars) {
+            if (stopped) return;
+            await onBar(bar, true);
+          }
+        } catch (error) {
+          console.error(
+            `[STRATEGY] Feed ${description} failed to get bars:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+        if (!stopped) timer = setTimeout(poll, intervalMs);
+      };
+      (async () => {
+        try {
+          for (const bar of await history()) {
+            if (stopped) return;
+            await onBar(bar, false);
+          }
+        } catch (error) {
+          console.error(
+            `[STRATEGY] Feed ${description} failed to load history:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+        if (!stopped) timer = setTimeout(poll, intervalMs);
+      })();
+    },
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
+
+function csvFeed(path: string, intervalMs: number, historyBars: number) {
+  let bars: Bar[] = [];
+  return timedFeed(
+    `csv ${path}`,
+    intervalMs,
+    async () => {
+      bars = await loadBarsCsv(path);
+      return bars.splice(0, historyBars);
+    },
+    async () => (bars.length > 0 ? bars.splice(0, 1) : null)
+  );
+}
+
+function syntheticFeed(
+  intervalMs: number,
+  barMinutes: number,
+  startPrice: number,
+  historyBars: number
+) {
+  const length = barMinutes * MINUTE_MS;
+  let time = Math.floor(Date.now() / length) * length - historyBars * length;
+  let price = startPrice;
+  // Four steps of a random walk make up each bar
+  const nextBar = (): Bar => {
+    const open = price;
+    let high = open;
+    let low = open;
+    for (let i = 0; i < 4; i++) {
+      price = Math.max(
+        1,
+        Math.round((price + (Math.random() - 0.5) * price * 0.002) * 4) / 4
+      );
+      high = Math.max(high, price);
+      low = Math.min(low, price);
+    }
+    const bar = {
+      time,
+      open,
+      high,
+      low,
+      close: price,
+      volume: Math.round(100 + Math.random() * 900),
+    };
+    time += length;
+    return bar;
+  };
+  return timedFeed(
+    `synthetic ${barMinutes}m`,
+    intervalMs,
+    async () => Array.from({ length: historyBars }, nextBar),
+    async () => [nextBar()]
+  );
+}
+
+function topstepFeed(
+  contractId: string,
+  barMinutes: number,
+  pollSeconds: number,
+  historyBars: number
+) {
+  const length = barMinutes * MINUTE_MS;
+  let lastTime = -Infinity;
+  // Bars closed after the last one delivered
+  const fetchSince = async (start: number) => {
+    const bars = await retrieveTopstepBars(
+      contractId,
+      new Date(start).toISOString(),
+      new Date().toISOString(),
+      barMinutes
+    );
+    const fresh = bars.filter((bar) => bar.time > lastTime);
+    if (fresh.length > 0) lastTime = fresh[fresh.length - 1].time;
+    return fresh;
+  };
+  return timedFeed(
+    `topstep ${contractId} ${barMinutes}m`,
+    pollSeconds * 1000,
+    async () => {
+      // Weekends and breaks have no bars, so look back further than needed
+      const bars = await fetchSince(Date.now() - historyBars * length * 3);
+      return bars.slice(-historyBars);
+    },
+    () => fetchSince(Math.max(lastTime, Date.now() - historyBars * length))
+  );
+}
+
+/**
+ * Creates the feed a runner's configuration describes
+ * @param contractId Contract the runner trades, for broker feeds
+ * @throws On an unknown feed type
+ */
+export function createFeed(config: FeedConfig, contractId: string): BarFeed {
+  switch (config.type) {
+    case "csv":
+      return csvFeed(
+        config.path,
+        config.intervalMs ?? 1000,
+        config.historyBars ?? 0
+      );
+    case "synthetic":
+      return syntheticFeed(
+        config.intervalMs ?? 1000,
+        config.barMinutes ?? 5,
+        config.price ?? 20000,
+        config.historyBars ?? 0
+      );
+    case "topstep":
+      return topstepFeed(
+        contractId,
+        config.barMinutes ?? 5,
+        config.pollSeconds ?? 15,
+        config.historyBars ?? 300
+      );
+    default:
+      throw new Error(
+        `Unknown feed type "${(config as { type: unknown }).type}"`
+      );
+  }
+}
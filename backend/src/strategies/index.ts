@@ -0,0 +1,41 @@
+// Strategy registry
+//
+// Strategy runners look strategies up by name. Adding a strategy means
+// implementing BarStrategy and registering a factory for it here.
+import { BarStrategy } from "./types";
+import {
+  createTrendFollowingStrategy,
+  DEFAULT_TREND_FOLLOWING_PARAMS,
+} from "./trendFollowing";
+
+export * from "./types";
+
+export interface StrategyDefinition {
+  name: string;
+  description: string;
+  // Parameters a new instance starts from, overridden per runner
+  defaults: object;
+  create(params: Record<string, unknown>): BarStrategy;
+}
+
+const strategies = new Map<string, StrategyDefinition>();
+
+export function registerStrategy(definition: StrategyDefinition) {
+  strategies.set(definition.name.toLowerCase(), definition);
+}
+
+export function getStrategy(name: string): StrategyDefinition | undefined {
+  return strategies.get(name.toLowerCase());
+}
+
+export function listStrategies(): StrategyDefinition[] {
+  return Array.from(strategies.values());
+}
+
+registerStrategy({
+  name: "trend-following",
+  description:
+    "Port of trend-following.pine: Donchian breakouts in the EMA/SMA trend, confirmed by ADX and the session VWAP",
+  defaults: DEFAULT_TREND_FOLLOWING_PARAMS,
+  create: (params) => createTrendFollowingStrategy(params),
+});
@@ -0,0 +1,448 @@
+// Strategy runners
+//
+// Runs a registered strategy live on bars from a feed, trading through the
+// same order pipeline as TradingView alerts: an entry becomes a market alert
+// with a bracket stop loss, a close becomes a market alert on the other side,
+// and the strategy's stop and trail move the bracket stop order as they
+// change. Alerts carry an idempotency key per bar so a replayed bar cannot
+// place a second order. The position comes from the live positions, so stops
+// filled at the broker are picked up on the next bar. History bars warm the
+// strategy up without trading. Paper runners also mark each live bar's prices
+// (open, the nearer extreme, the other extreme, close) so resting paper orders
+// fill along the bar.
+//
+// Runners are configured with STRATEGY_RUNNERS in .env.local, a JSON array of
+// RunnerConfig, or added and removed through /api/strategies/runners.
+import { getBroker, BrokerAdapter, OrderId, OrderSide } from "../brokers";
+import { getPointValue, RegisteredContract, resolveSymbol } from "../contracts";
+import { getPositions } from "../positions";
+import { createFeed, BarFeed, FeedConfig } from "./feeds";
+import { getStrategy } from "./index";
+import {
+  Bar,
+  BarStrategy,
+  ContractSpec,
+  StrategyPosition,
+  TrailSettings,
+} from "./types";
+
+export interface RunnerConfig {
+  // Defaults to `${strategy}:${broker}:${symbol}`
+  id?: string;
+  strategy: string;
+  // Overrides of the strategy's default parameters
+  params?: Record<string, unknown>;
+  broker: string;
+  // Defaults to the broker's default account
+  accountId?: number;
+  // Root symbol such as NQ, traded in its current front month
+  symbol: string;
+  feed: FeedConfig;
+}
+
+// The last alert a runner sent and what became of it
+export interface RunnerOrder {
+  barTime: string;
+  action: "entry" | "close";
+  side: OrderSide;
+  quantity: number;
+  status: number;
+  success: boolean;
+  detail?: string;
+}
+
+export interface RunnerStatus {
+  id: string;
+  strategy: string;
+  broker: string;
+  accountId: number;
+  symbol: string;
+  contractId: string;
+  feed: string;
+  startedAt: string;
+  // History and live bars seen
+  bars: number;
+  liveBars: number;
+  lastBar: Bar | null;
+  position: StrategyPosition;
+  // Working bracket stop the runner moves, null when flat
+  stop: { orderId: OrderId | null; price: number } | null;
+  lastOrder: RunnerOrder | null;
+}
+
+// What runners need from the server
+export interface RunnerDependencies {
+  // Runs an alert through the webhook's order pipeline
+  submitAlert(
+    payload: Record<string, unknown>
+  ): Promise<{ status: number; body: object }>;
+  // Sets a paper contract's price, filling the resting orders it crosses
+  markPaperPrice(contractId: string, price: number): Promise<unknown>;
+}
+
+interface Runner {
+  status: RunnerStatus;
+  strategy: BarStrategy;
+  feed: BarFeed;
+  adapter: BrokerAdapter;
+  spec: ContractSpec;
+  // Realized P&L of the contract when the runner started
+  startingNetProfit: number;
+  trail?: TrailSettings;
+  // Best price since entry, for the trail
+  bestPrice: number;
+}
+
+const runners = new Map<string, Runner>();
+
+const FLAT: StrategyPosition = { size: 0, averagePrice: 0, entryBarIndex: -1 };
+
+// Net quantity, average price and closed P&L of the runner's contract
+function readPosition(status: RunnerStatus) {
+  const position = getPositions(true).find(
+    (p) =>
+      p.broker === status.broker &&
+      p.accountId === status.accountId &&
+      p.contractId === status.contractId
+  );
+  return {
+    quantity: position?.quantity ?? 0,
+    averagePrice: position?.averagePrice ?? 0,
+    netProfit: position ? position.realizedPnL - position.fees : 0,
+  };
+}
+
+/**
+ * Starts a runner and its feed
+ * @throws On an unknown strategy or broker, a runner id already in use, or a
+ * symbol the broker cannot resolve
+ */
+export async function startStrategyRunner(
+  config: RunnerConfig,
+  dependencies: RunnerDependencies
+): Promise<RunnerStatus> {
+  const definition = getStrategy(config.strategy ?? "");
+  if (!definition) {
+    throw new Error(`Unknown strategy "${config.strategy}"`);
+  }
+  const adapter = getBroker(config.broker ?? "");
+  if (!adapter) {
+    throw new Error(`Unknown broker "${config.broker}"`);
+  }
+  if (!config.symbol || !config.feed) {
+    throw new Error("symbol and feed are required");
+  }
+  const id = config.id ?? `${definition.name}:${adapter.name}:${config.symbol}`;
+  if (runners.has(id)) {
+    throw new Error(`Runner ${id} is already running`);
+  }
+  const accountId = config.accountId ?? adapter.defaultAccountId();
+  if (accountId === undefined) {
+    throw new Error(`No default ${adapter.name} account to trade`);
+  }
+
+  const contract: RegisteredContract = await resolveSymbol(
+    adapter,
+    config.symbol
+  );
+  const runner: Runner = {
+    status: {
+      id,
+      strategy: definition.name,
+      broker: adapter.name,
+      accountId,
+      symbol: contract.symbol,
+      contractId: contract.contractId,
+      feed: "",
+      startedAt: new Date().toISOString(),
+      bars: 0,
+      liveBars: 0,
+      lastBar: null,
+      position: FLAT,
+      stop: null,
+      lastOrder: null,
+    },
+    strategy: definition.create({ ...config.params }),
+    feed: createFeed(config.feed, contract.contractId),
+    adapter,
+    spec: {
+      pointValue: getPointValue(contract.contractId),
+      tickSize: contract.tickSize,
+    },
+    startingNetProfit: 0,
+    bestPrice: 0,
+  };
+  runner.status.feed = runner.feed.description;
+  runner.startingNetProfit = readPosition(runner.status).netProfit;
+  runners.set(id, runner);
+
+  runner.feed.start(async (bar, live) => {
+    try {
+      await processBar(runner, bar, live, dependencies);
+    } catch (error) {
+      console.error(
+        `[STRATEGY] Runner ${id} failed on the bar at ${new Date(bar.time).toISOString()}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+  console.log(
+    `[STRATEGY] Started ${id} on ${adapter.name} account ${accountId}, ${contract.contractId} from ${runner.feed.description}`
+  );
+  return runner.status;
+}
+
+/**
+ * Stops a runner's feed; its position and working orders are left as they are
+ * @returns False when no runner has the id
+ */
+export function stopStrategyRunner(id: string): boolean {
+  const runner = runners.get(id);
+  if (!runner) return false;
+  runner.feed.stop();
+  runners.delete(id);
+  console.log(`[STRATEGY] Stopped ${id}`);
+  return true;
+}
+
+export function listStrategyRunners(): RunnerStatus[] {
+  return Array.from(runners.values()).map((runner) => runner.status);
+}
+
+/**
+ * Starts the runners configured in STRATEGY_RUNNERS
+ * Failures are logged rather than thrown, so one bad runner does not stop the
+ * others
+ */
+export async function startConfiguredRunners(
+  dependencies: RunnerDependencies
+): Promise<void> {
+  if (!process.env.STRATEGY_RUNNERS) return;
+  let configs: RunnerConfig[];
+  try {
+    configs = JSON.parse(process.env.STRATEGY_RUNNERS);
+    if (!Array.isArray(configs)) throw new Error("not an array");
+  } catch (error) {
+    console.error(
+      "[STRATEGY] STRATEGY_RUNNERS is not a JSON array of runners:",
+      error instanceof Error ? error.message : String(error)
+    );
+    return;
+  }
+  for (const config of configs) {
+    try {
+      await startStrategyRunner(config, dependencies);
+    } catch (error) {
+      console.error(
+        `[STRATEGY] Failed to start ${config.id ?? config.strategy}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
+
+async function processBar(
+  runner: Runner,
+  bar: Bar,
+  live: boolean,
+  dependencies: RunnerDependencies
+) {
+  const { status, spec } = runner;
+  const barIndex = status.bars;
+  status.bars++;
+  status.lastBar = bar;
+  const roundToTick = (price: number) =>
+    Math.round(price / spec.tickSize) * spec.tickSize;
+
+  // History bars only warm the strategy up
+  if (!live) {
+    runner.strategy.onBar(bar, {
+      barIndex,
+      position: FLAT,
+      netProfit: 0,
+      contract: spec,
+    });
+    return;
+  }
+  status.liveBars++;
+
+  if (status.broker === "paper") {
+    const [first, second] =
+      bar.high - bar.open <= bar.open - bar.low
+        ? [bar.high, bar.low]
+        : [bar.low, bar.high];
+    for (const price of [bar.open, first, second, bar.close]) {
+      await dependencies.markPaperPrice(status.contractId, price);
+    }
+  }
+
+  const { quantity, averagePrice, netProfit } = readPosition(status);
+  if (quantity === 0) {
+    status.position = FLAT;
+    status.stop = null;
+  } else {
+    if (status.position.size === 0) {
+      // The entry filled since the last bar
+      status.position = { size: 0, averagePrice, entryBarIndex: barIndex };
+      runner.bestPrice = averagePrice;
+    }
+    status.position = { ...status.position, size: quantity, averagePrice };
+    runner.bestPrice =
+      quantity > 0
+        ? Math.max(runner.bestPrice, bar.high)
+        : Math.min(runner.bestPrice, bar.low);
+  }
+
+  const orders = runner.strategy.onBar(bar, {
+    barIndex,
+    position: status.position,
+    netProfit: netProfit - runner.startingNetProfit,
+    contract: spec,
+  });
+
+  if (quantity === 0) {
+    if (!orders.entry || orders.entry.quantity <= 0) return;
+    const { side, quantity: entryQuantity, stopDistance, trail } = orders.entry;
+    const stopLoss = roundToTick(
+      side === "buy" ? bar.close - stopDistance : bar.close + stopDistance
+    );
+    const body = await submit(runner, bar, dependencies, "entry", side, {
+      quantity: entryQuantity,
+      stopLoss,
+    });
+    if (body) {
+      status.stop = {
+        orderId: body.orderResult?.bracketOrderIds?.stopLoss ?? null,
+        price: stopLoss,
+      };
+      runner.trail = trail;
+    }
+    return;
+  }
+
+  if (orders.close) {
+    // The bracket stop would otherwise outlive the position
+    await cancelStop(runner);
+    await submit(
+      runner,
+      bar,
+      dependencies,
+      "close",
+      quantity > 0 ? "sell" : "buy",
+      {
+        quantity: Math.abs(quantity),
+      }
+    );
+    return;
+  }
+
+  if (orders.exit) {
+    runner.trail = orders.exit.trail;
+    const direction = quantity > 0 ? 1 : -1;
+    let stopPrice = orders.exit.stopPrice;
+    const trail = runner.trail;
+    if (
+      trail &&
+      (runner.bestPrice - averagePrice) * direction >= trail.activation
+    ) {
+      const trailPrice = roundToTick(
+        runner.bestPrice - direction * trail.offset
+      );
+      stopPrice =
+        direction > 0
+          ? Math.max(stopPrice, trailPrice)
+          : Math.min(stopPrice, trailPrice);
+    }
+    await moveStop(runner, stopPrice);
+  }
+}
+
+// Sends an alert for the runner's contract
+// @returns The response body when the order was placed, otherwise undefined
+async function submit(
+  runner: Runner,
+  bar: Bar,
+  dependencies: RunnerDependencies,
+  action: RunnerOrder["action"],
+  side: OrderSide,
+  order: { quantity: number; stopLoss?: number }
+) {
+  const { status } = runner;
+  const { status: httpStatus, body } = await dependencies.submitAlert({
+    strategy: status.strategy,
+    broker: status.broker,
+    accountId: status.accountId,
+    symbol: status.symbol,
+    side,
+    quantity: order.quantity,
+    price: bar.close,
+    orderType: "market",
+    stopLoss: order.stopLoss,
+    idempotencyKey: `${status.id}:${bar.time}:${action}`,
+  });
+  const result = body as {
+    success?: boolean;
+    error?: string;
+    reason?: string;
+    details?: string;
+    orderResult?: {
+      success: boolean;
+      errorMessage?: string;
+      bracketOrderIds?: { stopLoss?: OrderId };
+    };
+  };
+  const success =
+    result.success === true && result.orderResult?.success === true;
+  status.lastOrder = {
+    barTime: new Date(bar.time).toISOString(),
+    action,
+    side,
+    quantity: order.quantity,
+    status: httpStatus,
+    success,
+    detail: success
+      ? undefined
+      : (result.reason ??
+        result.error ??
+        result.orderResult?.errorMessage ??
+        result.details),
+  };
+  console.log(
+    `[STRATEGY] ${status.id} ${action} ${side} ${order.quantity} @ ${bar.close}: ${success ? "placed" : `not placed (${status.lastOrder.detail})`}`
+  );
+  return success ? result : undefined;
+}
+
+// Moves the working bracket stop to a new price
+async function moveStop(runner: Runner, stopPrice: number) {
+  const { status } = runner;
+  const stop = status.stop;
+  if (!stop || stop.orderId === null || stop.price === stopPrice) return;
+  try {
+    await runner.adapter.modifyOrder(status.accountId, stop.orderId, {
+      stopPrice,
+    });
+    stop.price = stopPrice;
+  } catch (error) {
+    // Most likely filled or cancelled since; the next bar sees the position
+    console.warn(
+      `[STRATEGY] ${status.id} could not move stop ${stop.orderId} to ${stopPrice}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+async function cancelStop(runner: Runner) {
+  const { status } = runner;
+  const stop = status.stop;
+  if (!stop || stop.orderId === null) return;
+  try {
+    await runner.adapter.cancelOrder(status.accountId, stop.orderId);
+  } catch (error) {
+    console.warn(
+      `[STRATEGY] ${status.id} could not cancel stop ${stop.orderId}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  status.stop = null;
+}
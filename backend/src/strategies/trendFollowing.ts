@@ -0,0 +1,223 @@
+// Trend-following strategy
+//
+// TypeScript port of trend-following.pine: EMA and SMA trend filters, a
+// Donchian breakout confirmed by ADX and the session VWAP, an ATR volatility
+// gate, the 08:30-15:00 CT window and a daily loss halt. Entries are sized so
+// the ATR stop risks riskDollars. Exits are the ATR stop capped at
+// maxTradeLoss, a breakeven stop, an ATR trail, a dollar kill switch at the
+// bar close and maxHoldBars. Indicator values come from ../indicators, NaN
+// (Pine's na) until there are enough bars.
+import {
+  Atr,
+  chicagoClock,
+  Dmi,
+  Ema,
+  Highest,
+  Lowest,
+  SessionVwap,
+  Sma,
+} from "../indicators";
+import { BarStrategy, StrategyOrders, TrailSettings } from "./types";
+
+// Named as the Pine inputs
+export interface TrendFollowingParams {
+  fastEMALen: number;
+  slowEMALen: number;
+  smaFastLen: number;
+  smaSlowLen: number;
+  donLen: number;
+  adxLen: number;
+  adxThresh: number;
+  atrLen: number;
+  atrStopMult: number;
+  atrBreakevenM: number;
+  atrTrailMult: number;
+  // Absolute stop cap in points
+  stopCapPts: number;
+  // Largest ATR / close to trade at
+  volThresh: number;
+  maxHoldBars: number;
+  // Closed-trade loss in dollars that stops trading for the day
+  dailyLossHalt: number;
+  // Only enter between 08:30 and 15:00 America/Chicago
+  useTimeFilter: boolean;
+  riskDollars: number;
+  // Dollar loss per trade the stop is capped at and the kill switch fires at
+  maxTradeLoss: number;
+}
+
+export const DEFAULT_TREND_FOLLOWING_PARAMS: TrendFollowingParams = {
+  fastEMALen: 20,
+  slowEMALen: 200,
+  smaFastLen: 50,
+  smaSlowLen: 200,
+  donLen: 20,
+  adxLen: 14,
+  adxThresh: 25,
+  atrLen: 10,
+  atrStopMult: 0.6,
+  atrBreakevenM: 0.8,
+  atrTrailMult: 0.6,
+  stopCapPts: 80,
+  volThresh: 0.004,
+  maxHoldBars: 24,
+  dailyLossHalt: 700,
+  useTimeFilter: true,
+  riskDollars: 450,
+  maxTradeLoss: 250,
+};
+
+// Regular CME session, minutes after midnight Chicago time
+const RTH_START = 8 * 60 + 30;
+const RTH_END = 15 * 60;
+
+/**
+ * Creates the strategy with the Pine defaults for any parameter not given
+ */
+export function createTrendFollowingStrategy(
+  overrides: Partial<TrendFollowingParams> = {}
+): BarStrategy {
+  const params = { ...DEFAULT_TREND_FOLLOWING_PARAMS, ...overrides };
+  const emaFast = new Ema(params.fastEMALen);
+  const emaSlow = new Ema(params.slowEMALen);
+  const smaFast = new Sma(params.smaFastLen);
+  const smaSlow = new Sma(params.smaSlowLen);
+  const donHighs = new Highest(params.donLen);
+  const donLows = new Lowest(params.donLen);
+  const dmi = new Dmi(params.adxLen, params.adxLen);
+  const atrIndicator = new Atr(params.atrLen);
+  const vwapIndicator = new SessionVwap();
+
+  // Donchian channel through the previous bar, ta.highest(high, donLen)[1]
+  let highestHigh = NaN;
+  let lowestLow = NaN;
+  let day = "";
+  let dayPnl = 0;
+  let lastNetProfit = 0;
+  let tradingHalted = false;
+  // The breakeven stop stays once placed, until the position closes
+  let breakevenEntryBar = -1;
+
+  return {
+    name: "trend-following",
+    onBar(bar, { barIndex, position, netProfit, contract }): StrategyOrders {
+      const roundToTick = (price: number) =>
+        Math.round(price / contract.tickSize) * contract.tickSize;
+
+      const fast = emaFast.update(bar.close);
+      const slow = emaSlow.update(bar.close);
+      const smaFastValue = smaFast.update(bar.close);
+      const smaSlowValue = smaSlow.update(bar.close);
+      const donHigh = highestHigh;
+      const donLow = lowestLow;
+      highestHigh = donHighs.update(bar.high);
+      lowestLow = donLows.update(bar.low);
+      const { adx } = dmi.update(bar);
+      const atr = atrIndicator.update(bar);
+      const clock = chicagoClock(bar.time);
+      const vwap = vwapIndicator.update(bar);
+
+      const inRTH =
+        !params.useTimeFilter ||
+        (clock.minutes >= RTH_START && clock.minutes < RTH_END);
+      const volRatio = bar.close > 0 ? atr / bar.close : NaN;
+      const volOK = !isNaN(volRatio) && volRatio <= params.volThresh;
+
+      // Daily loss halt
+      if (clock.tradingDay !== day) {
+        day = clock.tradingDay;
+        dayPnl = 0;
+        tradingHalted = false;
+      }
+      dayPnl += netProfit - lastNetProfit;
+      lastNetProfit = netProfit;
+      if (dayPnl <= -params.dailyLossHalt && position.size === 0) {
+        tradingHalted = true;
+      }
+
+      // Sizing from the ATR stop
+      const pointValue = contract.pointValue;
+      const stopDistPts = Math.min(params.atrStopMult * atr, params.stopCapPts);
+      const riskPerContract =
+        isNaN(stopDistPts) || stopDistPts <= 0 ? NaN : stopDistPts * pointValue;
+      const qtyFromRisk =
+        isNaN(riskPerContract) || riskPerContract <= 0
+          ? 0
+          : Math.floor(params.riskDollars / riskPerContract);
+
+      // Pine measures trail_points and trail_offset in ticks, and the script
+      // passes an ATR multiple, so the trail is that many ticks
+      const trailOff = params.atrTrailMult * atr;
+      const trail: TrailSettings = {
+        activation: trailOff * contract.tickSize,
+        offset: trailOff * contract.tickSize,
+      };
+
+      if (position.size === 0) {
+        const longTrend = fast > slow && smaFastValue > smaSlowValue;
+        const shortTrend = fast < slow && smaFastValue < smaSlowValue;
+        const canEnter =
+          inRTH &&
+          !tradingHalted &&
+          volOK &&
+          adx > params.adxThresh &&
+          qtyFromRisk >= 1;
+        const longCond =
+          canEnter && longTrend && bar.close > donHigh && bar.close > vwap;
+        const shortCond =
+          canEnter && shortTrend && bar.close < donLow && bar.close < vwap;
+        if (!longCond && !shortCond) {
+          return {};
+        }
+        // Tighter of the ATR stop and the dollar cap for this size
+        const dPts = params.maxTradeLoss / (pointValue * qtyFromRisk);
+        return {
+          entry: {
+            side: longCond ? "buy" : "sell",
+            quantity: qtyFromRisk,
+            stopDistance: Math.min(stopDistPts, dPts),
+            trail,
+          },
+        };
+      }
+
+      const isLong = position.size > 0;
+      const posQty = Math.abs(position.size);
+      const averagePrice = position.averagePrice;
+      const dPts = params.maxTradeLoss / (pointValue * posQty);
+
+      // ATR stop from this bar's close, or the dollar cap if tighter
+      let stopPrice = isLong
+        ? Math.max(bar.close - stopDistPts, averagePrice - dPts)
+        : Math.min(bar.close + stopDistPts, averagePrice + dPts);
+      stopPrice = roundToTick(stopPrice);
+
+      // Breakeven once a bar reaches atrBreakevenM ATRs past its close
+      if (
+        isLong
+          ? bar.high >= bar.close + params.atrBreakevenM * atr
+          : bar.low <= bar.close - params.atrBreakevenM * atr
+      ) {
+        breakevenEntryBar = position.entryBarIndex;
+      }
+      if (breakevenEntryBar === position.entryBarIndex) {
+        stopPrice = isLong
+          ? Math.max(stopPrice, roundToTick(averagePrice))
+          : Math.min(stopPrice, roundToTick(averagePrice));
+      }
+
+      // Kill switch on the dollar loss at the close, and the max hold
+      const unrealizedLoss = Math.max(
+        0,
+        (isLong ? averagePrice - bar.close : bar.close - averagePrice) *
+          pointValue *
+          posQty
+      );
+      const close =
+        unrealizedLoss >= params.maxTradeLoss ||
+        barIndex - position.entryBarIndex >= params.maxHoldBars;
+
+      return { exit: { stopPrice, trail }, close };
+    },
+  };
+}
@@ -0,0 +1,70 @@
+// Shared types for bar-driven strategies
+//
+// A strategy sees one closed bar at a time, the way a Pine script runs on each
+// bar close, and answers with the orders it wants working from the next bar
+// on. Whatever executes it (the backtest engine or a live runner) owns the
+// position and fills.
+import { OrderSide } from "../brokers";
+
+export interface Bar {
+  // Bar open time, epoch milliseconds
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface ContractSpec {
+  // Dollar value of a one point move for one contract, e.g. 20 for NQ
+  pointValue: number;
+  tickSize: number;
+}
+
+export interface StrategyPosition {
+  // Signed quantity: positive when long, negative when short, 0 when flat
+  size: number;
+  // Average entry price, 0 when flat
+  averagePrice: number;
+  // Index of the bar the position was entered on, -1 when flat
+  entryBarIndex: number;
+}
+
+export interface StrategyContext {
+  barIndex: number;
+  position: StrategyPosition;
+  // Closed trade P&L net of commission so far, like strategy.netprofit
+  netProfit: number;
+  contract: ContractSpec;
+}
+
+// Trailing stop: once price has moved `activation` points past the entry, the
+// stop follows the best price since entry at `offset` points
+export interface TrailSettings {
+  activation: number;
+  offset: number;
+}
+
+export interface StrategyOrders {
+  // Market entry at the next bar's open, ignored unless flat
+  entry?: {
+    side: OrderSide;
+    quantity: number;
+    // Protective stop placed this many points from the fill price
+    stopDistance: number;
+    trail?: TrailSettings;
+  };
+  // Exit orders for the open position, replacing the previous bar's
+  exit?: {
+    stopPrice: number;
+    trail?: TrailSettings;
+  };
+  // Market exit at the next bar's open
+  close?: boolean;
+}
+
+export interface BarStrategy {
+  readonly name: string;
+  onBar(bar: Bar, context: StrategyContext): StrategyOrders;
+}
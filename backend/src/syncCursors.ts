@@ -0,0 +1,156 @@
+// Trade sync cursors
+//
+// Trade history is kept across restarts. Each broker account has a cursor
+// recording how far its fills have been synced, so scheduled syncs only ask
+// the broker for what is new. Backfills of older ranges are split into chunks
+// to stay within what the broker APIs return in one search.
+import { tradesDb } from "../logger/db";
+
+export interface SyncCursor {
+  broker: string;
+  accountId: number;
+  // End of the last range synced successfully
+  syncedThrough: string;
+  updatedAt: string;
+}
+
+export interface SyncWindow {
+  startTimestamp: string;
+  endTimestamp: string;
+}
+
+function getChunkMs(): number {
+  const days = parseFloat(process.env.TRADE_SYNC_CHUNK_DAYS || "7");
+  return (days > 0 ? days : 7) * 24 * 60 * 60 * 1000;
+}
+
+// Fills can show up in a search slightly after their timestamp, so each
+// incremental sync re-reads a little of the previous range
+function getOverlapMs(): number {
+  return parseFloat(process.env.TRADE_SYNC_OVERLAP_SECONDS || "300") * 1000;
+}
+
+/**
+ * Returns the sync cursor for an account, if it has been synced before
+ */
+export function getSyncCursor(
+  broker: string,
+  accountId: number
+): Promise<SyncCursor | undefined> {
+  return new Promise((resolve, reject) => {
+    tradesDb.get(
+      "SELECT * FROM sync_cursors WHERE broker = ? AND accountId = ?",
+      [broker, accountId],
+      (err, row: SyncCursor | undefined) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Moves an account's sync cursor forward; it never moves backwards
+ */
+export function advanceSyncCursor(
+  broker: string,
+  accountId: number,
+  syncedThrough: string
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tradesDb.run(
+      `INSERT INTO sync_cursors (broker, accountId, syncedThrough, updatedAt)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(broker, accountId) DO UPDATE SET
+         syncedThrough = excluded.syncedThrough,
+         updatedAt = excluded.updatedAt
+       WHERE excluded.syncedThrough > syncedThrough`,
+      [broker, accountId, syncedThrough, new Date().toISOString()],
+      (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Lists every sync cursor
+ */
+export function listSyncCursors(): Promise<SyncCursor[]> {
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      "SELECT * FROM sync_cursors ORDER BY broker, accountId",
+      (err, rows: SyncCursor[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Deletes every sync cursor, so the next sync of each account starts over
+ * from TRADE_SYNC_START
+ */
+export function clearSyncCursors(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tradesDb.run("DELETE FROM sync_cursors", (err) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Works out where the next incremental sync of an account should start
+ * @param defaultStart Used when the account has never been synced
+ */
+export async function getIncrementalStart(
+  broker: string,
+  accountId: number,
+  defaultStart: string
+): Promise<string> {
+  const cursor = await getSyncCursor(broker, accountId);
+  if (!cursor) {
+    return defaultStart;
+  }
+  return new Date(
+    new Date(cursor.syncedThrough).getTime() - getOverlapMs()
+  ).toISOString();
+}
+
+/**
+ * Splits a date range into consecutive chunks of TRADE_SYNC_CHUNK_DAYS
+ */
+export function splitSyncWindows(
+  startTimestamp: string,
+  endTimestamp: string
+): SyncWindow[] {
+  const chunkMs = getChunkMs();
+  const end = new Date(endTimestamp).getTime();
+  const windows: SyncWindow[] = [];
+  for (
+    let start = new Date(startTimestamp).getTime();
+    start < end;
+    start += chunkMs
+  ) {
+    windows.push({
+      startTimestamp: new Date(start).toISOString(),
+      endTimestamp: new Date(Math.min(start + chunkMs, end)).toISOString(),
+    });
+  }
+  return windows;
+}
@@ -0,0 +1,364 @@
+// Trade history queries
+//
+// Filtering, sorting, cursor pagination and aggregates over the trades table,
+// so the dashboard only downloads the rows and totals it shows. A trade's net
+// P&L is its profitAndLoss less fees, and a win is a trade with a positive
+// net P&L.
+import { tradesDb } from "../logger/db";
+import { toOrderId } from "./orders";
+
+export interface StoredTrade {
+  id: number;
+  broker: string;
+  accountId: number;
+  contractId: string;
+  creationTimestamp: string;
+  price: number;
+  profitAndLoss: number | null;
+  fees: number;
+  side: string;
+  size: number;
+  orderId: number | string;
+  brokerTradeId: string | null;
+  strategy: string | null;
+}
+
+export type TradeSortField =
+  "creationTimestamp" | "profitAndLoss" | "price" | "size" | "fees";
+
+export interface TradeFilters {
+  broker?: string;
+  accountId?: number;
+  contractId?: string;
+  side?: string;
+  strategy?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  minPnl?: number;
+  maxPnl?: number;
+  // Only fills that realized P&L (closing fills), the default
+  closedOnly: boolean;
+}
+
+export interface TradePage {
+  trades: StoredTrade[];
+  // Pass back as `cursor` for the next page, null on the last page
+  nextCursor: string | null;
+}
+
+export type TradeGrouping =
+  "day" | "broker" | "account" | "contract" | "strategy";
+
+export interface TradeSummary {
+  trades: number;
+  wins: number;
+  losses: number;
+  grossPnl: number;
+  fees: number;
+  netPnl: number;
+  // Percentage of trades with a positive net P&L
+  winRate: number;
+  // Gross profit over gross loss, null when there are no losses
+  profitFactor: number | null;
+  averageNetPnl: number;
+  largestWin: number;
+  largestLoss: number;
+}
+
+const SORT_FIELDS: TradeSortField[] = [
+  "creationTimestamp",
+  "profitAndLoss",
+  "price",
+  "size",
+  "fees",
+];
+
+// Column expressions for each grouping; days are UTC dates
+const GROUP_EXPRESSIONS: Record<TradeGrouping, string> = {
+  day: "substr(creationTimestamp, 1, 10)",
+  broker: "broker",
+  account: "broker || ':' || accountId",
+  contract: "contractId",
+  strategy: "COALESCE(strategy, 'unknown')",
+};
+
+const NET_PNL = "(COALESCE(profitAndLoss, 0) - fees)";
+
+/**
+ * Reads trade filters from query parameters
+ * @returns The filters, or a message describing the first invalid parameter
+ */
+export function parseTradeFilters(
+  query: Record<string, unknown>
+): { filters: TradeFilters } | { error: string } {
+  const text = (name: string) =>
+    typeof query[name] === "string" && query[name] !== ""
+      ? (query[name] as string)
+      : undefined;
+  const filters: TradeFilters = {
+    broker: text("broker")?.toLowerCase(),
+    contractId: text("contractId"),
+    side: text("side")?.toLowerCase(),
+    strategy: text("strategy"),
+    closedOnly: text("closed") !== "false",
+  };
+
+  for (const name of ["accountId", "minPnl", "maxPnl"] as const) {
+    const value = text(name);
+    if (value === undefined) continue;
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      return { error: `${name} must be a number` };
+    }
+    filters[name] = number;
+  }
+  for (const name of ["from", "to"] as const) {
+    const value = text(name);
+    if (value === undefined) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { error: `${name} must be a date` };
+    }
+    filters[name] = date.toISOString();
+  }
+  if (filters.side && filters.side !== "buy" && filters.side !== "sell") {
+    return { error: "side must be buy or sell" };
+  }
+  return { filters };
+}
+
+function buildWhere(filters: TradeFilters): {
+  where: string;
+  params: (string | number)[];
+} {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filters.closedOnly) {
+    conditions.push("profitAndLoss IS NOT NULL");
+  }
+  if (filters.broker) {
+    conditions.push("broker = ?");
+    params.push(filters.broker);
+  }
+  if (filters.accountId !== undefined) {
+    conditions.push("accountId = ?");
+    params.push(filters.accountId);
+  }
+  if (filters.contractId) {
+    conditions.push("contractId = ?");
+    params.push(filters.contractId);
+  }
+  if (filters.side) {
+    conditions.push("side = ?");
+    params.push(filters.side);
+  }
+  if (filters.strategy) {
+    conditions.push("strategy = ?");
+    params.push(filters.strategy);
+  }
+  if (filters.from) {
+    conditions.push("creationTimestamp >= ?");
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push("creationTimestamp <= ?");
+    params.push(filters.to);
+  }
+  if (filters.minPnl !== undefined) {
+    conditions.push(`${NET_PNL} >= ?`);
+    params.push(filters.minPnl);
+  }
+  if (filters.maxPnl !== undefined) {
+    conditions.push(`${NET_PNL} <= ?`);
+    params.push(filters.maxPnl);
+  }
+  return {
+    where: conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+}
+
+function encodeCursor(value: string | number, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string | number, number] | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      ["string", "number"].includes(typeof decoded[0]) &&
+      typeof decoded[1] === "number"
+    ) {
+      return decoded as [string | number, number];
+    }
+  } catch {
+    // Fall through
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a sort field is one trades can be ordered by
+ */
+export function isTradeSortField(field: string): field is TradeSortField {
+  return (SORT_FIELDS as string[]).includes(field);
+}
+
+/**
+ * Lists one page of trades, ordered by a field with the row id breaking ties
+ * @param cursor nextCursor of the previous page
+ * @throws When the cursor is not one this function produced
+ */
+export function listTrades(
+  filters: TradeFilters,
+  options: {
+    sort: TradeSortField;
+    order: "asc" | "desc";
+    limit: number;
+    cursor?: string;
+  }
+): Promise<TradePage> {
+  const { where, params } = buildWhere(filters);
+  // Unrealized fills sort as zero P&L so the cursor never compares NULLs
+  const sortExpression =
+    options.sort === "profitAndLoss"
+      ? "COALESCE(profitAndLoss, 0)"
+      : options.sort;
+  const direction = options.order === "asc" ? "ASC" : "DESC";
+  const comparison = options.order === "asc" ? ">" : "<";
+
+  let cursorCondition = "";
+  if (options.cursor) {
+    const decoded = decodeCursor(options.cursor);
+    if (!decoded) {
+      return Promise.reject(new Error("Invalid cursor"));
+    }
+    cursorCondition = `${where ? " AND" : " WHERE"} (${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND id ${comparison} ?))`;
+    params.push(decoded[0], decoded[0], decoded[1]);
+  }
+
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      `SELECT *, ${sortExpression} AS sortValue FROM trades${where}${cursorCondition}
+       ORDER BY ${sortExpression} ${direction}, id ${direction} LIMIT ?`,
+      // One extra row shows whether there is another page
+      [...params, options.limit + 1],
+      (err, rows: (StoredTrade & { sortValue: string | number })[]) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        const page = (rows || []).slice(0, options.limit);
+        const last = page[page.length - 1];
+        resolve({
+          trades: page.map(({ sortValue, ...trade }) => ({
+            ...trade,
+            orderId: toOrderId(trade.orderId)!,
+          })),
+          nextCursor:
+            rows.length > options.limit && last
+              ? encodeCursor(last.sortValue, last.id)
+              : null,
+        });
+      }
+    );
+  });
+}
+
+// Raw sums behind a summary; SQL sums over no rows are null
+export interface TradeTotals {
+  trades: number;
+  wins: number | null;
+  losses: number | null;
+  grossPnl: number | null;
+  fees: number | null;
+  netPnl: number | null;
+  grossProfit: number | null;
+  grossLoss: number | null;
+  largestWin: number | null;
+  largestLoss: number | null;
+}
+
+/**
+ * Rounds totals into a summary and derives its rates and averages
+ */
+export function toTradeSummary(row: TradeTotals): TradeSummary {
+  const round = (value: number | null) => Math.round((value ?? 0) * 100) / 100;
+  const grossLoss = row.grossLoss ?? 0;
+  return {
+    trades: row.trades,
+    wins: row.wins ?? 0,
+    losses: row.losses ?? 0,
+    grossPnl: round(row.grossPnl),
+    fees: round(row.fees),
+    netPnl: round(row.netPnl),
+    winRate: row.trades > 0 ? round(((row.wins ?? 0) / row.trades) * 100) : 0,
+    profitFactor:
+      grossLoss > 0 ? round((row.grossProfit ?? 0) / grossLoss) : null,
+    averageNetPnl: row.trades > 0 ? round((row.netPnl ?? 0) / row.trades) : 0,
+    largestWin: round(Math.max(row.largestWin ?? 0, 0)),
+    largestLoss: round(Math.min(row.largestLoss ?? 0, 0)),
+  };
+}
+
+/**
+ * Totals the trades matching the filters, overall and optionally per group
+ */
+export function summarizeTrades(
+  filters: TradeFilters,
+  groupBy?: TradeGrouping
+): Promise<{
+  summary: TradeSummary;
+  groups?: (TradeSummary & { key: string })[];
+}> {
+  const { where, params } = buildWhere(filters);
+  const columns = `
+    COUNT(*) AS trades,
+    SUM(CASE WHEN ${NET_PNL} > 0 THEN 1 ELSE 0 END) AS wins,
+    SUM(CASE WHEN ${NET_PNL} < 0 THEN 1 ELSE 0 END) AS losses,
+    SUM(COALESCE(profitAndLoss, 0)) AS grossPnl,
+    SUM(fees) AS fees,
+    SUM(${NET_PNL}) AS netPnl,
+    SUM(CASE WHEN ${NET_PNL} > 0 THEN ${NET_PNL} ELSE 0 END) AS grossProfit,
+    SUM(CASE WHEN ${NET_PNL} < 0 THEN -${NET_PNL} ELSE 0 END) AS grossLoss,
+    MAX(${NET_PNL}) AS largestWin,
+    MIN(${NET_PNL}) AS largestLoss`;
+  const all = <T>(sql: string): Promise<T[]> =>
+    new Promise((resolve, reject) => {
+      tradesDb.all(sql, params, (err, rows: T[]) =>
+        err ? reject(err) : resolve(rows || [])
+      );
+    });
+
+  return all<TradeTotals>(`SELECT ${columns} FROM trades${where}`).then(
+    async ([total]) => {
+      const summary = toTradeSummary(total);
+      if (!groupBy) {
+        return { summary };
+      }
+      const expression = GROUP_EXPRESSIONS[groupBy];
+      const rows = await all<TradeTotals & { key: string }>(
+        `SELECT ${expression} AS key, ${columns} FROM trades${where}
+       GROUP BY ${expression} ORDER BY key ASC`
+      );
+      return {
+        summary,
+        groups: rows.map((row) => ({
+          key: String(row.key),
+          ...toTradeSummary(row),
+        })),
+      };
+    }
+  );
+}
+
+/**
+ * Checks that a grouping is one summaries can be split by
+ */
+export function isTradeGrouping(value: string): value is TradeGrouping {
+  // Own keys only, so names such as toString are not taken for groupings
+  return Object.keys(GROUP_EXPRESSIONS).includes(value);
+}
@@ -0,0 +1,211 @@
+// TradingView webhook authentication
+//
+// Secrets live in a JSON file (webhook-auth.json next to the server, or the
+// path in WEBHOOK_AUTH_FILE) that is re-read whenever it changes, so keys can
+// be rotated without a restart:
+//
+// {
+//   "strategies": {
+//     "trend-following": { "keys": ["new-key", "old-key"], "hmacSecret": "..." }
+//   },
+//   "ipAllowlist": ["52.89.214.238", "34.212.75.30", "54.218.53.128", "52.32.178.7"],
+//   "trustProxy": true
+// }
+//
+// Alerts name their strategy in `strategy` (defaults to "default") and carry
+// one of its keys in `key`. A strategy with an hmacSecret additionally needs an
+// `X-Signature: sha256=<hex>` header over the raw request body.
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { NextFunction, Request, Response } from "express";
+import { tradesDb } from "../logger/db";
+
+interface StrategyAuth {
+  keys: string[];
+  hmacSecret?: string;
+}
+
+interface WebhookAuthConfig {
+  strategies: Record<string, StrategyAuth>;
+  // Empty or missing allows every address
+  ipAllowlist?: string[];
+  // Read the client address from X-Forwarded-For (e.g. behind ngrok): true
+  // for one proxy in front of the server, or the number of proxies
+  trustProxy?: boolean | number;
+}
+
+export interface WebhookRejection {
+  id: number;
+  receivedAt: string;
+  ip: string | null;
+  strategy: string | null;
+  reason: string;
+}
+
+// Request with the unparsed body captured by the body parsers
+export type RawBodyRequest = Request & { rawBody?: string };
+
+let cachedConfig: WebhookAuthConfig | null = null;
+let cachedPath = "";
+let cachedMtime = 0;
+
+/**
+ * Loads the webhook auth config, re-reading the file only when it changed
+ * Falls back to a single "default" strategy keyed by TRADINGVIEW_WEBHOOK_KEY
+ */
+function loadConfig(): WebhookAuthConfig {
+  const configPath =
+    process.env.WEBHOOK_AUTH_FILE ||
+    path.join(process.cwd(), "webhook-auth.json");
+  try {
+    const { mtimeMs } = fs.statSync(configPath);
+    if (!cachedConfig || configPath !== cachedPath || mtimeMs !== cachedMtime) {
+      cachedConfig = JSON.parse(fs.readFileSync(configPath, "utf8"));
+      cachedPath = configPath;
+      cachedMtime = mtimeMs;
+      console.log(`[AUTH] Loaded webhook auth config from ${configPath}`);
+    }
+    return cachedConfig as WebhookAuthConfig;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(
+        "[AUTH] Failed to load webhook auth config:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    const key = process.env.TRADINGVIEW_WEBHOOK_KEY;
+    return { strategies: key ? { default: { keys: [key] } } : {} };
+  }
+}
+
+// Compares two secrets in constant time, regardless of their lengths
+function safeEqual(a: string, b: string): boolean {
+  const digestA = crypto.createHash("sha256").update(a).digest();
+  const digestB = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Address the request came from
+ * Behind trusted proxies this is the X-Forwarded-For entry the furthest proxy
+ * appended, counted from the right; entries left of it are whatever the
+ * caller sent and cannot be trusted
+ */
+function getClientIp(req: Request, config: WebhookAuthConfig): string {
+  const socketIp = (req.socket.remoteAddress || "").replace(/^::ffff:/, "");
+  const hops = config.trustProxy === true ? 1 : Number(config.trustProxy) || 0;
+  const forwarded = req.headers["x-forwarded-for"];
+  if (hops <= 0 || typeof forwarded !== "string") {
+    return socketIp;
+  }
+  const entries = forwarded.split(",").map((entry) => entry.trim());
+  // Fewer entries than proxies: the request did not come through them all
+  return entries.length >= hops
+    ? entries[entries.length - hops].replace(/^::ffff:/, "")
+    : socketIp;
+}
+
+function recordRejection(ip: string, strategy: string | null, reason: string) {
+  console.warn(
+    `[AUTH] Rejected webhook from ${ip || "unknown"} (strategy: ${strategy ?? "n/a"}): ${reason}`
+  );
+  tradesDb.run(
+    "INSERT INTO webhook_rejections (receivedAt, ip, strategy, reason) VALUES (?, ?, ?, ?)",
+    [new Date().toISOString(), ip || null, strategy, reason],
+    (err) => {
+      if (err) {
+        console.error("[DB] Failed to record webhook rejection:", err.message);
+      }
+    }
+  );
+}
+
+/**
+ * Express middleware that rejects webhook requests without a valid key,
+ * signature or source address
+ */
+export function requireWebhookAuth(
+  req: RawBodyRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const config = loadConfig();
+  const ip = getClientIp(req, config);
+  const body =
+    req.body && typeof req.body === "object"
+      ? (req.body as { key?: unknown; strategy?: unknown })
+      : {};
+  const strategyName =
+    typeof body.strategy === "string" ? body.strategy : "default";
+
+  if (config.ipAllowlist && config.ipAllowlist.length > 0) {
+    if (!config.ipAllowlist.includes(ip)) {
+      recordRejection(ip, strategyName, "Address not in allowlist");
+      return res.status(403).json({ error: "Forbidden" });
+    }
+  }
+
+  const strategy = config.strategies[strategyName];
+  if (!strategy) {
+    recordRejection(ip, strategyName, "Unknown strategy");
+    return res
+      .status(401)
+      .json({ error: "Invalid or missing key in TradingView alert" });
+  }
+
+  // Check every key so the time taken does not reveal which one matched
+  const key = typeof body.key === "string" ? body.key : "";
+  const keyMatches = strategy.keys.reduce(
+    (matched, candidate) => safeEqual(key, candidate) || matched,
+    false
+  );
+  if (!key || !keyMatches) {
+    recordRejection(ip, strategyName, key ? "Invalid key" : "Missing key");
+    return res
+      .status(401)
+      .json({ error: "Invalid or missing key in TradingView alert" });
+  }
+
+  if (strategy.hmacSecret) {
+    const header = req.headers["x-signature"];
+    const signature =
+      typeof header === "string" ? header.replace(/^sha256=/, "") : "";
+    const expected = crypto
+      .createHmac("sha256", strategy.hmacSecret)
+      .update(req.rawBody ?? "")
+      .digest("hex");
+    if (!signature || !safeEqual(signature.toLowerCase(), expected)) {
+      recordRejection(
+        ip,
+        strategyName,
+        signature ? "Invalid signature" : "Missing signature"
+      );
+      return res.status(401).json({ error: "Invalid or missing signature" });
+    }
+  }
+
+  next();
+}
+
+/**
+ * Returns the most recent rejected webhook requests
+ * @param limit Maximum number of rows to return
+ */
+export function getWebhookRejections(
+  limit: number
+): Promise<WebhookRejection[]> {
+  return new Promise((resolve, reject) => {
+    tradesDb.all(
+      "SELECT * FROM webhook_rejections ORDER BY id DESC LIMIT ?",
+      [limit],
+      (err, rows: WebhookRejection[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      }
+    );
+  });
+}
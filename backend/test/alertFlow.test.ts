@@ -0,0 +1,312 @@
+// End-to-end alert flow
+//
+// Starts the backend in a scratch directory against an in-process Topstep
+// mock, sends TradingView alerts to the webhook and follows each one through
+// the broker order, the trade sync, the trades table and the Socket.IO
+// broadcast of its fill.
+import assert from "node:assert/strict";
+import { ChildProcess, spawn } from "node:child_process";
+import fs from "node:fs";
+import http from "node:http";
+import net, { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import sqlite3 from "sqlite3";
+import { io, Socket } from "socket.io-client";
+import { createTopstepMock, createTopstepMockState } from "../mock/topstep";
+
+const WEBHOOK_KEY = "e2e-key";
+const STRATEGY = "e2e";
+const ACCOUNT_ID = 1001;
+// Backend startup runs the initial sync of every account
+const STARTUP_TIMEOUT_MS = 60000;
+
+const mockState = createTopstepMockState();
+const contractId = mockState.contracts.find(
+  (contract) => contract.name.startsWith("NQ") && contract.activeContract
+)!.id;
+
+let workDir: string;
+let mockServer: http.Server;
+let backend: ChildProcess;
+let backendUrl: string;
+let socket: Socket;
+// Every fill broadcast since the socket connected
+const broadcastFills: StoredFill[] = [];
+
+interface StoredFill {
+  accountId: number;
+  orderId: string;
+  contractId: string;
+  side: string;
+  size: number;
+  price: number;
+  profitAndLoss: number | null;
+  fees: number;
+}
+
+// The parts of a single-account webhook response the tests check
+interface AlertResponse {
+  success: boolean;
+  signalId: number;
+  risk: { action: string };
+  orderResult: { orderId: number };
+}
+
+// Resolves with a free local port
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once("error", reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+// Resolves once the backend logs that it is listening
+function waitForStartup(child: ChildProcess): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let output = "";
+    const timer = setTimeout(
+      () => reject(new Error(`Backend did not start:\n${output}`)),
+      STARTUP_TIMEOUT_MS
+    );
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes("[INIT] Backend server running")) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    child.stdout!.on("data", onData);
+    child.stderr!.on("data", onData);
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Backend exited with ${code}:\n${output}`));
+    });
+  });
+}
+
+// Resolves with the broadcast fill of an order, once it has arrived
+function waitForBroadcastFill(orderId: number): Promise<StoredFill> {
+  return new Promise((resolve) => {
+    const check = () => {
+      const fill = broadcastFills.find(
+        (trade) => String(trade.orderId) === String(orderId)
+      );
+      if (fill) {
+        socket.off("new-trade", check);
+        resolve(fill);
+      }
+    };
+    socket.on("new-trade", check);
+    check();
+  });
+}
+
+// Reads the backend's database directly, as a separate connection
+function queryDb<T>(sql: string, params: unknown[]): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(
+      path.join(workDir, "trades.db"),
+      sqlite3.OPEN_READONLY,
+      (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        db.all(sql, params, (err, rows: T[]) => {
+          db.close();
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows);
+          }
+        });
+      }
+    );
+  });
+}
+
+// The fill is broadcast inside the sync's transaction, so wait for the commit
+async function waitForStoredFill(
+  orderId: number
+): Promise<StoredFill & { strategy: string | null }> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const [row] = await queryDb<StoredFill & { strategy: string | null }>(
+      "SELECT * FROM trades WHERE broker = 'topstep' AND orderId = ?",
+      [orderId]
+    );
+    if (row) return row;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error(`Fill of order ${orderId} was never stored`);
+}
+
+async function sendAlert(
+  alert: Record<string, unknown>
+): Promise<{ status: number; body: AlertResponse }> {
+  const response = await fetch(`${backendUrl}/api/trade/tradingview`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      key: WEBHOOK_KEY,
+      broker: "topstep",
+      strategy: STRATEGY,
+      ...alert,
+    }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+before(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "alert-flow-"));
+  fs.writeFileSync(
+    path.join(workDir, "webhook-auth.json"),
+    JSON.stringify({ strategies: { [STRATEGY]: { keys: [WEBHOOK_KEY] } } })
+  );
+
+  mockServer = createTopstepMock(mockState).listen(0);
+  await new Promise((resolve) => mockServer.once("listening", resolve));
+  const mockPort = (mockServer.address() as AddressInfo).port;
+
+  const port = await freePort();
+  backendUrl = `http://localhost:${port}`;
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    PORT: String(port),
+    TOPSTEP_API_URL: `http://localhost:${mockPort}/api`,
+    TOPSTEP_USERNAME: "e2e",
+    TOPSTEP_API_KEY: "mock-key",
+    WEBHOOK_AUTH_FILE: path.join(workDir, "webhook-auth.json"),
+    SIGNAL_COOLDOWN_SECONDS: "0",
+  };
+  // The server only listens outside of NODE_ENV=test
+  delete env.NODE_ENV;
+  backend = spawn(
+    process.execPath,
+    [require.resolve("tsx/cli"), path.join(__dirname, "../src/server.ts")],
+    { cwd: workDir, env, stdio: ["ignore", "pipe", "pipe"] }
+  );
+  await waitForStartup(backend);
+
+  socket = io(backendUrl, { transports: ["websocket"] });
+  socket.on("new-trade", (trade: StoredFill) => broadcastFills.push(trade));
+  await new Promise<void>((resolve, reject) => {
+    socket.once("connect", () => resolve());
+    socket.once("connect_error", reject);
+  });
+});
+
+after(async () => {
+  socket?.close();
+  if (backend && backend.exitCode === null) {
+    const exited = new Promise((resolve) => backend.once("exit", resolve));
+    backend.kill();
+    await exited;
+  }
+  await new Promise((resolve) => mockServer?.close(resolve));
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test("an entry alert is placed, synced, stored and broadcast", async () => {
+  const { status, body } = await sendAlert({
+    accountId: ACCOUNT_ID,
+    symbol: "NQ",
+    side: "buy",
+    quantity: 1,
+    price: 20000,
+  });
+  assert.equal(status, 200);
+  assert.equal(body.success, true);
+  assert.equal(body.risk.action, "approve");
+  const orderId = body.orderResult.orderId;
+
+  // The broker received the order and filled it
+  const order = mockState.orders.find((candidate) => candidate.id === orderId);
+  assert.ok(order);
+  assert.equal(order.contractId, contractId);
+  assert.equal(order.accountId, ACCOUNT_ID);
+  assert.equal(order.side, 0);
+  assert.equal(order.status, 2);
+
+  // The sync after the order logs the fill and broadcasts it
+  const fill = await waitForBroadcastFill(orderId);
+  assert.equal(fill.contractId, contractId);
+  assert.equal(fill.side, "buy");
+  assert.equal(fill.size, 1);
+  assert.equal(fill.price, 20000);
+  assert.equal(fill.profitAndLoss, null);
+
+  const stored = await waitForStoredFill(orderId);
+  assert.equal(stored.accountId, ACCOUNT_ID);
+  assert.equal(stored.side, "buy");
+  assert.equal(stored.profitAndLoss, null);
+  assert.equal(stored.strategy, STRATEGY);
+
+  const [signal] = await queryDb<{ outcome: string; orderId: string }>(
+    "SELECT outcome, orderId FROM signals WHERE id = ?",
+    [body.signalId]
+  );
+  assert.equal(signal.outcome, "filled");
+  assert.equal(signal.orderId, String(orderId));
+});
+
+test("an exit alert closes the position with the broker's P&L", async () => {
+  mockState.prices[contractId] = 20010;
+  const { status, body } = await sendAlert({
+    accountId: ACCOUNT_ID,
+    contractId,
+    side: "sell",
+    quantity: 1,
+    price: 20010,
+  });
+  assert.equal(status, 200);
+  assert.equal(body.success, true);
+  const orderId = body.orderResult.orderId;
+
+  // 10 points on NQ at $20 a point
+  const fill = await waitForBroadcastFill(orderId);
+  assert.equal(fill.side, "sell");
+  assert.equal(fill.price, 20010);
+  assert.equal(fill.profitAndLoss, 200);
+
+  const stored = await waitForStoredFill(orderId);
+  assert.equal(stored.profitAndLoss, 200);
+  assert.ok(stored.fees > 0);
+
+  const response = await fetch(
+    `${backendUrl}/api/positions?broker=topstep&accountId=${ACCOUNT_ID}&includeFlat=true`
+  );
+  const { positions } = (await response.json()) as {
+    positions: { contractId: string; quantity: number; realizedPnL: number }[];
+  };
+  const position = positions.find(
+    (candidate) => candidate.contractId === contractId
+  );
+  assert.ok(position);
+  assert.equal(position.quantity, 0);
+  assert.equal(position.realizedPnL, 200);
+});
+
+test("a duplicate delivery is replayed without a second order", async () => {
+  const alert = {
+    accountId: ACCOUNT_ID,
+    symbol: "NQ",
+    side: "buy",
+    quantity: 1,
+    price: 20010,
+    idempotencyKey: "e2e-duplicate",
+  };
+  const first = await sendAlert(alert);
+  assert.equal(first.status, 200);
+  const ordersPlaced = mockState.orders.length;
+
+  const repeat = await sendAlert(alert);
+  assert.equal(repeat.status, 200);
+  assert.deepEqual(repeat.body, first.body);
+  assert.equal(mockState.orders.length, ordersPlaced);
+});
@@ -0,0 +1,143 @@
+// Backtest broker emulator
+//
+// Runs a scripted strategy that enters on the first bar through runBacktest,
+// and checks the fills and trades the emulator should give, worked out by
+// hand, for stops the open gaps through, trails that activate within a bar
+// and bars that reach both the stop and the trail.
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BacktestOptions, runBacktest } from "../src/backtest/engine";
+import { Bar, BarStrategy, StrategyOrders } from "../src/strategies/types";
+
+// NQ: $20 a point, quarter-point ticks
+const options: BacktestOptions = {
+  contractId: "CON.F.US.ENQ.Z25",
+  contract: { pointValue: 20, tickSize: 0.25 },
+  commissionPerContract: 0,
+  slippageTicks: 0,
+};
+
+// Bars five minutes apart from [open, high, low, close]
+function toBars(prices: [number, number, number, number][]): Bar[] {
+  return prices.map(([open, high, low, close], index) => ({
+    time: Date.UTC(2026, 0, 5, 15, index * 5),
+    open,
+    high,
+    low,
+    close,
+    volume: 100,
+  }));
+}
+
+// Places the entry on the first bar's close, so it fills at the second's open
+function enterOnFirstBar(entry: StrategyOrders["entry"]): BarStrategy {
+  return {
+    name: "scripted",
+    onBar: (_bar, context) => (context.barIndex === 0 ? { entry } : {}),
+  };
+}
+
+test("a stop the open gaps through fills at the open, with slippage and commission", () => {
+  const result = runBacktest(
+    enterOnFirstBar({ side: "buy", quantity: 1, stopDistance: 5 }),
+    toBars([
+      [100, 101, 99, 100],
+      // Fills at 100.25 after a tick of slippage; the stop rests at 95.25
+      [100, 102, 98, 101],
+      // Opens below the stop
+      [90, 92, 89, 91],
+    ]),
+    { ...options, commissionPerContract: 2, slippageTicks: 1 }
+  );
+
+  assert.deepEqual(
+    result.fills.map((fill) => [
+      fill.side,
+      fill.price,
+      fill.profitAndLoss,
+      fill.fees,
+    ]),
+    [
+      ["buy", 100.25, null, 2],
+      // 90 less a tick: (89.75 - 100.25) * $20
+      ["sell", 89.75, -210, 2],
+    ]
+  );
+  assert.equal(result.trades.length, 1);
+  const [trade] = result.trades;
+  assert.equal(trade.exitReason, "stop");
+  assert.equal(trade.entryBarIndex, 1);
+  assert.equal(trade.exitBarIndex, 2);
+  assert.equal(trade.grossPnl, -210);
+  assert.equal(trade.fees, 4);
+  assert.equal(trade.netPnl, -214);
+  assert.equal(result.openPosition, null);
+});
+
+test("a trail takes over from the stop once price moves past its activation", () => {
+  const result = runBacktest(
+    enterOnFirstBar({
+      side: "buy",
+      quantity: 1,
+      stopDistance: 10,
+      trail: { activation: 4, offset: 2 },
+    }),
+    toBars([
+      [100, 101, 99, 100],
+      // Fills at 100, best 101: one point short of activating
+      [100, 101, 99.5, 100.5],
+      // Best 106 activates the trail at 104, and the close stays above it
+      [101, 106, 100.5, 105],
+      // Trades down through the trail
+      [105, 105.5, 103, 103.5],
+    ]),
+    options
+  );
+
+  assert.equal(result.trades.length, 1);
+  const [trade] = result.trades;
+  assert.equal(trade.exitReason, "trail");
+  assert.equal(trade.exitBarIndex, 3);
+  assert.equal(trade.entryPrice, 100);
+  assert.equal(trade.exitPrice, 104);
+  assert.equal(trade.grossPnl, 80);
+});
+
+test("within a bar, price goes to the extreme nearer the open first", () => {
+  const entry: StrategyOrders["entry"] = {
+    side: "buy",
+    quantity: 1,
+    stopDistance: 5,
+    trail: { activation: 4, offset: 2 },
+  };
+
+  // The high is nearer the open: reaching 105 puts the trail at 103, which
+  // the low then takes out
+  const highFirst = runBacktest(
+    enterOnFirstBar(entry),
+    toBars([
+      [100, 101, 99, 100],
+      [100, 105, 94, 100],
+    ]),
+    options
+  );
+  assert.equal(highFirst.trades.length, 1);
+  assert.equal(highFirst.trades[0].exitReason, "trail");
+  assert.equal(highFirst.trades[0].exitBarIndex, 1);
+  assert.equal(highFirst.trades[0].exitPrice, 103);
+  assert.equal(highFirst.trades[0].grossPnl, 60);
+
+  // The low is nearer the open: the stop at 95 is hit before the high
+  const lowFirst = runBacktest(
+    enterOnFirstBar(entry),
+    toBars([
+      [100, 101, 99, 100],
+      [100, 106, 94.5, 100],
+    ]),
+    options
+  );
+  assert.equal(lowFirst.trades.length, 1);
+  assert.equal(lowFirst.trades[0].exitReason, "stop");
+  assert.equal(lowFirst.trades[0].exitPrice, 95);
+  assert.equal(lowFirst.trades[0].grossPnl, -100);
+});
@@ -0,0 +1,203 @@
+// Indicator reference values
+//
+// Checks each indicator, both as a streaming class fed one value at a time
+// and as a batch function over the whole series, against values worked out
+// by hand from Pine's definitions for a short run of bars.
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  Atr,
+  Dmi,
+  DmiValue,
+  Ema,
+  Highest,
+  Lowest,
+  Rma,
+  SessionVwap,
+  Sma,
+  atr,
+  dmi,
+  ema,
+  highest,
+  lowest,
+  rma,
+  sma,
+  vwap,
+} from "../src/indicators";
+import { Bar } from "../src/strategies/types";
+
+const closes = [10, 11, 12, 11, 13, 14, 12, 15];
+const highs = [10.5, 11.5, 12.5, 12, 13.5, 14.5, 13, 15.5];
+const lows = [9.5, 10, 11, 10.5, 11.5, 13, 11.5, 12.5];
+const bars: Bar[] = closes.map((close, index) => ({
+  time: Date.UTC(2026, 0, 5, 15, index * 5),
+  open: index === 0 ? close : closes[index - 1],
+  high: highs[index],
+  low: lows[index],
+  close,
+  volume: 100,
+}));
+
+// Equal within rounding, with NaN (Pine's na) only matching NaN
+function assertSeries(actual: number[], expected: number[]) {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((value, index) => {
+    if (isNaN(expected[index])) {
+      assert.ok(isNaN(value), `value ${index} is ${value}, expected NaN`);
+    } else {
+      assert.ok(
+        Math.abs(value - expected[index]) < 1e-9,
+        `value ${index} is ${value}, expected ${expected[index]}`
+      );
+    }
+  });
+}
+
+// Feeds the inputs to a streaming indicator one at a time
+function stream<Input, Output>(
+  inputs: Input[],
+  indicator: { update(input: Input): Output }
+): Output[] {
+  return inputs.map((input) => indicator.update(input));
+}
+
+test("sma averages the last length values", () => {
+  const expected = [NaN, NaN, 11, 34 / 3, 12, 38 / 3, 13, 41 / 3];
+  assertSeries(stream(closes, new Sma(3)), expected);
+  assertSeries(sma(closes, 3), expected);
+
+  // na while any value in the window is na
+  assertSeries(sma([1, 2, NaN, 4, 5, 6], 2), [NaN, 1.5, NaN, NaN, 4.5, 5.5]);
+});
+
+test("ema is seeded with the sma and smoothed by 2 / (length + 1)", () => {
+  const expected = [NaN, NaN, 11, 11, 12, 13, 12.5, 13.75];
+  assertSeries(stream(closes, new Ema(3)), expected);
+  assertSeries(ema(closes, 3), expected);
+});
+
+test("rma is seeded with the sma and smoothed by 1 / length", () => {
+  const expected = [NaN, NaN, 11, 11, 35 / 3, 112 / 9, 332 / 27, 1069 / 81];
+  assertSeries(stream(closes, new Rma(3)), expected);
+  assertSeries(rma(closes, 3), expected);
+});
+
+test("highest and lowest include the current value", () => {
+  const expectedHighest = [NaN, NaN, 12, 12, 13, 14, 14, 15];
+  assertSeries(stream(closes, new Highest(3)), expectedHighest);
+  assertSeries(highest(closes, 3), expectedHighest);
+
+  const expectedLowest = [NaN, NaN, 10, 11, 11, 11, 12, 12];
+  assertSeries(stream(closes, new Lowest(3)), expectedLowest);
+  assertSeries(lowest(closes, 3), expectedLowest);
+});
+
+test("atr is the rma of the true range, counting the first bar's range", () => {
+  // True ranges 1, 1.5, 1.5, 1.5, 2.5, 1.5, 2.5, 3.5
+  const expected = [
+    NaN,
+    NaN,
+    4 / 3,
+    25 / 18,
+    95 / 54,
+    271 / 162,
+    1.948559670781893,
+    2.4657064471879284,
+  ];
+  assertSeries(stream(bars, new Atr(3)), expected);
+  assertSeries(atr(bars, 3), expected);
+});
+
+test("dmi gives the directional indicators and adx", () => {
+  const expected = {
+    plusDI: [
+      NaN,
+      NaN,
+      NaN,
+      400 / 9,
+      51.515151515151516,
+      55.913978494623656,
+      32.398753894081,
+      50.703060380479734,
+    ],
+    minusDI: [
+      NaN,
+      NaN,
+      NaN,
+      100 / 9,
+      6.060606060606061,
+      4.301075268817205,
+      27.725856697819314,
+      14.722911497105049,
+    ],
+    adx: [
+      NaN,
+      NaN,
+      NaN,
+      NaN,
+      NaN,
+      74.88721804511277,
+      52.515485605204724,
+      53.34155003263121,
+    ],
+  };
+  const check = (values: DmiValue[]) => {
+    assertSeries(
+      values.map((value) => value.plusDI),
+      expected.plusDI
+    );
+    assertSeries(
+      values.map((value) => value.minusDI),
+      expected.minusDI
+    );
+    assertSeries(
+      values.map((value) => value.adx),
+      expected.adx
+    );
+  };
+  check(stream(bars, new Dmi(3, 3)));
+  check(dmi(bars, 3, 3));
+});
+
+test("vwap weights hlc3 by volume and restarts with the CME trading day", () => {
+  // 15:30, 16:30, 17:00 and 17:30 Chicago time; the trading day rolls at 17:00
+  const sessionBars: Bar[] = [
+    {
+      time: Date.UTC(2026, 0, 5, 21, 30),
+      high: 11,
+      low: 9,
+      close: 10,
+      volume: 100,
+    },
+    {
+      time: Date.UTC(2026, 0, 5, 22, 30),
+      high: 12,
+      low: 10,
+      close: 11,
+      volume: 300,
+    },
+    {
+      time: Date.UTC(2026, 0, 5, 23, 0),
+      high: 13,
+      low: 11,
+      close: 12,
+      volume: 200,
+    },
+    {
+      time: Date.UTC(2026, 0, 5, 23, 30),
+      high: 15,
+      low: 12,
+      close: 12,
+      volume: 200,
+    },
+  ].map((bar) => ({ ...bar, open: bar.close }));
+  const expected = [10, 10.75, 12, 12.5];
+  assertSeries(stream(sessionBars, new SessionVwap()), expected);
+  assertSeries(vwap(sessionBars), expected);
+
+  // A custom session that never changes keeps accumulating
+  assertSeries(
+    vwap(sessionBars, () => "all"),
+    [10, 10.75, 67 / 6, 93 / 8]
+  );
+});
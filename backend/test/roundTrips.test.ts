@@ -0,0 +1,166 @@
+// Round-trip matching
+//
+// Replays hand-worked fills in one ES contract through buildRoundTrips and
+// checks the trips, legs and P&L that FIFO matching should give for
+// scale-ins, partial exits and a fill that reverses the position.
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type { buildRoundTrips as BuildRoundTrips } from "../src/roundTrips";
+import type { StoredTrade } from "../src/trades";
+import type { tradesDb as TradesDb } from "../logger/db";
+
+const CONTRACT_ID = "ESZ6";
+
+let workDir: string;
+let startDir: string;
+let buildRoundTrips: typeof BuildRoundTrips;
+let tradesDb: typeof TradesDb;
+
+// A fill five minutes after the previous one; ids count up from 1
+function fills(
+  rows: { side: "buy" | "sell"; size: number; price: number; fees: number }[]
+): StoredTrade[] {
+  return rows.map((row, index) => ({
+    id: index + 1,
+    broker: "ibkr",
+    accountId: 1,
+    contractId: CONTRACT_ID,
+    creationTimestamp: new Date(
+      Date.UTC(2026, 0, 5, 15, index * 5)
+    ).toISOString(),
+    profitAndLoss: null,
+    orderId: String(index + 1),
+    brokerTradeId: null,
+    strategy: "trend",
+    ...row,
+  }));
+}
+
+before(async () => {
+  // The module opens trades.db in the working directory, so load it from a
+  // scratch one rather than next to the real database
+  startDir = process.cwd();
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "round-trips-"));
+  process.chdir(workDir);
+  process.env.POINT_VALUES = JSON.stringify({ [CONTRACT_ID]: 50 });
+  // Loaded ahead of the module so both share the one connection
+  const db = await import("../logger/db");
+  ({ buildRoundTrips } = await import("../src/roundTrips"));
+  await db.tradesDbReady;
+  tradesDb = db.tradesDb;
+});
+
+after(async () => {
+  await new Promise((resolve) => tradesDb.close(resolve));
+  process.chdir(startDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test("scale-ins queue as lots and partial exits close the oldest first", () => {
+  const trips = buildRoundTrips(
+    fills([
+      { side: "buy", size: 1, price: 100, fees: 2 },
+      { side: "buy", size: 2, price: 103, fees: 4 },
+      // Closes the 100 lot and one of the 103 lot: 6 + 3 points
+      { side: "sell", size: 2, price: 106, fees: 4 },
+      // Closes the rest of the 103 lot: -2 points
+      { side: "sell", size: 1, price: 101, fees: 2 },
+    ])
+  );
+
+  assert.equal(trips.length, 1);
+  const [trip] = trips;
+  assert.equal(trip.direction, "long");
+  assert.equal(trip.open, false);
+  assert.equal(trip.quantity, 3);
+  assert.equal(trip.averageEntryPrice, 102);
+  assert.equal(trip.averageExitPrice, 104.33);
+  assert.equal(trip.holdingSeconds, 15 * 60);
+  // 7 points on ES at $50 a point
+  assert.equal(trip.grossPnl, 350);
+  assert.equal(trip.fees, 12);
+  assert.equal(trip.netPnl, 338);
+  assert.equal(trip.entryFills, 2);
+  assert.equal(trip.exitFills, 2);
+  assert.deepEqual(trip.fillIds, [1, 2, 3, 4]);
+  assert.deepEqual(
+    trip.legs.map((leg) => [
+      leg.quantity,
+      leg.entryFillId,
+      leg.entryPrice,
+      leg.exitFillId,
+      leg.exitPrice,
+    ]),
+    [
+      [1, 1, 100, 3, 106],
+      [1, 2, 103, 3, 106],
+      [1, 2, 103, 4, 101],
+    ]
+  );
+});
+
+test("a trip stays open until the position is flat", () => {
+  const trips = buildRoundTrips(
+    fills([
+      { side: "sell", size: 3, price: 200, fees: 6 },
+      { side: "buy", size: 1, price: 196, fees: 2 },
+    ])
+  );
+
+  assert.equal(trips.length, 1);
+  const [trip] = trips;
+  assert.equal(trip.direction, "short");
+  assert.equal(trip.open, true);
+  assert.equal(trip.quantity, 3);
+  assert.equal(trip.averageExitPrice, 196);
+  assert.equal(trip.holdingSeconds, null);
+  // 4 points realized on the one contract bought back
+  assert.equal(trip.grossPnl, 200);
+  assert.equal(trip.fees, 8);
+  assert.equal(trip.netPnl, 192);
+});
+
+test("a reversing fill closes the trip and opens the next with the rest", () => {
+  const trips = buildRoundTrips(
+    fills([
+      { side: "sell", size: 2, price: 200, fees: 4 },
+      // Buys back 2 for 10 points each and goes long 3, fees split 2:3
+      { side: "buy", size: 5, price: 190, fees: 10 },
+      { side: "sell", size: 3, price: 195, fees: 6 },
+    ])
+  );
+
+  assert.equal(trips.length, 2);
+  const [short, long] = trips;
+
+  assert.equal(short.direction, "short");
+  assert.equal(short.open, false);
+  assert.equal(short.quantity, 2);
+  assert.equal(short.grossPnl, 1000);
+  assert.equal(short.fees, 8);
+  assert.equal(short.netPnl, 992);
+  assert.deepEqual(short.fillIds, [1, 2]);
+  assert.deepEqual(
+    short.legs.map((leg) => [leg.quantity, leg.entryFillId, leg.exitFillId]),
+    [[2, 1, 2]]
+  );
+
+  assert.equal(long.direction, "long");
+  assert.equal(long.open, false);
+  assert.equal(long.id, `ibkr:1:${CONTRACT_ID}:2`);
+  assert.equal(long.quantity, 3);
+  assert.equal(long.entryTime, short.exitTime);
+  assert.equal(long.averageEntryPrice, 190);
+  assert.equal(long.averageExitPrice, 195);
+  assert.equal(long.grossPnl, 750);
+  assert.equal(long.fees, 12);
+  assert.equal(long.netPnl, 738);
+  assert.deepEqual(long.fillIds, [2, 3]);
+  assert.deepEqual(
+    long.legs.map((leg) => [leg.quantity, leg.entryFillId, leg.exitFillId]),
+    [[3, 2, 3]]
+  );
+});
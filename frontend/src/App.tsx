@@ -2,10 +2,16 @@ import { useState } from 'react';
 import './App.css';
 import TradeTable from './components/TradeTable';
 import Analytics from './components/Analytics';
+import RoundTrips from './components/RoundTrips';
+import Optimizer from './components/Optimizer';
+import WorkingOrders from './components/WorkingOrders';
+import OpenPositions from './components/OpenPositions';
+import AccountSelect from './components/AccountSelect';
 
 function App() {
   const [activeTab, setActiveTab] = useState('trades');
   const [selectedBroker, setSelectedBroker] = useState('all');
+  const [selectedAccount, setSelectedAccount] = useState('all');
   const [tableKey, setTableKey] = useState(0);
   
   const handleTabChange = (tab: string) => {
@@ -29,12 +35,24 @@ function App() {
         >
           Trades
         </button>
+        <button 
+          className={`nav-tab ${activeTab === 'roundtrips' ? 'active' : ''}`}
+          onClick={() => handleTabChange('roundtrips')}
+        >
+          Round Trips
+        </button>
         <button 
           className={`nav-tab ${activeTab === 'analytics' ? 'active' : ''}`}
           onClick={() => handleTabChange('analytics')}
         >
           Analytics
         </button>
+        <button 
+          className={`nav-tab ${activeTab === 'optimizer' ? 'active' : ''}`}
+          onClick={() => handleTabChange('optimizer')}
+        >
+          Optimizer
+        </button>
         <button 
           className={`nav-tab ${activeTab === 'command' ? 'active' : ''}`}
           onClick={() => handleTabChange('command')}
@@ -52,17 +70,58 @@ function App() {
                 <select 
                   className="filter-select"
                   value={selectedBroker}
-                  onChange={(e) => setSelectedBroker(e.target.value)}
+                  onChange={(e) => {
+                    setSelectedBroker(e.target.value);
+                    setSelectedAccount('all');
+                  }}
                 >
                   <option value="all">All Brokers</option>
                   <option value="topstep">Topstep</option>
                   <option value="kraken">Kraken</option>
                   <option value="ibkr">IBKR</option>
+                  <option value="paper">Paper</option>
                 </select>
+                <AccountSelect
+                  selectedBroker={selectedBroker}
+                  value={selectedAccount}
+                  onChange={setSelectedAccount}
+                />
               </div>
             </div>
             <div className="table-container">
-              <TradeTable selectedBroker={selectedBroker} key={tableKey} />
+              <TradeTable selectedBroker={selectedBroker} selectedAccount={selectedAccount} key={tableKey} />
+            </div>
+          </section>
+        )}
+        
+        {activeTab === 'roundtrips' && (
+          <section className="trades-section">
+            <div className="section-header">
+              <h2>Round Trips</h2>
+              <div className="section-actions">
+                <select 
+                  className="filter-select"
+                  value={selectedBroker}
+                  onChange={(e) => {
+                    setSelectedBroker(e.target.value);
+                    setSelectedAccount('all');
+                  }}
+                >
+                  <option value="all">All Brokers</option>
+                  <option value="topstep">Topstep</option>
+                  <option value="kraken">Kraken</option>
+                  <option value="ibkr">IBKR</option>
+                  <option value="paper">Paper</option>
+                </select>
+                <AccountSelect
+                  selectedBroker={selectedBroker}
+                  value={selectedAccount}
+                  onChange={setSelectedAccount}
+                />
+              </div>
+            </div>
+            <div className="table-container">
+              <RoundTrips selectedBroker={selectedBroker} selectedAccount={selectedAccount} />
             </div>
           </section>
         )}
@@ -76,10 +135,22 @@ function App() {
           </section>
         )}
         
+        {activeTab === 'optimizer' && (
+          <section className="analytics-section">
+            <div className="section-header">
+              <h2>Optimizer</h2>
+            </div>
+            <Optimizer />
+          </section>
+        )}
+        
         {activeTab === 'command' && (
           <section className="command-section">
-            <h2>Command (Coming Soon)</h2>
-            <p>Dashboard commands will be available here in a future update.</p>
+            <div className="section-header">
+              <h2>Command</h2>
+            </div>
+            <OpenPositions />
+            <WorkingOrders />
           </section>
         )}
       </main>
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+
+interface Account {
+  broker: string;
+  id: number;
+  name: string;
+}
+
+interface AccountSelectProps {
+  id?: string;
+  // Limits the options to one broker's accounts unless 'all'
+  selectedBroker: string;
+  // 'all' or `${broker}:${accountId}`
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export default function AccountSelect({ id, selectedBroker, value, onChange }: AccountSelectProps) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  // Fetch the tradable accounts once
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      try {
+        const response = await fetch('/api/accounts');
+        if (!response.ok) {
+          throw new Error('Failed to fetch accounts');
+        }
+        const data = await response.json();
+        setAccounts(Array.isArray(data.accounts) ? data.accounts : []);
+      } catch (err) {
+        console.error('Failed to fetch accounts:', err);
+      }
+    };
+    fetchAccounts();
+  }, []);
+
+  const options = selectedBroker === 'all'
+    ? accounts
+    : accounts.filter(account => account.broker.toLowerCase() === selectedBroker.toLowerCase());
+
+  return (
+    <select
+      id={id}
+      className="filter-select"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value="all">All Accounts</option>
+      {options.map(account => (
+        <option key={`${account.broker}:${account.id}`} value={`${account.broker}:${account.id}`}>
+          {selectedBroker === 'all' ? `${account.name} (${account.broker})` : account.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,8 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { io } from 'socket.io-client';
 import PnLChart from './PnLChart.tsx';
 import BrokerPieChart from './BrokerPieChart.tsx';
 import DailyPerformanceChart from './DailyPerformanceChart.tsx';
+import AccountSelect from './AccountSelect.tsx';
+import type { TradeSummary, TradeSummaryGroup } from './TradeMetrics';
 import './Analytics.css';
 
 interface Trade {
@@ -18,11 +20,55 @@ interface Trade {
   orderId: number;
 }
 
+// Totals of /api/trades/reconciliation: live round trips lined up with the
+// signals behind them
+interface ReconciliationSummary {
+  expectedTrades: number;
+  matchedTrades: number;
+  missedEntries: number;
+  extraTrades: number;
+  extraFills: number;
+  averageEntrySlippageTicks: number | null;
+  averageExitSlippageTicks: number | null;
+  expectedPnl: number;
+  actualPnl: number;
+  pnlDifference: number;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(price);
+};
+
+const formatTicks = (ticks: number | null) => (ticks === null ? 'N/A' : `${ticks} ticks`);
+
+// Start of a date range such as '7d'
+function getRangeStart(dateRange: string) {
+  const now = new Date();
+  switch(dateRange) {
+    case '1d':
+      return new Date(now.setDate(now.getDate() - 1));
+    case '7d':
+      return new Date(now.setDate(now.getDate() - 7));
+    case '30d':
+      return new Date(now.setDate(now.getDate() - 30));
+    default:
+      return new Date(now.setDate(now.getDate() - 7)); // Default to 7 days
+  }
+}
+
 export default function Analytics() {
-  const [trades, setTrades] = useState<Trade[]>([]);
+  const [summary, setSummary] = useState<TradeSummary | null>(null);
+  const [days, setDays] = useState<TradeSummaryGroup[]>([]);
+  const [brokers, setBrokers] = useState<TradeSummaryGroup[]>([]);
+  const [reconciliation, setReconciliation] = useState<ReconciliationSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedBroker, setSelectedBroker] = useState('all');
+  const [selectedAccount, setSelectedAccount] = useState('all');
   const [dateRange, setDateRange] = useState('7d'); // Default to 7 days
   const [isConnected, setIsConnected] = useState(false);
   const [socket, setSocket] = useState<ReturnType<typeof io> | null>(null);
@@ -61,6 +107,81 @@ export default function Analytics() {
     };
   }, []);
 
+  // Query parameters for the selected broker, account and date range
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams({ from: getRangeStart(dateRange).toISOString() });
+    if (selectedAccount !== 'all') {
+      const [broker, accountId] = selectedAccount.split(':');
+      params.set('broker', broker);
+      params.set('accountId', accountId);
+    } else if (selectedBroker !== 'all') {
+      params.set('broker', selectedBroker);
+    }
+    return params;
+  }, [selectedBroker, selectedAccount, dateRange]);
+
+  // Fetch the totals, split by day and by broker for the charts; the server
+  // does the filtering and only counts fills with realized P&L
+  const fetchSummaries = useCallback(async (showLoading = true) => {
+    try {
+      if (showLoading) {
+        setIsLoading(true);
+      }
+      const [byDay, byBroker] = await Promise.all(
+        ['day', 'broker'].map(async (groupBy) => {
+          const params = filterParams();
+          params.set('groupBy', groupBy);
+          const response = await fetch(`/api/trades/summary?${params}`);
+          if (!response.ok) {
+            throw new Error('Failed to fetch trade summary');
+          }
+          const data = await response.json();
+          if (!data.summary || !Array.isArray(data.groups)) {
+            throw new Error(data.error || 'Invalid response format');
+          }
+          return data as { summary: TradeSummary; groups: TradeSummaryGroup[] };
+        })
+      );
+      setSummary(byDay.summary);
+      setDays(byDay.groups);
+      setBrokers(byBroker.groups);
+      setError(null);
+    } catch (err) {
+      setError('Error loading trade data. Please try again.');
+      console.error('Failed to fetch trade summary:', err);
+      setSummary(null);
+      setDays([]);
+      setBrokers([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterParams]);
+
+  // Fetch the live vs signals totals for the same filters
+  const fetchReconciliation = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/trades/reconciliation?${filterParams()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch reconciliation');
+      }
+      const data = await response.json();
+      setReconciliation(data.summary ?? null);
+    } catch (err) {
+      // The rest of the tab does not depend on it
+      console.error('Failed to fetch reconciliation:', err);
+      setReconciliation(null);
+    }
+  }, [filterParams]);
+
+  // Fetch the totals when component mounts or filters change
+  useEffect(() => {
+    fetchSummaries();
+  }, [fetchSummaries]);
+
+  useEffect(() => {
+    fetchReconciliation();
+  }, [fetchReconciliation]);
+
   // Listen for new trade events
   useEffect(() => {
     if (!socket) return;
@@ -74,23 +195,8 @@ export default function Analytics() {
         return;
       }
       
-      // Add new trade to the beginning of the trades array
-      setTrades(prevTrades => {
-        // Check if the trade already exists to prevent duplicates
-        const tradeExists = prevTrades.some(
-          trade => 
-            trade.broker === newTrade.broker && 
-            trade.orderId === newTrade.orderId && 
-            trade.creationTimestamp === newTrade.creationTimestamp
-        );
-        
-        if (tradeExists) {
-          return prevTrades;
-        }
-        
-        // Return new array with the new trade at the beginning
-        return [newTrade, ...prevTrades];
-      });
+      // Refresh the totals so they include it
+      fetchSummaries(false);
     };
 
     // Register event listener
@@ -100,76 +206,7 @@ export default function Analytics() {
     return () => {
       socket.off('new-trade', newTradeListener);
     };
-  }, [socket]);
-
-  // Fetch trades when component mounts or filters change
-  useEffect(() => {
-    fetchTrades();
-  }, [selectedBroker, dateRange]);
-
-  const fetchTrades = async () => {
-    try {
-      setIsLoading(true);
-      const response = await fetch('/api/trades');
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch trades');
-      }
-      
-      const data = await response.json();
-      // Check if data is an array and has elements
-      if (Array.isArray(data)) {
-        // Filter out trades with null profitAndLoss
-        const filteredTrades = data.filter(trade => trade.profitAndLoss !== null);
-        setTrades(filteredTrades);
-        setError(null);
-        
-        // Log if any trades were filtered out
-        if (filteredTrades.length < data.length) {
-          console.log(`Filtered out ${data.length - filteredTrades.length} trades with null P&L`);
-        }
-      } else {
-        // If data is not an array or contains an error message
-        setTrades([]);
-        setError(data.error || 'Invalid response format');
-        console.error('Invalid response format:', data);
-      }
-    } catch (err) {
-      setError('Error loading trade data. Please try again.');
-      console.error('Failed to fetch trades:', err);
-      setTrades([]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Filter trades based on selected broker and date range
-  const getFilteredTrades = () => {
-    let filteredByBroker = selectedBroker === 'all' 
-      ? trades 
-      : trades.filter(trade => trade.broker.toLowerCase() === selectedBroker.toLowerCase());
-    
-    // Apply date range filter
-    const now = new Date();
-    let startDate: Date;
-    
-    switch(dateRange) {
-      case '1d':
-        startDate = new Date(now.setDate(now.getDate() - 1));
-        break;
-      case '7d':
-        startDate = new Date(now.setDate(now.getDate() - 7));
-        break;
-      case '30d':
-        startDate = new Date(now.setDate(now.getDate() - 30));
-        break;
-      default:
-        startDate = new Date(now.setDate(now.getDate() - 7)); // Default to 7 days
-        break;
-    }
-    
-    return filteredByBroker.filter(trade => new Date(trade.creationTimestamp) >= startDate);
-  };
+  }, [socket, fetchSummaries]);
 
   if (isLoading) {
     return <div className="loading">Loading analytics data...</div>;
@@ -179,9 +216,7 @@ export default function Analytics() {
     return <div className="error-message">{error}</div>;
   }
 
-  const filteredTrades = getFilteredTrades();
-
-  if (filteredTrades.length === 0) {
+  if (!summary || summary.trades === 0) {
     return (
       <div className="analytics-container">
         <div className="analytics-filters">
@@ -191,15 +226,29 @@ export default function Analytics() {
               id="broker-select"
               className="filter-select"
               value={selectedBroker}
-              onChange={(e) => setSelectedBroker(e.target.value)}
+              onChange={(e) => {
+                setSelectedBroker(e.target.value);
+                setSelectedAccount('all');
+              }}
             >
               <option value="all">All Brokers</option>
               <option value="topstep">Topstep</option>
               <option value="kraken">Kraken</option>
               <option value="ibkr">IBKR</option>
+              <option value="paper">Paper</option>
             </select>
           </div>
           
+          <div className="filter-group">
+            <label htmlFor="account-select">Account:</label>
+            <AccountSelect
+              id="account-select"
+              selectedBroker={selectedBroker}
+              value={selectedAccount}
+              onChange={setSelectedAccount}
+            />
+          </div>
+          
           <div className="filter-group">
             <label htmlFor="date-range-select">Date Range:</label>
             <select 
@@ -229,16 +278,9 @@ export default function Analytics() {
     );
   }
 
-  // Calculate total profit and loss
-  const totalPnL = filteredTrades.reduce((sum, trade) => 
-    sum + ((trade.profitAndLoss || 0) - trade.fees), 0);
-
-  // Calculate winning trade percentage
-  const winningTrades = filteredTrades.filter(trade => (trade.profitAndLoss || 0) - trade.fees > 0);
-  const winRate = (winningTrades.length / filteredTrades.length) * 100;
-
-  // Calculate average trade P&L
-  const avgPnL = totalPnL / filteredTrades.length;
+  const totalPnL = summary.netPnl;
+  const winRate = summary.winRate;
+  const avgPnL = summary.averageNetPnl;
 
   return (
     <div className="analytics-container">
@@ -249,15 +291,29 @@ export default function Analytics() {
             id="broker-select"
             className="filter-select"
             value={selectedBroker}
-            onChange={(e) => setSelectedBroker(e.target.value)}
+            onChange={(e) => {
+              setSelectedBroker(e.target.value);
+              setSelectedAccount('all');
+            }}
           >
             <option value="all">All Brokers</option>
             <option value="topstep">Topstep</option>
             <option value="kraken">Kraken</option>
             <option value="ibkr">IBKR</option>
+            <option value="paper">Paper</option>
           </select>
         </div>
         
+        <div className="filter-group">
+          <label htmlFor="account-select">Account:</label>
+          <AccountSelect
+            id="account-select"
+            selectedBroker={selectedBroker}
+            value={selectedAccount}
+            onChange={setSelectedAccount}
+          />
+        </div>
+        
         <div className="filter-group">
           <label htmlFor="date-range-select">Date Range:</label>
           <select 
@@ -299,7 +355,7 @@ export default function Analytics() {
         
         <div className="summary-card">
           <h3>Trade Count</h3>
-          <div className="summary-value">{filteredTrades.length}</div>
+          <div className="summary-value">{summary.trades}</div>
         </div>
         
         <div className="summary-card">
@@ -314,20 +370,59 @@ export default function Analytics() {
         </div>
       </div>
       
+      {reconciliation && reconciliation.expectedTrades + reconciliation.extraTrades > 0 && (
+        <div className="chart-container reconciliation">
+          <h3>Live vs Signals</h3>
+          <div className="analytics-summary">
+            <div className="summary-card">
+              <h3>Matched Trades</h3>
+              <div className="summary-value">
+                {reconciliation.matchedTrades} of {reconciliation.expectedTrades}
+              </div>
+            </div>
+
+            <div className={`summary-card ${reconciliation.missedEntries > 0 ? 'negative' : ''}`}>
+              <h3>Missed Entries</h3>
+              <div className="summary-value">{reconciliation.missedEntries}</div>
+            </div>
+
+            <div className={`summary-card ${reconciliation.extraFills > 0 ? 'negative' : ''}`}>
+              <h3>Extra Fills</h3>
+              <div className="summary-value">{reconciliation.extraFills}</div>
+            </div>
+
+            <div className="summary-card">
+              <h3>Avg. Entry Slippage</h3>
+              <div className="summary-value">{formatTicks(reconciliation.averageEntrySlippageTicks)}</div>
+            </div>
+
+            <div className="summary-card">
+              <h3>Avg. Exit Slippage</h3>
+              <div className="summary-value">{formatTicks(reconciliation.averageExitSlippageTicks)}</div>
+            </div>
+
+            <div className={`summary-card ${reconciliation.pnlDifference >= 0 ? 'positive' : 'negative'}`}>
+              <h3>P&L vs Expected</h3>
+              <div className="summary-value">{formatPrice(reconciliation.pnlDifference)}</div>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="chart-grid">
         <div className="chart-container pnl-chart">
           <h3>Profit & Loss Over Time</h3>
-          <PnLChart trades={filteredTrades} />
+          <PnLChart days={days} />
         </div>
         
         <div className="chart-container performance-chart">
           <h3>Daily Performance</h3>
-          <DailyPerformanceChart trades={filteredTrades} />
+          <DailyPerformanceChart days={days} />
         </div>
         
         <div className="chart-container broker-chart">
           <h3>Trades by Broker</h3>
-          <BrokerPieChart trades={filteredTrades} />
+          <BrokerPieChart groups={brokers} />
         </div>
       </div>
     </div>
@@ -5,6 +5,7 @@ import {
   Tooltip,
   Legend
 } from 'chart.js';
+import type { TradeSummaryGroup } from './TradeMetrics';
 
 // Register Chart.js components
 ChartJS.register(
@@ -13,37 +14,15 @@ ChartJS.register(
   Legend
 );
 
-interface Trade {
-  broker: string;
-  accountId: number;
-  contractId: string;
-  creationTimestamp: string;
-  price: number;
-  profitAndLoss: number | null;
-  fees: number;
-  side: string;
-  size: number;
-  orderId: number;
-}
-
 interface BrokerPieChartProps {
-  trades: Trade[];
+  // Summaries grouped by broker
+  groups: TradeSummaryGroup[];
 }
 
-export default function BrokerPieChart({ trades }: BrokerPieChartProps) {
-  // Count trades by broker
-  const brokerCounts: Record<string, number> = {};
-  trades.forEach(trade => {
-    const broker = trade.broker;
-    if (!brokerCounts[broker]) {
-      brokerCounts[broker] = 0;
-    }
-    brokerCounts[broker] += 1;
-  });
-
-  // Extract broker names and counts
-  const brokers = Object.keys(brokerCounts);
-  const counts = brokers.map(broker => brokerCounts[broker]);
+export default function BrokerPieChart({ groups }: BrokerPieChartProps) {
+  // Extract broker names and trade counts
+  const brokers = groups.map(group => group.key);
+  const counts = groups.map(group => group.trades);
 
   // Define colors for each broker
   const generateColors = (count: number, alpha: number = 0.8) => {
@@ -8,6 +8,7 @@ import {
   Tooltip,
   Legend,
 } from 'chart.js';
+import type { TradeSummaryGroup } from './TradeMetrics';
 
 // Register Chart.js components
 ChartJS.register(
@@ -19,48 +20,20 @@ ChartJS.register(
   Legend
 );
 
-interface Trade {
-  broker: string;
-  accountId: number;
-  contractId: string;
-  creationTimestamp: string;
-  price: number;
-  profitAndLoss: number | null;
-  fees: number;
-  side: string;
-  size: number;
-  orderId: number;
-}
-
 interface DailyPerformanceChartProps {
-  trades: Trade[];
+  // Daily summaries, oldest first
+  days: TradeSummaryGroup[];
 }
 
-export default function DailyPerformanceChart({ trades }: DailyPerformanceChartProps) {
-  // Group trades by day and calculate daily P&L
-  const dailyPnL = trades.reduce((acc: Record<string, number>, trade) => {
-    const date = new Date(trade.creationTimestamp).toISOString().split('T')[0];
-    const tradePnL = (trade.profitAndLoss || 0) - trade.fees;
-    
-    if (!acc[date]) {
-      acc[date] = 0;
-    }
-    
-    acc[date] += tradePnL;
-    return acc;
-  }, {});
-
-  // Sort dates chronologically
-  const sortedDates = Object.keys(dailyPnL).sort();
-  
+export default function DailyPerformanceChart({ days }: DailyPerformanceChartProps) {
   // Format dates for display
-  const formattedDates = sortedDates.map(date => {
-    const [year, month, day] = date.split('-');
+  const formattedDates = days.map(({ key }) => {
+    const [year, month, day] = key.split('-');
     return `${month}/${day}/${year.slice(2)}`;
   });
 
   // Get daily P&L values
-  const dailyValues = sortedDates.map(date => dailyPnL[date]);
+  const dailyValues = days.map(day => day.netPnl);
 
   // Define bar colors based on P&L value
   const barColors = dailyValues.map(value => 
@@ -130,7 +103,7 @@ export default function DailyPerformanceChart({ trades }: DailyPerformanceChartP
   };
 
   // Check if we have any data to display
-  if (sortedDates.length === 0) {
+  if (days.length === 0) {
     return (
       <div style={{ height: '300px', width: '100%', display: 'flex', justifyContent: 'center', alignItems: 'center' }}>
         No daily performance data available
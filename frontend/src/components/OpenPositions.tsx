@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { io } from 'socket.io-client';
+import './TradeTable.css';
+
+interface Position {
+  broker: string;
+  accountId: number;
+  contractId: string;
+  quantity: number;
+  averagePrice: number;
+  realizedPnL: number;
+  fees: number;
+  updatedAt: string;
+}
+
+const positionKey = (position: Position) =>
+  `${position.broker}-${position.accountId}-${position.contractId}`;
+
+export default function OpenPositions() {
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch positions when component mounts
+  useEffect(() => {
+    const fetchPositions = async () => {
+      try {
+        const response = await fetch('/api/positions');
+        if (!response.ok) {
+          throw new Error('Failed to fetch positions');
+        }
+        const data = await response.json();
+        setPositions(Array.isArray(data.positions) ? data.positions : []);
+        setError(null);
+      } catch (err) {
+        setError('Error loading positions. Please try again.');
+        console.error('Failed to fetch positions:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchPositions();
+  }, []);
+
+  // Replace a position whenever a fill changes it, dropping it once flat
+  useEffect(() => {
+    const socketConnection = io(import.meta.env.DEV ? 'http://localhost:4000' : window.location.origin, {
+      transports: ['websocket', 'polling'],
+      reconnectionDelayMax: 10000,
+    });
+
+    socketConnection.on('position-update', (updatedPosition: Position) => {
+      setPositions(prevPositions => {
+        const others = prevPositions.filter(
+          position => positionKey(position) !== positionKey(updatedPosition)
+        );
+        return updatedPosition.quantity === 0 ? others : [...others, updatedPosition];
+      });
+    });
+
+    return () => {
+      socketConnection.disconnect();
+    };
+  }, []);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(price);
+  };
+
+  if (isLoading) {
+    return <div className="loading">Loading positions...</div>;
+  }
+
+  return (
+    <div className="table-section">
+      <div className="table-header">
+        <h3>Open Positions</h3>
+      </div>
+      {error && <div className="error-message">{error}</div>}
+      {positions.length === 0 ? (
+        <div className="empty-state">
+          <p>Flat. No open positions.</p>
+        </div>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Broker</th>
+              <th>Account</th>
+              <th>Contract</th>
+              <th>Side</th>
+              <th>Quantity</th>
+              <th>Avg Price</th>
+              <th>Realized P&L</th>
+              <th>Last Fill</th>
+            </tr>
+          </thead>
+          <tbody>
+            {positions.map((position, index) => (
+              <tr key={positionKey(position)} className={index % 2 === 0 ? 'even-row' : 'odd-row'}>
+                <td>{position.broker}</td>
+                <td>{position.accountId}</td>
+                <td>{position.contractId}</td>
+                <td className={position.quantity > 0 ? 'side-buy' : 'side-sell'}>
+                  {position.quantity > 0 ? 'LONG' : 'SHORT'}
+                </td>
+                <td>{Math.abs(position.quantity)}</td>
+                <td>{formatPrice(position.averagePrice)}</td>
+                <td className={position.realizedPnL > 0 ? 'profit' : 'loss'}>
+                  {formatPrice(position.realizedPnL)}
+                </td>
+                <td>{new Date(position.updatedAt).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
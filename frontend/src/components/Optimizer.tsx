@@ -0,0 +1,326 @@
+import { useState, useEffect, useCallback } from 'react';
+import './TradeTable.css';
+import './Analytics.css';
+
+// Figures of one backtest, as reported by the backend's engine
+interface BacktestReport {
+  netProfit: number;
+  maxDrawdown: number;
+  winPercent: number;
+  profitFactor: number | null;
+  closedTrades: number;
+}
+
+interface OptimizationRun {
+  rank: number | null;
+  params: Record<string, number | boolean>;
+  sharpe: number | null;
+  report: BacktestReport;
+  rejected?: string;
+}
+
+interface WalkForwardWindow {
+  inSample: { from: string | null; to: string | null };
+  outOfSample: { from: string | null; to: string | null };
+  params: Record<string, number | boolean> | null;
+  inSampleSharpe: number | null;
+  inSampleReport: BacktestReport | null;
+  outOfSampleSharpe: number | null;
+  outOfSampleReport: BacktestReport | null;
+}
+
+// A search stored by `npm run optimize`, from /api/optimizations
+interface OptimizationSummary {
+  id: number;
+  createdAt: string;
+  name: string | null;
+  strategy: string;
+  method: string;
+  contractId: string;
+  bars: number;
+  runs: number;
+  walkForward: boolean;
+}
+
+interface Optimization extends OptimizationSummary {
+  result: {
+    rankBy: string;
+    maxDrawdown: number;
+    minTrades: number;
+    from: string | null;
+    to: string | null;
+    runs: OptimizationRun[];
+    walkForward?: {
+      inSampleBars: number;
+      outOfSampleBars: number;
+      windows: WalkForwardWindow[];
+      outOfSample: { sharpe: number | null; report: BacktestReport };
+    };
+  };
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(price);
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : 'N/A');
+
+const formatParams = (params: Record<string, number | boolean>) =>
+  Object.entries(params)
+    .map(([name, value]) => `${name} ${value}`)
+    .join(', ');
+
+export default function Optimizer() {
+  const [optimizations, setOptimizations] = useState<OptimizationSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [optimization, setOptimization] = useState<Optimization | null>(null);
+  const [showRejected, setShowRejected] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOptimizations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/optimizations');
+      if (!response.ok) {
+        throw new Error('Failed to fetch optimizations');
+      }
+      const data = await response.json();
+      const list: OptimizationSummary[] = Array.isArray(data.optimizations) ? data.optimizations : [];
+      setOptimizations(list);
+      // Start with the newest search
+      setSelectedId((current) => current ?? list[0]?.id ?? null);
+      setError(null);
+    } catch (err) {
+      setError('Error loading optimizations. Please try again.');
+      console.error('Failed to fetch optimizations:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchOptimization = useCallback(async (id: number) => {
+    try {
+      const response = await fetch(`/api/optimizations/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch optimization');
+      }
+      setOptimization(await response.json());
+      setError(null);
+    } catch (err) {
+      setError('Error loading the optimization. Please try again.');
+      console.error('Failed to fetch optimization:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOptimizations();
+  }, [fetchOptimizations]);
+
+  useEffect(() => {
+    if (selectedId !== null) {
+      fetchOptimization(selectedId);
+    }
+  }, [selectedId, fetchOptimization]);
+
+  if (isLoading) {
+    return <div className="loading">Loading optimizations...</div>;
+  }
+
+  if (error) {
+    return <div className="error-message">{error}</div>;
+  }
+
+  if (optimizations.length === 0) {
+    return (
+      <div className="empty-state">
+        <p>No optimizations yet.</p>
+        <p>Run one with npm run optimize in the backend directory.</p>
+      </div>
+    );
+  }
+
+  const result = optimization?.result;
+  const ranked = result ? result.runs.filter((run) => run.rank !== null) : [];
+  const shownRuns = result ? (showRejected ? result.runs : ranked) : [];
+  // Parameters the search varied, one column each
+  const paramNames = result && result.runs.length > 0 ? Object.keys(result.runs[0].params) : [];
+  const best = ranked[0];
+
+  return (
+    <div>
+      <div className="analytics-filters">
+        <div className="filter-group">
+          <label>Optimization</label>
+          <select
+            className="filter-select"
+            value={selectedId ?? ''}
+            onChange={(e) => setSelectedId(Number(e.target.value))}
+          >
+            {optimizations.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                #{entry.id} {entry.name ?? entry.strategy} - {entry.method}, {entry.runs} runs on {entry.contractId} (
+                {new Date(entry.createdAt).toLocaleString()})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-group">
+          <label>
+            <input type="checkbox" checked={showRejected} onChange={(e) => setShowRejected(e.target.checked)} /> Show
+            runs that do not qualify
+          </label>
+        </div>
+      </div>
+
+      {result && (
+        <>
+          <div className="analytics-summary">
+            <div className="summary-card">
+              <h3>Qualifying Runs</h3>
+              <div className="summary-value">
+                {ranked.length} of {result.runs.length}
+              </div>
+            </div>
+            <div className="summary-card">
+              <h3>Constraints</h3>
+              <div className="summary-value">
+                DD &lt; {formatPrice(result.maxDrawdown)}, {result.minTrades}+ trades
+              </div>
+            </div>
+            <div className={`summary-card ${best && best.report.netProfit >= 0 ? 'positive' : 'negative'}`}>
+              <h3>Best Net P&L</h3>
+              <div className="summary-value">{best ? formatPrice(best.report.netProfit) : 'N/A'}</div>
+            </div>
+            <div className="summary-card">
+              <h3>Best Sharpe</h3>
+              <div className="summary-value">{best?.sharpe ?? 'N/A'}</div>
+            </div>
+          </div>
+
+          <div className="table-section">
+            <div className="table-header">
+              <h3>
+                Ranked by {result.rankBy}, {formatDate(result.from)} to {formatDate(result.to)}
+              </h3>
+            </div>
+            {shownRuns.length === 0 ? (
+              <div className="empty-state">
+                <p>No run stayed within the drawdown and trade count constraints.</p>
+              </div>
+            ) : (
+              <table>
+                <thead>
+                  <tr>
+                    <th>Rank</th>
+                    {paramNames.map((name) => (
+                      <th key={name}>{name}</th>
+                    ))}
+                    <th>Net P&L</th>
+                    <th>Max DD</th>
+                    <th>Sharpe</th>
+                    <th>Profit Factor</th>
+                    <th>Win %</th>
+                    <th>Trades</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownRuns.map((run, index) => (
+                    <tr
+                      key={JSON.stringify(run.params)}
+                      className={index % 2 === 0 ? 'even-row' : 'odd-row'}
+                      title={run.rejected}
+                    >
+                      <td>{run.rank ?? '-'}</td>
+                      {paramNames.map((name) => (
+                        <td key={name}>{String(run.params[name])}</td>
+                      ))}
+                      <td className={run.report.netProfit > 0 ? 'profit' : 'loss'}>
+                        {formatPrice(run.report.netProfit)}
+                      </td>
+                      <td className={run.rejected?.startsWith('Max drawdown') ? 'loss' : ''}>
+                        {formatPrice(run.report.maxDrawdown)}
+                      </td>
+                      <td>{run.sharpe ?? 'N/A'}</td>
+                      <td>{run.report.profitFactor ?? 'N/A'}</td>
+                      <td>{run.report.winPercent}%</td>
+                      <td>{run.report.closedTrades}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {result.walkForward && (
+            <div className="table-section">
+              <div className="table-header">
+                <h3>
+                  Walk-Forward ({result.walkForward.inSampleBars} bars in sample, {result.walkForward.outOfSampleBars}{' '}
+                  out of sample)
+                </h3>
+              </div>
+              <table>
+                <thead>
+                  <tr>
+                    <th>In Sample</th>
+                    <th>Out of Sample</th>
+                    <th>Best In-Sample Params</th>
+                    <th>In-Sample Sharpe</th>
+                    <th>OOS Net P&L</th>
+                    <th>OOS Max DD</th>
+                    <th>OOS Sharpe</th>
+                    <th>OOS Profit Factor</th>
+                    <th>OOS Trades</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.walkForward.windows.map((window, index) => (
+                    <tr key={index} className={index % 2 === 0 ? 'even-row' : 'odd-row'}>
+                      <td>
+                        {formatDate(window.inSample.from)} - {formatDate(window.inSample.to)}
+                      </td>
+                      <td>
+                        {formatDate(window.outOfSample.from)} - {formatDate(window.outOfSample.to)}
+                      </td>
+                      <td>{window.params ? formatParams(window.params) : 'No qualifying run'}</td>
+                      <td>{window.inSampleSharpe ?? 'N/A'}</td>
+                      {window.outOfSampleReport ? (
+                        <>
+                          <td className={window.outOfSampleReport.netProfit > 0 ? 'profit' : 'loss'}>
+                            {formatPrice(window.outOfSampleReport.netProfit)}
+                          </td>
+                          <td>{formatPrice(window.outOfSampleReport.maxDrawdown)}</td>
+                          <td>{window.outOfSampleSharpe ?? 'N/A'}</td>
+                          <td>{window.outOfSampleReport.profitFactor ?? 'N/A'}</td>
+                          <td>{window.outOfSampleReport.closedTrades}</td>
+                        </>
+                      ) : (
+                        <td colSpan={5}>Not traded</td>
+                      )}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td colSpan={4}>
+                      <strong>All out-of-sample windows</strong>
+                    </td>
+                    <td className={result.walkForward.outOfSample.report.netProfit > 0 ? 'profit' : 'loss'}>
+                      {formatPrice(result.walkForward.outOfSample.report.netProfit)}
+                    </td>
+                    <td>{formatPrice(result.walkForward.outOfSample.report.maxDrawdown)}</td>
+                    <td>{result.walkForward.outOfSample.sharpe ?? 'N/A'}</td>
+                    <td>{result.walkForward.outOfSample.report.profitFactor ?? 'N/A'}</td>
+                    <td>{result.walkForward.outOfSample.report.closedTrades}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   Legend,
   Filler
 } from 'chart.js';
+import type { TradeSummaryGroup } from './TradeMetrics';
 
 // Register Chart.js components
 ChartJS.register(
@@ -23,49 +24,29 @@ ChartJS.register(
   Filler
 );
 
-interface Trade {
-  broker: string;
-  accountId: number;
-  contractId: string;
-  creationTimestamp: string;
-  price: number;
-  profitAndLoss: number | null;
-  fees: number;
-  side: string;
-  size: number;
-  orderId: number;
-}
-
 interface PnLChartProps {
-  trades: Trade[];
+  // Daily summaries, oldest first
+  days: TradeSummaryGroup[];
 }
 
-export default function PnLChart({ trades }: PnLChartProps) {
-  // Sort trades by timestamp (oldest first)
-  const sortedTrades = [...trades].sort((a, b) => 
-    new Date(a.creationTimestamp).getTime() - new Date(b.creationTimestamp).getTime()
-  );
-
-  // Calculate cumulative P&L
+export default function PnLChart({ days }: PnLChartProps) {
+  // Calculate cumulative P&L at the end of each day
   let cumulativePnL = 0;
-  const chartData = sortedTrades.map(trade => {
-    const tradePnL = (trade.profitAndLoss || 0) - trade.fees;
-    cumulativePnL += tradePnL;
+  const chartData = days.map(day => {
+    cumulativePnL += day.netPnl;
     return {
-      timestamp: new Date(trade.creationTimestamp),
-      pnl: tradePnL,
+      date: day.key,
+      pnl: day.netPnl,
       cumulativePnL: cumulativePnL
     };
   });
 
-  // Format dates for x-axis
+  // Format dates for x-axis; days are UTC dates
   const labels = chartData.map(data => {
-    const date = data.timestamp;
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
+    return new Date(data.date).toLocaleDateString('en-US', {
+      month: 'short',
       day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
+      timeZone: 'UTC'
     });
   });
 
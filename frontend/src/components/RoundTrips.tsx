@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from 'react';
+import { io } from 'socket.io-client';
+import TradeMetrics, { type TradeSummary } from './TradeMetrics';
+import './TradeTable.css';
+
+// Entry and exit fills paired into one trade by /api/trades/round-trips
+interface RoundTrip {
+  id: string;
+  broker: string;
+  accountId: number;
+  contractId: string;
+  strategy: string | null;
+  direction: 'long' | 'short';
+  quantity: number;
+  entryTime: string;
+  exitTime: string | null;
+  averageEntryPrice: number;
+  averageExitPrice: number | null;
+  holdingSeconds: number | null;
+  grossPnl: number;
+  fees: number;
+  netPnl: number;
+  entryFills: number;
+  exitFills: number;
+  open: boolean;
+}
+
+interface RoundTripsProps {
+  selectedBroker: string;
+  selectedAccount: string;
+}
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+export default function RoundTrips({ selectedBroker, selectedAccount }: RoundTripsProps) {
+  const [roundTrips, setRoundTrips] = useState<RoundTrip[]>([]);
+  const [summary, setSummary] = useState<TradeSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRoundTrips = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ includeOpen: 'true', limit: '500' });
+      if (selectedAccount !== 'all') {
+        const [broker, accountId] = selectedAccount.split(':');
+        params.set('broker', broker);
+        params.set('accountId', accountId);
+      } else if (selectedBroker !== 'all') {
+        params.set('broker', selectedBroker);
+      }
+      const response = await fetch(`/api/trades/round-trips?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch round trips');
+      }
+      const data = await response.json();
+      setRoundTrips(Array.isArray(data.roundTrips) ? data.roundTrips : []);
+      setSummary(data.summary ?? null);
+      setError(null);
+    } catch (err) {
+      setError('Error loading round trips. Please try again.');
+      console.error('Failed to fetch round trips:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedBroker, selectedAccount]);
+
+  // Fetch when the selected broker or account changes
+  useEffect(() => {
+    fetchRoundTrips();
+  }, [fetchRoundTrips]);
+
+  // Every fill can open, extend or close a trip, so rebuild them on new fills
+  useEffect(() => {
+    const socketConnection = io(import.meta.env.DEV ? 'http://localhost:4000' : window.location.origin, {
+      transports: ['websocket', 'polling'],
+      reconnectionDelayMax: 10000,
+    });
+
+    socketConnection.on('new-trade', () => {
+      fetchRoundTrips();
+    });
+
+    return () => {
+      socketConnection.disconnect();
+    };
+  }, [fetchRoundTrips]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(price);
+  };
+
+  if (isLoading) {
+    return <div className="loading">Loading round trips...</div>;
+  }
+
+  if (error) {
+    return <div className="error-message">{error}</div>;
+  }
+
+  return (
+    <div>
+      {summary && summary.trades > 0 && (
+        <div className="metrics-section">
+          <TradeMetrics summary={summary} selectedBroker={selectedBroker} />
+        </div>
+      )}
+
+      <div className="table-section">
+        <div className="table-header">
+          <h3>Round Trips</h3>
+        </div>
+        {roundTrips.length === 0 ? (
+          <div className="empty-state">
+            <p>No round trips found for the selected broker or account.</p>
+          </div>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>Broker</th>
+                <th>Account</th>
+                <th>Contract</th>
+                <th>Side</th>
+                <th>Quantity</th>
+                <th>Avg Entry</th>
+                <th>Avg Exit</th>
+                <th>Gross P&L</th>
+                <th>Fees</th>
+                <th>Net P&L</th>
+                <th>Held</th>
+                <th>Entry</th>
+                <th>Exit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roundTrips.map((trip, index) => (
+                <tr key={trip.id} className={index % 2 === 0 ? 'even-row' : 'odd-row'}>
+                  <td>{trip.broker}</td>
+                  <td>{trip.accountId}</td>
+                  <td>{trip.contractId}</td>
+                  <td className={trip.direction === 'long' ? 'side-buy' : 'side-sell'}>
+                    {trip.direction.toUpperCase()}
+                  </td>
+                  <td title={`${trip.entryFills} entry fills, ${trip.exitFills} exit fills`}>
+                    {trip.quantity}
+                  </td>
+                  <td>{formatPrice(trip.averageEntryPrice)}</td>
+                  <td>{trip.averageExitPrice !== null ? formatPrice(trip.averageExitPrice) : 'N/A'}</td>
+                  <td className={trip.grossPnl > 0 ? 'profit' : 'loss'}>{formatPrice(trip.grossPnl)}</td>
+                  <td>{formatPrice(trip.fees)}</td>
+                  <td className={trip.netPnl > 0 ? 'profit' : 'loss'}>{formatPrice(trip.netPnl)}</td>
+                  <td>{trip.holdingSeconds !== null ? formatDuration(trip.holdingSeconds) : 'Open'}</td>
+                  <td>{new Date(trip.entryTime).toLocaleString()}</td>
+                  <td>{trip.exitTime && !trip.open ? new Date(trip.exitTime).toLocaleString() : 'Open'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,67 +1,34 @@
-import { useEffect, useState } from 'react';
 import './TradeMetrics.css';
 
-interface Trade {
-  broker: string;
-  accountId: number;
-  contractId: string;
-  creationTimestamp: string;
-  price: number;
-  profitAndLoss: number | null;
+// Totals from /api/trades/summary
+export interface TradeSummary {
+  trades: number;
+  wins: number;
+  losses: number;
+  grossPnl: number;
   fees: number;
-  side: string;
-  size: number;
-  orderId: number;
+  netPnl: number;
+  winRate: number;
+  // null when there are no losing trades
+  profitFactor: number | null;
+  averageNetPnl: number;
+  largestWin: number;
+  largestLoss: number;
 }
 
+// A summary split by groupBy, keyed by e.g. the UTC date or the broker
+export type TradeSummaryGroup = TradeSummary & { key: string };
+
 interface TradeMetricsProps {
-  trades: Trade[];
+  summary: TradeSummary;
   selectedBroker: string;
 }
 
-export default function TradeMetrics({ trades, selectedBroker }: TradeMetricsProps) {
-  const [totalPnL, setTotalPnL] = useState<number>(0);
-  const [winPercentage, setWinPercentage] = useState<number>(0);
-  const [profitFactor, setProfitFactor] = useState<number>(0);
-
-  useEffect(() => {
-    // Filter trades based on selected broker
-    const filteredTrades = selectedBroker === 'all' 
-      ? trades 
-      : trades.filter(trade => trade.broker.toLowerCase() === selectedBroker.toLowerCase());
-    
-    // Only consider trades with non-null P&L values
-    const tradesWithPnL = filteredTrades.filter(trade => trade.profitAndLoss !== null);
-    
-    if (tradesWithPnL.length === 0) {
-      setTotalPnL(0);
-      setWinPercentage(0);
-      setProfitFactor(0);
-      return;
-    }
-
-    // Calculate total P&L (subtracting fees)
-    const pnlTotal = tradesWithPnL.reduce((sum, trade) => 
-      sum + (trade.profitAndLoss || 0) - trade.fees, 0);
-    setTotalPnL(pnlTotal);
-
-    // Calculate win percentage (accounting for fees)
-    const winningTrades = tradesWithPnL.filter(trade => (trade.profitAndLoss || 0) - trade.fees > 0);
-    const winRate = (winningTrades.length / tradesWithPnL.length) * 100;
-    setWinPercentage(winRate);
-
-    // Calculate profit factor (sum of profits / sum of losses)
-    const profits = tradesWithPnL
-      .filter(trade => (trade.profitAndLoss || 0) - trade.fees > 0)
-      .reduce((sum, trade) => sum + ((trade.profitAndLoss || 0) - trade.fees), 0);
-    
-    const losses = tradesWithPnL
-      .filter(trade => (trade.profitAndLoss || 0) - trade.fees < 0)
-      .reduce((sum, trade) => sum + Math.abs((trade.profitAndLoss || 0) - trade.fees), 0);
-    
-    const profitFactorValue = losses > 0 ? profits / losses : profits > 0 ? Infinity : 0;
-    setProfitFactor(profitFactorValue);
-  }, [trades, selectedBroker]);
+export default function TradeMetrics({ summary, selectedBroker }: TradeMetricsProps) {
+  const totalPnL = summary.netPnl;
+  const winPercentage = summary.winRate;
+  // Without losses the profit factor is unbounded if there were any profits
+  const profitFactor = summary.profitFactor ?? (summary.wins > 0 ? Infinity : 0);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -71,7 +38,7 @@ export default function TradeMetrics({ trades, selectedBroker }: TradeMetricsPro
     }).format(amount);
   };
 
-  if (trades.length === 0) {
+  if (summary.trades === 0) {
     return (
       <div className="trade-metrics">
         <h3>Performance Summary</h3>
@@ -98,7 +65,7 @@ export default function TradeMetrics({ trades, selectedBroker }: TradeMetricsPro
           <div className="metric-title">Win Rate</div>
           <div className="metric-value">{winPercentage.toFixed(1)}%</div>
           <div className="metric-detail">
-            {trades.filter(trade => trade.profitAndLoss !== null).length} trades
+            {summary.trades} trades
           </div>
         </div>
 
@@ -1,6 +1,6 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { io } from 'socket.io-client';
-import TradeMetrics from './TradeMetrics';
+import TradeMetrics, { type TradeSummary } from './TradeMetrics';
 import './TradeTable.css';
 
 interface Trade {
@@ -16,13 +16,21 @@ interface Trade {
   orderId: number;
 }
 
+// Trades fetched per page
+const PAGE_SIZE = 100;
+
 interface TradeTableProps {
   selectedBroker: string;
+  // 'all' or `${broker}:${accountId}`
+  selectedAccount: string;
 }
 
-export default function TradeTable({ selectedBroker }: TradeTableProps) {
+export default function TradeTable({ selectedBroker, selectedAccount }: TradeTableProps) {
   const [trades, setTrades] = useState<Trade[]>([]);
+  const [summary, setSummary] = useState<TradeSummary | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [socket, setSocket] = useState<ReturnType<typeof io> | null>(null);
   const [isConnected, setIsConnected] = useState(false);
@@ -61,12 +69,82 @@ export default function TradeTable({ selectedBroker }: TradeTableProps) {
     };
   }, []);
 
-  // Refetch when selected broker changes or when component remounts
+  // Query parameters for the selected broker and account
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (selectedAccount !== 'all') {
+      const [broker, accountId] = selectedAccount.split(':');
+      params.set('broker', broker);
+      params.set('accountId', accountId);
+    } else if (selectedBroker !== 'all') {
+      params.set('broker', selectedBroker);
+    }
+    return params;
+  }, [selectedBroker, selectedAccount]);
+
+  // Fetch the first page of trades, or the page after the cursor
+  const fetchTrades = useCallback(async (cursor?: string) => {
+    try {
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
+      const params = filterParams();
+      params.set('limit', String(PAGE_SIZE));
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+      const response = await fetch(`/api/trades?${params}`);
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch trades');
+      }
+      
+      const data = await response.json();
+      // Only fills with realized P&L are returned
+      if (Array.isArray(data.trades)) {
+        setTrades(prevTrades => cursor ? [...prevTrades, ...data.trades] : data.trades);
+        setNextCursor(data.nextCursor ?? null);
+        setError(null);
+      } else {
+        // If the response contains an error message
+        setTrades([]);
+        setError(data.error || 'Invalid response format');
+        console.error('Invalid response format:', data);
+      }
+    } catch (err) {
+      setError('Error loading trade data. Please try again.');
+      console.error('Failed to fetch trades:', err);
+      setTrades([]);
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, [filterParams]);
+
+  // Fetch the totals over every matching trade, not just the loaded pages
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/trades/summary?${filterParams()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch trade summary');
+      }
+      const data = await response.json();
+      setSummary(data.summary ?? null);
+    } catch (err) {
+      console.error('Failed to fetch trade summary:', err);
+      setSummary(null);
+    }
+  }, [filterParams]);
+
+  // Refetch when the selected broker or account changes or when component remounts
   useEffect(() => {
     console.log('Selected broker changed to:', selectedBroker);
-    // Always fetch trades when broker changes or component remounts
+    // Always fetch trades when the filters change or component remounts
     fetchTrades();
-  }, [selectedBroker]);
+    fetchSummary();
+  }, [selectedBroker, fetchTrades, fetchSummary]);
 
   // Listen for new trade events
   useEffect(() => {
@@ -98,6 +176,8 @@ export default function TradeTable({ selectedBroker }: TradeTableProps) {
         // Return new array with the new trade at the beginning
         return [newTrade, ...prevTrades];
       });
+      // Totals come from the server, so fetch them again
+      fetchSummary();
     };
 
     // Register event listener
@@ -107,52 +187,7 @@ export default function TradeTable({ selectedBroker }: TradeTableProps) {
     return () => {
       socket.off('new-trade', newTradeListener);
     };
-  }, [socket]);
-
-  const fetchTrades = async () => {
-    try {
-      setIsLoading(true);
-      const response = await fetch('/api/trades');
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch trades');
-      }
-      
-      const data = await response.json();
-      // Check if data is an array and has elements
-      if (Array.isArray(data)) {
-        // Filter out trades with null profitAndLoss
-        const filteredTrades = data.filter(trade => trade.profitAndLoss !== null);
-        setTrades(filteredTrades);
-        setError(null);
-        
-        // Log if any trades were filtered out
-        if (filteredTrades.length < data.length) {
-          console.log(`Filtered out ${data.length - filteredTrades.length} trades with null P&L`);
-        }
-      } else {
-        // If data is not an array or contains an error message
-        setTrades([]);
-        setError(data.error || 'Invalid response format');
-        console.error('Invalid response format:', data);
-      }
-
-      // Add debugging logs to verify response data
-      console.log("Response data from /api/trades:", data);
-    } catch (err) {
-      setError('Error loading trade data. Please try again.');
-      console.error('Failed to fetch trades:', err);
-      setTrades([]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Fetch trades when component mounts
-  useEffect(() => {
-    console.log('TradeTable component mounted - fetching trades');
-    fetchTrades();
-  }, []);
+  }, [socket, fetchSummary]);
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -184,16 +219,17 @@ export default function TradeTable({ selectedBroker }: TradeTableProps) {
     );
   }
 
-  // Filter trades based on selected broker
-  const filteredTrades = selectedBroker === 'all' 
+  // Filter trades based on selected broker and account
+  const filteredTrades = (selectedBroker === 'all' 
     ? trades 
-    : trades.filter(trade => trade.broker.toLowerCase() === selectedBroker.toLowerCase());
+    : trades.filter(trade => trade.broker.toLowerCase() === selectedBroker.toLowerCase()))
+    .filter(trade => selectedAccount === 'all' || `${trade.broker}:${trade.accountId}` === selectedAccount);
 
   return (
     <div>
-      {filteredTrades.length > 0 && (
+      {filteredTrades.length > 0 && summary && (
         <div className="metrics-section">
-          <TradeMetrics trades={filteredTrades} selectedBroker={selectedBroker} />
+          <TradeMetrics summary={summary} selectedBroker={selectedBroker} />
         </div>
       )}
       
@@ -211,8 +247,8 @@ export default function TradeTable({ selectedBroker }: TradeTableProps) {
         </div>
         {filteredTrades.length === 0 ? (
           <div className="empty-state">
-            <p>No trades found for the selected broker.</p>
-            <p>Try selecting a different broker from the dropdown above.</p>
+            <p>No trades found for the selected broker or account.</p>
+            <p>Try selecting a different broker or account from the dropdowns above.</p>
           </div>
         ) : (
         <table>
@@ -250,6 +286,17 @@ export default function TradeTable({ selectedBroker }: TradeTableProps) {
           </tbody>
         </table>
       )}
+      {nextCursor && (
+        <div className="load-more">
+          <button
+            className="load-more-button"
+            onClick={() => fetchTrades(nextCursor)}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
       </div>
     </div>
   );
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { io } from 'socket.io-client';
+import './TradeTable.css';
+import './WorkingOrders.css';
+
+interface Order {
+  id: number;
+  broker: string;
+  accountId: number | null;
+  orderId: number | string | null;
+  contractId: string;
+  side: string;
+  type: string;
+  quantity: number;
+  filledQuantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  linkedOrderId: number | null;
+  status: string;
+  statusReason: string | null;
+  creationTimestamp: string;
+}
+
+const OPEN_STATUSES = ['pending', 'working', 'partiallyFilled'];
+
+export default function WorkingOrders() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<number | null>(null);
+
+  const fetchOrders = async () => {
+    try {
+      const response = await fetch('/api/orders?status=open');
+      const data = await response.json();
+      if (!response.ok || !Array.isArray(data)) {
+        throw new Error(data.error || 'Failed to fetch orders');
+      }
+      setOrders(data);
+      setError(null);
+    } catch (err) {
+      setError('Error loading working orders. Please try again.');
+      console.error('Failed to fetch orders:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Fetch orders when component mounts
+  useEffect(() => {
+    fetchOrders();
+  }, []);
+
+  // Keep the list in step with order updates pushed by the backend
+  useEffect(() => {
+    const socketConnection = io(import.meta.env.DEV ? 'http://localhost:4000' : window.location.origin, {
+      transports: ['websocket', 'polling'],
+      reconnectionDelayMax: 10000,
+    });
+
+    socketConnection.on('order-update', (updatedOrder: Order) => {
+      setOrders(prevOrders => {
+        const others = prevOrders.filter(order => order.id !== updatedOrder.id);
+        if (!OPEN_STATUSES.includes(updatedOrder.status)) {
+          return others;
+        }
+        return [updatedOrder, ...others].sort((a, b) =>
+          b.creationTimestamp.localeCompare(a.creationTimestamp)
+        );
+      });
+    });
+
+    return () => {
+      socketConnection.disconnect();
+    };
+  }, []);
+
+  const cancelOrder = async (order: Order) => {
+    if (order.orderId === null) return;
+    setCancelling(order.id);
+    try {
+      const response = await fetch(`/api/orders/${order.broker}/${order.orderId}/cancel`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to cancel order');
+      }
+      setOrders(prevOrders => prevOrders.filter(o => o.id !== order.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel order');
+      console.error('Failed to cancel order:', err);
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  const formatPrice = (price: number | null) => {
+    return price === null ? '-' : price.toFixed(2);
+  };
+
+  if (isLoading) {
+    return <div className="loading">Loading working orders...</div>;
+  }
+
+  return (
+    <div className="table-section working-orders">
+      <div className="table-header">
+        <h3>Working Orders</h3>
+        <div className="table-actions">
+          <button className="refresh-button" onClick={fetchOrders}>
+            Refresh
+          </button>
+        </div>
+      </div>
+      {error && <div className="error-message">{error}</div>}
+      {orders.length === 0 ? (
+        <div className="empty-state">
+          <p>No working orders.</p>
+        </div>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Broker</th>
+              <th>Order</th>
+              <th>Contract</th>
+              <th>Side</th>
+              <th>Type</th>
+              <th>Filled</th>
+              <th>Limit</th>
+              <th>Stop</th>
+              <th>Status</th>
+              <th>Time</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {orders.map((order, index) => (
+              <tr key={order.id} className={index % 2 === 0 ? 'even-row' : 'odd-row'}>
+                <td>{order.broker}</td>
+                <td>
+                  {order.orderId ?? '-'}
+                  {order.linkedOrderId !== null && (
+                    <span className="linked-order"> ↳ {order.linkedOrderId}</span>
+                  )}
+                </td>
+                <td>{order.contractId}</td>
+                <td className={`side-${order.side.toLowerCase()}`}>
+                  {order.side.toUpperCase()}
+                </td>
+                <td>{order.type}</td>
+                <td>{order.filledQuantity}/{order.quantity}</td>
+                <td>{formatPrice(order.limitPrice)}</td>
+                <td>{formatPrice(order.stopPrice)}</td>
+                <td>
+                  <span className={`order-status status-${order.status}`}>{order.status}</span>
+                </td>
+                <td>{new Date(order.creationTimestamp).toLocaleString()}</td>
+                <td>
+                  <button
+                    className="cancel-button"
+                    disabled={order.orderId === null || cancelling === order.id}
+                    onClick={() => cancelOrder(order)}
+                  >
+                    {cancelling === order.id ? 'Cancelling...' : 'Cancel'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}